@@ -29,6 +29,11 @@ const App = () => (
                 <Index />
               </ProtectedRoute>
             } />
+            <Route path="/edit/:id" element={
+              <ProtectedRoute>
+                <Index />
+              </ProtectedRoute>
+            } />
             <Route path="/dashboards" element={
               <ProtectedRoute>
                 <DashboardList />
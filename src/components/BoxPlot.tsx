@@ -0,0 +1,112 @@
+import { cn } from "@/lib/utils";
+import type { ChartConfig } from "./ChartConfigDropdowns";
+import type { DataPoint } from "./DataEditor";
+import type { VisualProperties } from "./PropertyPanel";
+import { withAlpha } from "@/utils/conditionalFormatting";
+import { getExtent } from "@/utils/extent";
+
+interface BoxPlotProps {
+  data: DataPoint[];
+  config?: ChartConfig;
+  properties: VisualProperties;
+  formatValue: (value: unknown, options?: { compact?: boolean }) => string;
+  onDataClick?: (dimension: string, value: string) => void;
+  isHighlighted: (name: string) => boolean;
+}
+
+// Space either side of the smallest and largest values, as a share of the range
+const SCALE_PADDING = 0.05;
+
+/**
+ * Box plot visual
+ * One horizontal box per group on a shared scale: whiskers out to the furthest values
+ * within 1.5 × IQR, the box from q1 to q3 with the median through it, and the values
+ * beyond as outlier dots naming their row (see distribution.ts). Boxes split by a
+ * dimension cross-filter the other visuals.
+ */
+export function BoxPlot({ data, config, properties, formatValue, onDataClick, isHighlighted }: BoxPlotProps) {
+  const boxes = data.filter((point) => !point.isOutlier);
+  const outliers = data.filter((point) => point.isOutlier);
+  const isClickable = !!config?.groupBy && !!onDataClick;
+
+  const extents = data.flatMap((point) =>
+    point.isOutlier ? [point.value] : [Number(point.lowerWhisker), Number(point.upperWhisker)]
+  );
+  const { min: low, max: high } = getExtent(extents);
+  const padding = (high - low) * SCALE_PADDING || Math.abs(high) * SCALE_PADDING || 1;
+  // Measures that can't go negative keep the scale at or above 0
+  const scale = { min: low >= 0 ? Math.max(0, low - padding) : low - padding, max: high + padding };
+  const toPercent = (value: unknown) => ((Number(value) - scale.min) / (scale.max - scale.min)) * 100;
+
+  if (boxes.length === 0) return null;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-1 min-h-0 overflow-auto flex flex-col justify-center gap-3 pr-1">
+        {boxes.map((box) => (
+          <div
+            key={box.id}
+            className={cn("flex items-center gap-3", isClickable && "cursor-pointer hover:opacity-80")}
+            style={{ opacity: isHighlighted(box.category) ? 1 : 0.3 }}
+            onClick={isClickable ? () => onDataClick!("category", box.category) : undefined}
+          >
+            <div className="w-1/4 min-w-0 text-right flex-shrink-0">
+              <div className="text-sm truncate" title={box.category}>
+                {box.category}
+              </div>
+              <div className="text-xs text-muted-foreground truncate">
+                Median {formatValue(box.value)} · {Number(box.count).toLocaleString()} rows
+              </div>
+            </div>
+            <div
+              className="relative flex-1 h-7"
+              title={`Q1 ${formatValue(box.q1)} · Median ${formatValue(box.value)} · Q3 ${formatValue(box.q3)}`}
+            >
+              <div
+                className="absolute top-1/2 h-px bg-muted-foreground"
+                style={{ left: `${toPercent(box.lowerWhisker)}%`, width: `${toPercent(box.upperWhisker) - toPercent(box.lowerWhisker)}%` }}
+              />
+              {[box.lowerWhisker, box.upperWhisker].map((whisker, i) => (
+                <div
+                  key={i}
+                  className="absolute inset-y-1.5 w-px bg-muted-foreground"
+                  style={{ left: `${toPercent(whisker)}%` }}
+                />
+              ))}
+              <div
+                className="absolute inset-y-0 rounded-sm border"
+                style={{
+                  left: `${toPercent(box.q1)}%`,
+                  width: `${Math.max(0.5, toPercent(box.q3) - toPercent(box.q1))}%`,
+                  backgroundColor: withAlpha(properties.primaryColor, 0.33),
+                  borderColor: properties.primaryColor,
+                }}
+              />
+              <div
+                className="absolute inset-y-0 w-0.5 -ml-px"
+                style={{ left: `${toPercent(box.value)}%`, backgroundColor: properties.primaryColor }}
+              />
+              {outliers
+                .filter((outlier) => outlier.category === box.category)
+                .map((outlier) => (
+                  <div
+                    key={outlier.id}
+                    className="absolute top-1/2 h-2 w-2 -ml-1 -mt-1 rounded-full border bg-background"
+                    style={{ left: `${toPercent(outlier.value)}%`, borderColor: properties.primaryColor }}
+                    title={`${outlier.label}: ${formatValue(outlier.value)}`}
+                  />
+                ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-3 pt-1 pr-1 text-[10px] text-muted-foreground flex-shrink-0">
+        <div className="w-1/4 flex-shrink-0" />
+        <div className="flex-1 flex justify-between">
+          <span>{formatValue(scale.min, { compact: true })}</span>
+          <span>{formatValue(scale.max, { compact: true })}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
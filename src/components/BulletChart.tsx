@@ -0,0 +1,96 @@
+import { cn } from "@/lib/utils";
+import type { ChartConfig } from "./ChartConfigDropdowns";
+import type { DataPoint } from "./DataEditor";
+import type { VisualProperties } from "./PropertyPanel";
+import {
+  getBandOpacity,
+  getScaleFraction,
+  getTargetBands,
+  getTargetPercent,
+  getTargetScale,
+} from "@/utils/targets";
+
+interface BulletChartProps {
+  data: DataPoint[];
+  config?: ChartConfig;
+  properties: VisualProperties;
+  formatValue: (value: unknown, options?: { compact?: boolean }) => string;
+  onDataClick?: (dimension: string, value: string) => void;
+}
+
+/**
+ * Bullet chart visual
+ * One horizontal bullet per point on a shared scale: the qualitative bands behind,
+ * the value as a bar through the middle and the target as a vertical marker
+ * (see targets.ts). Bullets split by a dimension cross-filter the other visuals.
+ */
+export function BulletChart({ data, config, properties, formatValue, onDataClick }: BulletChartProps) {
+  const scale = getTargetScale(data, config);
+  const isClickable = !!config?.groupBy && !!onDataClick;
+  const toPercent = (value: number) => getScaleFraction(value, scale) * 100;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-1 min-h-0 overflow-auto flex flex-col justify-center gap-3 pr-1">
+        {data.map((point) => {
+          const target = typeof point.target === "number" ? point.target : undefined;
+          const bands = getTargetBands(config, point, scale);
+          const percent = getTargetPercent(point);
+
+          return (
+            <div
+              key={point.id}
+              className={cn("flex items-center gap-3", isClickable && "cursor-pointer hover:opacity-80")}
+              onClick={isClickable ? () => onDataClick!("category", point.category) : undefined}
+            >
+              <div className="w-1/4 min-w-0 text-right flex-shrink-0">
+                <div className="text-sm truncate" title={point.category}>
+                  {point.category}
+                </div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {formatValue(point.value)}
+                  {percent !== null && ` · ${Math.round(percent)}%`}
+                </div>
+              </div>
+              <div className="relative flex-1 h-7 rounded-sm bg-muted">
+                {bands.map((band, i) => (
+                  <div
+                    key={i}
+                    className="absolute inset-y-0 bg-muted-foreground"
+                    style={{
+                      left: `${toPercent(band.from)}%`,
+                      width: `${toPercent(band.to) - toPercent(band.from)}%`,
+                      opacity: getBandOpacity(i, bands.length),
+                    }}
+                  />
+                ))}
+                <div
+                  className="absolute left-0 top-1/3 h-1/3 transition-all"
+                  style={{
+                    width: `${toPercent(point.value)}%`,
+                    backgroundColor: properties.primaryColor,
+                    transitionDuration: `${properties.animationDuration}ms`,
+                  }}
+                />
+                {target !== undefined && (
+                  <div
+                    className="absolute inset-y-1 w-0.5 -ml-px bg-foreground"
+                    style={{ left: `${toPercent(target)}%` }}
+                    title={`Target: ${formatValue(target)}`}
+                  />
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-3 pt-1 pr-1 text-[10px] text-muted-foreground flex-shrink-0">
+        <div className="w-1/4 flex-shrink-0" />
+        <div className="flex-1 flex justify-between">
+          <span>{formatValue(scale.min, { compact: true })}</span>
+          <span>{formatValue(scale.max, { compact: true })}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,7 +8,10 @@ import type { VisualProperties } from "./PropertyPanel";
 import type { DataPoint } from "./DataEditor";
 import { Button } from "./ui/button";
 import { cn } from "@/lib/utils";
-import type { FieldMapping } from "@/types/dashboard";
+import type { DataTruncation, FieldMapping, VisualQueryStatus } from "@/types/dashboard";
+import type { ChartConfig } from "./ChartConfigDropdowns";
+import { DrillControls } from "./DrillControls";
+import { canDrillDown, drillDown, getDrillHierarchy } from "@/utils/drill";
 
 export interface CanvasVisualData {
   id: string;
@@ -19,6 +22,10 @@ export interface CanvasVisualData {
   size: { width: number; height: number };
   fieldMapping?: FieldMapping;
   valueFieldNames?: string[];  // Names for legend display in multi-value charts
+  config?: ChartConfig;        // Measure/GroupBy/Date selection the data is built from
+  truncation?: DataTruncation; // Set when the data was cut to the config's Top/Bottom N
+  rowLimit?: number;           // Set when row-level data stopped at this many rows
+  queryStatus?: VisualQueryStatus; // Set while the server query is loading or after it failed
 }
 
 interface CanvasVisualProps {
@@ -33,6 +40,7 @@ interface CanvasVisualProps {
   onDelete: () => void;
   onDuplicate: () => void;
   onDataClick?: (dimension: string, value: string) => void;
+  onDrill?: (config: ChartConfig) => void;  // Without it the visual can't be drilled
 }
 
 export function CanvasVisual({
@@ -47,6 +55,7 @@ export function CanvasVisual({
   onDelete,
   onDuplicate,
   onDataClick,
+  onDrill,
 }: CanvasVisualProps) {
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
     id: visual.id,
@@ -59,6 +68,15 @@ export function CanvasVisual({
 
   const resizeRef = useRef<HTMLDivElement>(null);
   const [isResizing, setIsResizing] = useState(false);
+  const [drillMode, setDrillMode] = useState(false);
+
+  // Drill hands back the drilled config, which the page keeps for the session and queries
+  const drillHierarchy = onDrill ? getDrillHierarchy(visual.type, visual.config) : null;
+  const isDrilling = drillMode && !!drillHierarchy && !!visual.config && canDrillDown(drillHierarchy, visual.config);
+
+  const handleDataClick = isDrilling
+    ? (_dimension: string, value: string) => onDrill!(drillDown(visual.config!, drillHierarchy!, value))
+    : onDataClick;
 
   const style = {
     transform: CSS.Translate.toString(transform),
@@ -161,15 +179,33 @@ export function CanvasVisual({
       )}
 
       {/* Visual Content */}
-      <div className="p-6 h-full relative">
-        <VisualPreview 
-          type={visual.type} 
-          data={visual.data} 
-          properties={visual.properties}
-          onDataClick={onDataClick}
-          highlightedValue={highlightedValue}
-          valueFieldNames={visual.valueFieldNames || visual.fieldMapping?.values?.map(f => f.name)}
-        />
+      <div className="p-6 h-full relative flex flex-col">
+        {/* Drill header - breadcrumb and drill controls */}
+        {drillHierarchy && visual.config && onDrill && (
+          <div className="-mt-3 mb-1 flex-shrink-0">
+            <DrillControls
+              hierarchy={drillHierarchy}
+              config={visual.config}
+              drillMode={isDrilling}
+              onDrillModeChange={setDrillMode}
+              onChange={onDrill}
+            />
+          </div>
+        )}
+        <div className="flex-1 min-h-0">
+          <VisualPreview 
+            type={visual.type} 
+            data={visual.data} 
+            properties={visual.properties}
+            onDataClick={handleDataClick}
+            highlightedValue={highlightedValue}
+            valueFieldNames={visual.valueFieldNames || visual.fieldMapping?.values?.map(f => f.name)}
+            config={visual.config}
+            truncation={visual.truncation}
+            rowLimit={visual.rowLimit}
+            status={visual.queryStatus}
+          />
+        </div>
         
         {/* Drop indicator overlay */}
         {showDropIndicator && (
@@ -6,14 +6,28 @@
  * - Multi-Line: Measure 1, Measure 2, GroupBy, Date
  * - Table: Select Columns (multi-select)
  * - Card/KPI: Measure, Calculation
+ * - Charts: each measure picks its aggregation (Sum, Average, Min, Max, Count, Distinct Count)
  * - Pie: Measure, Legend (GroupBy), no date
+ * - Heatmap: Measure over a calendar, or over rows (GroupBy) × columns
+ * - Histogram / Box plot: Measure on each row, binned or per GroupBy value
+ *
+ * Fields the data source doesn't provide (see utils/semanticLayer.ts) are
+ * listed but disabled.
  */
 
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { BarChart3, Check } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import type { AggregationType, DrillStep } from "@/types/dashboard";
+import { getMetric, isMetricAvailable, isDimensionAvailable, UNAVAILABLE_FIELD_HINT } from "@/utils/semanticLayer";
+import { supportsComparison } from "@/utils/comparison";
+import { isTargetVisual } from "@/utils/targets";
+import { isCalendarHeatmap } from "@/utils/heatmap";
+import { isDistributionVisual } from "@/utils/distribution";
 
 // ============================================================================
 // CONSTANTS - Meta Ads Metrics and Dimensions
@@ -90,6 +104,16 @@ export const calculationTypes = [
   { value: "last", label: "Last Value" },
 ] as const;
 
+// Per-measure aggregation (AggregationType); "sum" of a derived metric is a ratio of sums
+export const aggregationTypes = [
+  { value: "sum", label: "Sum" },
+  { value: "avg", label: "Average" },
+  { value: "min", label: "Minimum" },
+  { value: "max", label: "Maximum" },
+  { value: "count", label: "Count" },
+  { value: "distinctCount", label: "Distinct Count" },
+] as const;
+
 export const sortOptions = [
   { value: "value-desc", label: "Value (High to Low)" },
   { value: "value-asc", label: "Value (Low to High)" },
@@ -98,6 +122,25 @@ export const sortOptions = [
   { value: "none", label: "No Sorting" },
 ] as const;
 
+// Period-over-period comparison (see utils/comparison.ts)
+const comparisonModes = [
+  { value: "none", label: "No comparison" },
+  { value: "previousPeriod", label: "Previous period" },
+  { value: "previousYear", label: "Same period last year" },
+  { value: "custom", label: "Custom range" },
+] as const;
+
+const cardVariants = [
+  { value: "single", label: "KPI card" },
+  { value: "multiRow", label: "Multi-row card" },
+] as const;
+
+// Heatmap grids (see utils/heatmap.ts)
+const heatmapLayouts = [
+  { value: "calendar", label: "Calendar (day × week)" },
+  { value: "dimensions", label: "Two dimensions" },
+] as const;
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -107,17 +150,304 @@ export type GroupByDimension = typeof groupByDimensions[number];
 export type DateGranularity = typeof dateGranularities[number]["value"];
 export type CalculationType = typeof calculationTypes[number]["value"];
 export type SortOption = typeof sortOptions[number]["value"];
+export type TopNMode = "top" | "bottom" | "all";
+export type ComparisonMode = typeof comparisonModes[number]["value"];
+export type CardVariant = typeof cardVariants[number]["value"];
+export type HeatmapLayout = typeof heatmapLayouts[number]["value"];
 
 export interface ChartConfig {
   measure: MetaMetric | "";
   measure2?: MetaMetric | "";  // For multi-line charts
   groupBy: GroupByDimension | "";
   dateGranularity: DateGranularity;
+  aggregation?: AggregationType;  // How measure is aggregated per group (default sum)
+  aggregation2?: AggregationType;  // How measure2 is aggregated per group (default sum)
   calculation?: CalculationType;  // For KPI cards
   selectedColumns?: string[];  // For tables
+  tableAggregate?: boolean;  // For tables - one row per combination of the selected dimensions instead of raw rows
   sortBy?: SortOption;  // For sorting data
   matrixRows?: GroupByDimension[];  // For matrix - row dimensions
   matrixColumns?: GroupByDimension[];  // For matrix - column dimensions
+  matrixMeasures?: MetaMetric[];  // For matrix - values shown in each cell; measure holds the first
+  sizeMeasure?: MetaMetric | "";  // For scatter - bubble size (measure = x axis, measure2 = y axis)
+  treemapDetail?: GroupByDimension | "";  // For treemap - rectangles nested inside each group
+  funnelStages?: "dimension" | "measures";  // For funnel - stages from groupBy values or from funnelMeasures
+  funnelMeasures?: MetaMetric[];  // For funnel - measures shown as stages, in order
+  showWaterfallTotal?: boolean;  // For waterfall - closing total bar (default on)
+  legend?: GroupByDimension | "";  // For bar, line and area - one series per value of this dimension
+  drillPath?: DrillStep[];  // Steps taken down the visual's drill hierarchy (see utils/drill.ts)
+  topNMode?: TopNMode;  // For charts - keep the largest or smallest categories (default top)
+  topNCount?: number;  // For charts - how many categories to keep (default 15)
+  showOthers?: boolean;  // For charts - aggregate the cut categories into an "Others" row
+  comparison?: ComparisonMode;  // For cards and single-series bar/line/area - period to compare against
+  comparisonRange?: { start: string; end: string };  // For the "custom" comparison - yyyy-MM-dd, inclusive
+  trendLine?: boolean;  // For single-series time axes - linear trend (see utils/timeSeriesAnalytics.ts)
+  movingAverage?: number;  // For single-series time axes - periods in the moving average, off when unset
+  forecastPeriods?: number;  // For single-series time axes - periods to forecast, off when unset
+  targetMeasure?: MetaMetric | "";  // For gauge and bullet - measure the value is compared to
+  targetValue?: number;  // For gauge and bullet - constant target, used without a target measure
+  rangeMin?: number;  // For gauge and bullet - start of the scale (default 0)
+  rangeMax?: number;  // For gauge and bullet - end of the scale (default rounded up from value and target)
+  targetBands?: number[];  // For gauge and bullet - band edges as % of the target (see utils/targets.ts)
+  cardVariant?: CardVariant;  // For cards - one headline measure (default) or a row per cardMeasures entry
+  cardMeasures?: MetaMetric[];  // For multi-row cards - measures shown, in order
+  atRiskPercent?: number;  // For cards - % of the target from which a miss is at risk rather than off track (default 90)
+  lowerIsBetter?: boolean;  // For cards - the measure should stay under its target (costs); also flips change colours
+  heatmapLayout?: HeatmapLayout;  // For heatmap - weekday × week from the date (default) or groupBy × heatmapColumns
+  heatmapColumns?: GroupByDimension | "";  // For two-dimension heatmaps - dimension across the columns
+  binCount?: number;  // For histogram - number of equal-width bins (default 20)
+  binWidth?: number;  // For histogram - width of each bin, used instead of binCount when set
+}
+
+// ============================================================================
+// FIELD OPTIONS
+// ============================================================================
+
+/** Number input value, or undefined when cleared */
+const parseOptionalNumber = (text: string) => (text.trim() === "" || isNaN(Number(text)) ? undefined : Number(text));
+
+/** Band edges typed as a list, e.g. "80, 100"; blanks and non-numbers are dropped */
+const parseBandEdges = (text: string) =>
+  text.split(/[,\s]+/).filter(Boolean).map(Number).filter((n) => Number.isFinite(n)).sort((a, b) => a - b);
+
+/** Select option for a measure or dimension; unavailable fields are shown disabled */
+function renderFieldOption(name: string, available: boolean) {
+  return (
+    <SelectItem key={name} value={name} disabled={!available}>
+      {name}
+      {!available && (
+        <span className="ml-2 text-xs text-muted-foreground">({UNAVAILABLE_FIELD_HINT})</span>
+      )}
+    </SelectItem>
+  );
+}
+
+interface AggregationSelectProps {
+  label: string;
+  measure: string;
+  value?: AggregationType;
+  onChange: (value: AggregationType) => void;
+}
+
+/** Aggregation picker for one measure; derived metrics sum as a ratio of totals */
+function AggregationSelect({ label, measure, value, onChange }: AggregationSelectProps) {
+  const isDerived = !!getMetric(measure)?.formula;
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+        {label}
+      </Label>
+      <Select value={value || "sum"} onValueChange={(v) => onChange(v as AggregationType)}>
+        <SelectTrigger className="w-full">
+          <SelectValue placeholder="Select aggregation..." />
+        </SelectTrigger>
+        <SelectContent>
+          {aggregationTypes.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.value === "sum" && isDerived ? "Sum (ratio of totals)" : option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface TopNControlProps {
+  config: ChartConfig;
+  onChange: (config: ChartConfig) => void;
+}
+
+/** Top/Bottom N categories, optionally with the rest aggregated into "Others" */
+function TopNControl({ config, onChange }: TopNControlProps) {
+  const mode = config.topNMode || "top";
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+        Show
+      </Label>
+      <div className="flex gap-2">
+        <Select value={mode} onValueChange={(v) => onChange({ ...config, topNMode: v as TopNMode })}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="top">Top</SelectItem>
+            <SelectItem value="bottom">Bottom</SelectItem>
+            <SelectItem value="all">All categories</SelectItem>
+          </SelectContent>
+        </Select>
+        {mode !== "all" && (
+          <Input
+            type="number"
+            min={1}
+            className="w-20"
+            value={config.topNCount ?? 15}
+            onChange={(e) => onChange({ ...config, topNCount: Math.max(1, parseInt(e.target.value) || 1) })}
+          />
+        )}
+      </div>
+      {mode !== "all" && (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="show-others"
+            checked={!!config.showOthers}
+            onCheckedChange={(checked) => onChange({ ...config, showOthers: checked === true })}
+          />
+          <label htmlFor="show-others" className="text-sm cursor-pointer">
+            Group the rest into "Others"
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ComparisonControlProps {
+  config: ChartConfig;
+  onChange: (config: ChartConfig) => void;
+}
+
+/** Period to compare against; a custom range is picked as two dates */
+function ComparisonControl({ config, onChange }: ComparisonControlProps) {
+  const mode = config.comparison || "none";
+  const range = config.comparisonRange || { start: "", end: "" };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+        Compare To
+      </Label>
+      <Select value={mode} onValueChange={(v) => onChange({ ...config, comparison: v as ComparisonMode })}>
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {comparisonModes.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {mode === "custom" && (
+        <div className="flex gap-2">
+          <Input
+            type="date"
+            aria-label="Comparison start"
+            value={range.start}
+            onChange={(e) => onChange({ ...config, comparisonRange: { ...range, start: e.target.value } })}
+          />
+          <Input
+            type="date"
+            aria-label="Comparison end"
+            value={range.end}
+            onChange={(e) => onChange({ ...config, comparisonRange: { ...range, end: e.target.value } })}
+          />
+        </div>
+      )}
+      {(mode === "previousPeriod" || mode === "previousYear") && (
+        <p className="text-xs text-muted-foreground">
+          {mode === "previousPeriod"
+            ? "Shifts the active date filter back by its own length; needs a start and end date."
+            : "Shifts the active date filter back one year."}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface AnalyticsControlProps {
+  config: ChartConfig;
+  onChange: (config: ChartConfig) => void;
+}
+
+/** Trend line, moving average and forecast for a single-series time axis */
+function AnalyticsControl({ config, onChange }: AnalyticsControlProps) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+        Analytics
+      </Label>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="trend-line"
+          checked={!!config.trendLine}
+          onCheckedChange={(checked) => onChange({ ...config, trendLine: checked === true })}
+        />
+        <label htmlFor="trend-line" className="text-sm cursor-pointer">
+          Trend line
+        </label>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Select
+          value={String(config.movingAverage || 0)}
+          onValueChange={(v) => onChange({ ...config, movingAverage: Number(v) || undefined })}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="0">No moving average</SelectItem>
+            <SelectItem value="7">7-period average</SelectItem>
+            <SelectItem value="28">28-period average</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={String(config.forecastPeriods || 0)}
+          onValueChange={(v) => onChange({ ...config, forecastPeriods: Number(v) || undefined })}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="0">No forecast</SelectItem>
+            <SelectItem value="3">Forecast 3 periods</SelectItem>
+            <SelectItem value="6">Forecast 6 periods</SelectItem>
+            <SelectItem value="12">Forecast 12 periods</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
+
+interface TargetControlProps {
+  config: ChartConfig;
+  onChange: (config: ChartConfig) => void;
+}
+
+/** Target to measure progress against: a second measure, or a constant value */
+function TargetControl({ config, onChange }: TargetControlProps) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+        Target
+      </Label>
+      <Select
+        value={config.targetMeasure || "constant"}
+        onValueChange={(v) => onChange({ ...config, targetMeasure: v === "constant" ? "" : v as MetaMetric })}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="max-h-[300px]">
+          <SelectItem value="constant">Constant value</SelectItem>
+          {metaMetrics.map((metric) => renderFieldOption(metric, isMetricAvailable(metric)))}
+        </SelectContent>
+      </Select>
+      {!config.targetMeasure && (
+        <Input
+          type="number"
+          placeholder="No target"
+          value={config.targetValue ?? ""}
+          onChange={(e) => onChange({ ...config, targetValue: parseOptionalNumber(e.target.value) })}
+        />
+      )}
+    </div>
+  );
 }
 
 // ============================================================================
@@ -140,6 +470,14 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
   const isTableChart = visualType === "table";
   const isCardChart = visualType === "card";
   const isMatrixChart = visualType === "matrix";
+  const isScatterChart = visualType === "scatter";
+  const isFunnelChart = visualType === "funnel";
+  const isTargetChart = isTargetVisual(visualType);
+  const isHeatmapChart = visualType === "heatmap";
+  const isDistributionChart = isDistributionVisual(visualType);
+  // Line and area charts split by date plot a time axis with one series per group-by value
+  const isTimeSeries = (visualType === "line" || visualType === "area") && !!config.dateGranularity && config.dateGranularity !== "none";
+  const supportsLegend = !isTimeSeries && (visualType === "bar" || visualType === "line" || visualType === "area");
   const isStandardChart = ["bar", "line", "area", "combo", "waterfall", "treemap", "funnel", "scatter"].includes(visualType || "");
 
   const handleMeasureChange = (value: string) => {
@@ -151,11 +489,19 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
   };
 
   const handleGroupByChange = (value: string) => {
-    onChange({ ...config, groupBy: value as GroupByDimension });
+    onChange({ ...config, groupBy: value === "none" ? "" : value as GroupByDimension, drillPath: undefined });
   };
 
   const handleDateChange = (value: string) => {
-    onChange({ ...config, dateGranularity: value as DateGranularity });
+    onChange({ ...config, dateGranularity: value as DateGranularity, drillPath: undefined });
+  };
+
+  const handleAggregationChange = (value: AggregationType) => {
+    onChange({ ...config, aggregation: value });
+  };
+
+  const handleAggregation2Change = (value: AggregationType) => {
+    onChange({ ...config, aggregation2: value });
   };
 
   const handleCalculationChange = (value: string) => {
@@ -190,6 +536,48 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
     onChange({ ...config, matrixColumns: updated });
   };
 
+  const handleCardMeasureToggle = (metric: MetaMetric) => {
+    const current = config.cardMeasures || [];
+    const updated = current.includes(metric)
+      ? current.filter(m => m !== metric)
+      : [...current, metric];
+    onChange({ ...config, cardMeasures: updated });
+  };
+
+  const handleSizeMeasureChange = (value: string) => {
+    onChange({ ...config, sizeMeasure: value === "none" ? "" : value as MetaMetric });
+  };
+
+  const handleTreemapDetailChange = (value: string) => {
+    onChange({ ...config, treemapDetail: value === "none" ? "" : value as GroupByDimension });
+  };
+
+  const handleLegendChange = (value: string) => {
+    onChange({ ...config, legend: value === "none" ? "" : value as GroupByDimension });
+  };
+
+  const handleFunnelStagesChange = (value: string) => {
+    onChange({ ...config, funnelStages: value as ChartConfig["funnelStages"] });
+  };
+
+  const handleFunnelMeasureToggle = (metric: MetaMetric) => {
+    const current = config.funnelMeasures || [];
+    const updated = current.includes(metric)
+      ? current.filter(m => m !== metric)
+      : [...current, metric];
+    onChange({ ...config, funnelMeasures: updated });
+  };
+
+  // Matrix values; older matrices only have the single measure
+  const matrixMeasures = config.matrixMeasures || (config.measure ? [config.measure] : []);
+
+  const handleMatrixMeasureToggle = (metric: MetaMetric) => {
+    const updated = matrixMeasures.includes(metric)
+      ? matrixMeasures.filter(m => m !== metric)
+      : [...matrixMeasures, metric];
+    onChange({ ...config, matrixMeasures: updated, measure: updated[0] || "" });
+  };
+
   // All available columns for table = measures + dimensions
   const allColumns = [...metaMetrics, ...groupByDimensions];
 
@@ -206,22 +594,40 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
 
         <div className="space-y-2">
           <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
-            Values (Measure)
+            Values ({matrixMeasures.length} selected)
           </Label>
-          <Select value={config.measure} onValueChange={handleMeasureChange}>
-            <SelectTrigger className="w-full">
-              <SelectValue placeholder="Select a measure..." />
-            </SelectTrigger>
-            <SelectContent className="max-h-[300px]">
+          <ScrollArea className="h-[150px] border rounded-md p-2">
+            <div className="space-y-1">
               {metaMetrics.map((metric) => (
-                <SelectItem key={metric} value={metric}>
-                  {metric}
-                </SelectItem>
+                <div key={metric} className="flex items-center space-x-2 py-1">
+                  <Checkbox
+                    id={`value-${metric}`}
+                    checked={matrixMeasures.includes(metric)}
+                    onCheckedChange={() => handleMatrixMeasureToggle(metric)}
+                    disabled={!isMetricAvailable(metric)}
+                  />
+                  <label
+                    htmlFor={`value-${metric}`}
+                    className={cn("text-sm cursor-pointer", !isMetricAvailable(metric) && "text-muted-foreground opacity-60 cursor-not-allowed")}
+                    title={isMetricAvailable(metric) ? undefined : UNAVAILABLE_FIELD_HINT}
+                  >
+                    {metric}
+                  </label>
+                </div>
               ))}
-            </SelectContent>
-          </Select>
+            </div>
+          </ScrollArea>
         </div>
 
+        {config.measure && (
+          <AggregationSelect
+            label="Aggregation"
+            measure={config.measure}
+            value={config.aggregation}
+            onChange={handleAggregationChange}
+          />
+        )}
+
         <div className="space-y-2">
           <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
             Row Fields
@@ -234,8 +640,13 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
                     id={`row-${dim}`}
                     checked={(config.matrixRows || []).includes(dim)}
                     onCheckedChange={() => handleMatrixRowToggle(dim)}
+                    disabled={!isDimensionAvailable(dim)}
                   />
-                  <label htmlFor={`row-${dim}`} className="text-sm cursor-pointer">
+                  <label
+                    htmlFor={`row-${dim}`}
+                    className={cn("text-sm cursor-pointer", !isDimensionAvailable(dim) && "text-muted-foreground opacity-60 cursor-not-allowed")}
+                    title={isDimensionAvailable(dim) ? undefined : UNAVAILABLE_FIELD_HINT}
+                  >
                     {dim}
                   </label>
                 </div>
@@ -256,8 +667,13 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
                     id={`col-${dim}`}
                     checked={(config.matrixColumns || []).includes(dim)}
                     onCheckedChange={() => handleMatrixColumnToggle(dim)}
+                    disabled={!isDimensionAvailable(dim)}
                   />
-                  <label htmlFor={`col-${dim}`} className="text-sm cursor-pointer">
+                  <label
+                    htmlFor={`col-${dim}`}
+                    className={cn("text-sm cursor-pointer", !isDimensionAvailable(dim) && "text-muted-foreground opacity-60 cursor-not-allowed")}
+                    title={isDimensionAvailable(dim) ? undefined : UNAVAILABLE_FIELD_HINT}
+                  >
                     {dim}
                   </label>
                 </div>
@@ -269,7 +685,7 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
         {config.measure && ((config.matrixRows?.length || 0) > 0 || (config.matrixColumns?.length || 0) > 0) && (
           <div className="pt-3 border-t">
             <p className="text-sm text-muted-foreground">
-              Showing <span className="font-medium text-foreground">{config.measure}</span>
+              Showing <span className="font-medium text-foreground">{matrixMeasures.join(", ")}</span>
               {(config.matrixRows?.length || 0) > 0 && (
                 <> by <span className="font-medium text-foreground">{config.matrixRows?.length} row(s)</span></>
               )}
@@ -285,6 +701,10 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
 
   // ========== CARD / KPI CONFIG ==========
   if (isCardChart) {
+    const isMultiRow = config.cardVariant === "multiRow";
+    const cardMeasures = config.cardMeasures || [];
+    const hasTarget = !!config.targetMeasure || config.targetValue !== undefined;
+
     return (
       <div className="space-y-4 overflow-hidden">
         <div className="flex items-center gap-2 pb-3 border-b">
@@ -296,22 +716,71 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
 
         <div className="space-y-2">
           <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
-            Measure
+            Card Type
           </Label>
-          <Select value={config.measure} onValueChange={handleMeasureChange}>
+          <Select
+            value={config.cardVariant || "single"}
+            onValueChange={(v) => onChange({ ...config, cardVariant: v as CardVariant })}
+          >
             <SelectTrigger className="w-full">
-              <SelectValue placeholder="Select a measure..." />
+              <SelectValue />
             </SelectTrigger>
-            <SelectContent className="max-h-[300px]">
-              {metaMetrics.map((metric) => (
-                <SelectItem key={metric} value={metric}>
-                  {metric}
+            <SelectContent>
+              {cardVariants.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
         </div>
 
+        {isMultiRow ? (
+          <div className="space-y-2">
+            <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              Measures ({cardMeasures.length} selected)
+            </Label>
+            <ScrollArea className="h-[200px] border rounded-md p-2">
+              <div className="space-y-1">
+                {metaMetrics.map((metric) => (
+                  <div key={metric} className="flex items-center space-x-2 py-1">
+                    <Checkbox
+                      id={`card-${metric}`}
+                      checked={cardMeasures.includes(metric)}
+                      onCheckedChange={() => handleCardMeasureToggle(metric)}
+                      disabled={!isMetricAvailable(metric)}
+                    />
+                    <label
+                      htmlFor={`card-${metric}`}
+                      className={cn("text-sm cursor-pointer flex-1", !isMetricAvailable(metric) && "text-muted-foreground opacity-60 cursor-not-allowed")}
+                      title={isMetricAvailable(metric) ? undefined : UNAVAILABLE_FIELD_HINT}
+                    >
+                      {metric}
+                    </label>
+                    {cardMeasures.includes(metric) && (
+                      <span className="text-xs text-muted-foreground">{cardMeasures.indexOf(metric) + 1}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              Measure
+            </Label>
+            <Select value={config.measure} onValueChange={handleMeasureChange}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select a measure..." />
+              </SelectTrigger>
+              <SelectContent className="max-h-[300px]">
+                {metaMetrics.map((metric) => renderFieldOption(metric, isMetricAvailable(metric)))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         <div className="space-y-2">
           <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
             Calculation
@@ -330,7 +799,67 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
           </Select>
         </div>
 
-        {config.measure && (
+        {!isMultiRow && (
+          <>
+            <div className="space-y-2">
+              <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                Sparkline
+              </Label>
+              <Select value={config.dateGranularity || "none"} onValueChange={handleDateChange}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {dateGranularities.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.value === "none" ? "No sparkline" : `By ${option.label.toLowerCase()}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <TargetControl config={config} onChange={onChange} />
+
+            {hasTarget && (
+              <div className="space-y-2">
+                <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                  At Risk From (% of Target)
+                </Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  placeholder="90"
+                  value={config.atRiskPercent ?? ""}
+                  onChange={(e) => onChange({ ...config, atRiskPercent: parseOptionalNumber(e.target.value) })}
+                />
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="lower-is-better"
+            checked={!!config.lowerIsBetter}
+            onCheckedChange={(checked) => onChange({ ...config, lowerIsBetter: checked === true })}
+          />
+          <label htmlFor="lower-is-better" className="text-sm cursor-pointer">
+            Lower is better (e.g. costs)
+          </label>
+        </div>
+
+        <ComparisonControl config={config} onChange={onChange} />
+
+        {isMultiRow && cardMeasures.length > 0 && (
+          <div className="pt-3 border-t">
+            <p className="text-sm text-muted-foreground">
+              Showing <span className="font-medium text-foreground">{cardMeasures.join(", ")}</span>
+            </p>
+          </div>
+        )}
+        {!isMultiRow && config.measure && (
           <div className="pt-3 border-t">
             <p className="text-sm text-muted-foreground">
               Showing <span className="font-medium text-foreground">{config.calculation || "Sum"}</span> of{" "}
@@ -342,6 +871,314 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
     );
   }
 
+  // ========== GAUGE / BULLET CONFIG ==========
+  if (isTargetChart) {
+    const targetLabel = config.targetMeasure || (config.targetValue !== undefined ? config.targetValue.toLocaleString() : "");
+
+    return (
+      <div className="space-y-4 overflow-hidden">
+        <div className="flex items-center gap-2 pb-3 border-b">
+          <BarChart3 className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
+            {visualType === "gauge" ? "Gauge" : "Bullet Chart"} Configuration
+          </h3>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Measure
+          </Label>
+          <Select value={config.measure} onValueChange={handleMeasureChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select a measure..." />
+            </SelectTrigger>
+            <SelectContent className="max-h-[300px]">
+              {metaMetrics.map((metric) => renderFieldOption(metric, isMetricAvailable(metric)))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {config.measure && (
+          <AggregationSelect
+            label="Aggregation"
+            measure={config.measure}
+            value={config.aggregation}
+            onChange={handleAggregationChange}
+          />
+        )}
+
+        <TargetControl config={config} onChange={onChange} />
+
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Scale
+          </Label>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              type="number"
+              aria-label="Minimum"
+              placeholder="Min (0)"
+              value={config.rangeMin ?? ""}
+              onChange={(e) => onChange({ ...config, rangeMin: parseOptionalNumber(e.target.value) })}
+            />
+            <Input
+              type="number"
+              aria-label="Maximum"
+              placeholder="Max (auto)"
+              value={config.rangeMax ?? ""}
+              onChange={(e) => onChange({ ...config, rangeMax: parseOptionalNumber(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Bands (% of Target)
+          </Label>
+          <Input
+            key={(config.targetBands || []).join(",")}
+            placeholder="e.g. 80, 100"
+            defaultValue={(config.targetBands || []).join(", ")}
+            onBlur={(e) => onChange({ ...config, targetBands: parseBandEdges(e.target.value) })}
+          />
+          <p className="text-xs text-muted-foreground">
+            Shades the scale from one edge to the next; without a target, edges are % of the max.
+          </p>
+        </div>
+
+        {visualType === "bullet" && (
+          <div className="space-y-2">
+            <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              One Bullet Per (Optional)
+            </Label>
+            <Select value={config.groupBy || "none"} onValueChange={handleGroupByChange}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select dimension..." />
+              </SelectTrigger>
+              <SelectContent className="max-h-[300px]">
+                <SelectItem value="none">None</SelectItem>
+                {groupByDimensions.map((dimension) => renderFieldOption(dimension, isDimensionAvailable(dimension)))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {config.measure && (
+          <div className="pt-3 border-t">
+            <p className="text-sm text-muted-foreground">
+              Showing <span className="font-medium text-foreground">{config.measure}</span>
+              {targetLabel && <> against <span className="font-medium text-foreground">{targetLabel}</span></>}
+              {visualType === "bullet" && config.groupBy && (
+                <> by <span className="font-medium text-foreground">{config.groupBy}</span></>
+              )}
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // ========== HEATMAP CONFIG ==========
+  if (isHeatmapChart) {
+    const isCalendar = isCalendarHeatmap(config);
+
+    return (
+      <div className="space-y-4 overflow-hidden">
+        <div className="flex items-center gap-2 pb-3 border-b">
+          <BarChart3 className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
+            Heatmap Configuration
+          </h3>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Layout
+          </Label>
+          <Select
+            value={config.heatmapLayout || "calendar"}
+            onValueChange={(value) => onChange({ ...config, heatmapLayout: value as HeatmapLayout })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {heatmapLayouts.map((layout) => (
+                <SelectItem key={layout.value} value={layout.value}>
+                  {layout.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Measure
+          </Label>
+          <Select value={config.measure} onValueChange={handleMeasureChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select a measure..." />
+            </SelectTrigger>
+            <SelectContent className="max-h-[300px]">
+              {metaMetrics.map((metric) => renderFieldOption(metric, isMetricAvailable(metric)))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {config.measure && (
+          <AggregationSelect
+            label="Aggregation"
+            measure={config.measure}
+            value={config.aggregation}
+            onChange={handleAggregationChange}
+          />
+        )}
+
+        {!isCalendar && (
+          <>
+            <div className="space-y-2">
+              <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                Rows
+              </Label>
+              <Select value={config.groupBy || "none"} onValueChange={handleGroupByChange}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select dimension..." />
+                </SelectTrigger>
+                <SelectContent className="max-h-[300px]">
+                  {groupByDimensions.map((dimension) => renderFieldOption(dimension, isDimensionAvailable(dimension)))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                Columns
+              </Label>
+              <Select
+                value={config.heatmapColumns || "none"}
+                onValueChange={(value) => onChange({ ...config, heatmapColumns: value as GroupByDimension })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select dimension..." />
+                </SelectTrigger>
+                <SelectContent className="max-h-[300px]">
+                  {groupByDimensions
+                    .filter((dimension) => dimension !== config.groupBy)
+                    .map((dimension) => renderFieldOption(dimension, isDimensionAvailable(dimension)))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+
+        {config.measure && (
+          <div className="pt-3 border-t">
+            <p className="text-sm text-muted-foreground">
+              Showing <span className="font-medium text-foreground">{config.measure}</span>
+              {isCalendar ? (
+                <> by <span className="font-medium text-foreground">day of week × week</span></>
+              ) : (
+                config.groupBy && config.heatmapColumns && (
+                  <>
+                    {" "}by <span className="font-medium text-foreground">{config.groupBy}</span> ×{" "}
+                    <span className="font-medium text-foreground">{config.heatmapColumns}</span>
+                  </>
+                )
+              )}
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // ========== HISTOGRAM / BOX PLOT CONFIG ==========
+  if (isDistributionChart) {
+    return (
+      <div className="space-y-4 overflow-hidden">
+        <div className="flex items-center gap-2 pb-3 border-b">
+          <BarChart3 className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
+            {visualType === "histogram" ? "Histogram" : "Box Plot"} Configuration
+          </h3>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Measure
+          </Label>
+          <Select value={config.measure} onValueChange={handleMeasureChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select a measure..." />
+            </SelectTrigger>
+            <SelectContent className="max-h-[300px]">
+              {metaMetrics.map((metric) => renderFieldOption(metric, isMetricAvailable(metric)))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Plotted per row; ratios skip rows where they are undefined, e.g. CPC without clicks.
+          </p>
+        </div>
+
+        {visualType === "histogram" ? (
+          <div className="space-y-2">
+            <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              Bins
+            </Label>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                type="number"
+                min={1}
+                aria-label="Bin count"
+                placeholder="Count (20)"
+                value={config.binCount ?? ""}
+                onChange={(e) => onChange({ ...config, binCount: parseOptionalNumber(e.target.value) })}
+              />
+              <Input
+                type="number"
+                min={0}
+                aria-label="Bin width"
+                placeholder="Width (auto)"
+                value={config.binWidth ?? ""}
+                onChange={(e) => onChange({ ...config, binWidth: parseOptionalNumber(e.target.value) })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              A bin width is used instead of the count when set.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              One Box Per (Optional)
+            </Label>
+            <Select value={config.groupBy || "none"} onValueChange={handleGroupByChange}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select dimension..." />
+              </SelectTrigger>
+              <SelectContent className="max-h-[300px]">
+                <SelectItem value="none">None</SelectItem>
+                {groupByDimensions.map((dimension) => renderFieldOption(dimension, isDimensionAvailable(dimension)))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {config.measure && (
+          <div className="pt-3 border-t">
+            <p className="text-sm text-muted-foreground">
+              Showing the spread of <span className="font-medium text-foreground">{config.measure}</span>
+              {visualType === "boxplot" && config.groupBy && (
+                <> by <span className="font-medium text-foreground">{config.groupBy}</span></>
+              )}
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
   // ========== TABLE CONFIG ==========
   if (isTableChart) {
     return (
@@ -366,8 +1203,13 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
                     id={`col-${metric}`}
                     checked={(config.selectedColumns || []).includes(metric)}
                     onCheckedChange={() => handleColumnToggle(metric)}
+                    disabled={!isMetricAvailable(metric)}
                   />
-                  <label htmlFor={`col-${metric}`} className="text-sm cursor-pointer">
+                  <label
+                    htmlFor={`col-${metric}`}
+                    className={cn("text-sm cursor-pointer", !isMetricAvailable(metric) && "text-muted-foreground opacity-60 cursor-not-allowed")}
+                    title={isMetricAvailable(metric) ? undefined : UNAVAILABLE_FIELD_HINT}
+                  >
                     {metric}
                   </label>
                 </div>
@@ -379,8 +1221,13 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
                     id={`col-${dim}`}
                     checked={(config.selectedColumns || []).includes(dim)}
                     onCheckedChange={() => handleColumnToggle(dim)}
+                    disabled={!isDimensionAvailable(dim)}
                   />
-                  <label htmlFor={`col-${dim}`} className="text-sm cursor-pointer">
+                  <label
+                    htmlFor={`col-${dim}`}
+                    className={cn("text-sm cursor-pointer", !isDimensionAvailable(dim) && "text-muted-foreground opacity-60 cursor-not-allowed")}
+                    title={isDimensionAvailable(dim) ? undefined : UNAVAILABLE_FIELD_HINT}
+                  >
                     {dim}
                   </label>
                 </div>
@@ -389,6 +1236,26 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
           </ScrollArea>
         </div>
 
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="table-aggregate"
+            checked={!!config.tableAggregate}
+            onCheckedChange={(checked) => onChange({ ...config, tableAggregate: checked === true })}
+          />
+          <label htmlFor="table-aggregate" className="text-sm cursor-pointer">
+            Aggregate by the selected dimensions
+          </label>
+        </div>
+
+        {config.tableAggregate && (
+          <AggregationSelect
+            label="Measure Aggregation"
+            measure={(config.selectedColumns || []).find((col) => getMetric(col)) || ""}
+            value={config.aggregation}
+            onChange={(value) => onChange({ ...config, aggregation: value })}
+          />
+        )}
+
         {(config.selectedColumns?.length || 0) > 0 && (
           <div className="pt-3 border-t">
             <p className="text-sm text-muted-foreground">
@@ -420,15 +1287,20 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
               <SelectValue placeholder="Select first measure..." />
             </SelectTrigger>
             <SelectContent className="max-h-[300px]">
-              {metaMetrics.map((metric) => (
-                <SelectItem key={metric} value={metric}>
-                  {metric}
-                </SelectItem>
-              ))}
+              {metaMetrics.map((metric) => renderFieldOption(metric, isMetricAvailable(metric)))}
             </SelectContent>
           </Select>
         </div>
 
+        {config.measure && (
+          <AggregationSelect
+            label="Aggregation 1"
+            measure={config.measure}
+            value={config.aggregation}
+            onChange={handleAggregationChange}
+          />
+        )}
+
         <div className="space-y-2">
           <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
             Measure 2
@@ -438,15 +1310,20 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
               <SelectValue placeholder="Select second measure..." />
             </SelectTrigger>
             <SelectContent className="max-h-[300px]">
-              {metaMetrics.map((metric) => (
-                <SelectItem key={metric} value={metric}>
-                  {metric}
-                </SelectItem>
-              ))}
+              {metaMetrics.map((metric) => renderFieldOption(metric, isMetricAvailable(metric)))}
             </SelectContent>
           </Select>
         </div>
 
+        {config.measure2 && (
+          <AggregationSelect
+            label="Aggregation 2"
+            measure={config.measure2}
+            value={config.aggregation2}
+            onChange={handleAggregation2Change}
+          />
+        )}
+
         <div className="space-y-2">
           <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
             Group By
@@ -456,11 +1333,7 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
               <SelectValue placeholder="Select dimension..." />
             </SelectTrigger>
             <SelectContent className="max-h-[300px]">
-              {groupByDimensions.map((dimension) => (
-                <SelectItem key={dimension} value={dimension}>
-                  {dimension}
-                </SelectItem>
-              ))}
+              {groupByDimensions.map((dimension) => renderFieldOption(dimension, isDimensionAvailable(dimension)))}
             </SelectContent>
           </Select>
         </div>
@@ -501,6 +1374,8 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
           </Select>
         </div>
 
+        <TopNControl config={config} onChange={onChange} />
+
         {config.measure && config.measure2 && config.groupBy && (
           <div className="pt-3 border-t">
             <p className="text-sm text-muted-foreground">
@@ -534,15 +1409,20 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
               <SelectValue placeholder="Select a measure..." />
             </SelectTrigger>
             <SelectContent className="max-h-[300px]">
-              {metaMetrics.map((metric) => (
-                <SelectItem key={metric} value={metric}>
-                  {metric}
-                </SelectItem>
-              ))}
+              {metaMetrics.map((metric) => renderFieldOption(metric, isMetricAvailable(metric)))}
             </SelectContent>
           </Select>
         </div>
 
+        {config.measure && (
+          <AggregationSelect
+            label="Aggregation"
+            measure={config.measure}
+            value={config.aggregation}
+            onChange={handleAggregationChange}
+          />
+        )}
+
         <div className="space-y-2">
           <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
             Legend
@@ -552,15 +1432,13 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
               <SelectValue placeholder="Select legend..." />
             </SelectTrigger>
             <SelectContent className="max-h-[300px]">
-              {groupByDimensions.map((dimension) => (
-                <SelectItem key={dimension} value={dimension}>
-                  {dimension}
-                </SelectItem>
-              ))}
+              {groupByDimensions.map((dimension) => renderFieldOption(dimension, isDimensionAvailable(dimension)))}
             </SelectContent>
           </Select>
         </div>
 
+        <TopNControl config={config} onChange={onChange} />
+
         {config.measure && config.groupBy && (
           <div className="pt-3 border-t">
             <p className="text-sm text-muted-foreground">
@@ -573,6 +1451,230 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
     );
   }
 
+  // ========== SCATTER CHART CONFIG ==========
+  if (isScatterChart) {
+    return (
+      <div className="space-y-4 overflow-hidden">
+        <div className="flex items-center gap-2 pb-3 border-b">
+          <BarChart3 className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
+            Scatter Configuration
+          </h3>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            X Axis
+          </Label>
+          <Select value={config.measure} onValueChange={handleMeasureChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select x-axis measure..." />
+            </SelectTrigger>
+            <SelectContent className="max-h-[300px]">
+              {metaMetrics.map((metric) => renderFieldOption(metric, isMetricAvailable(metric)))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {config.measure && (
+          <AggregationSelect
+            label="X Aggregation"
+            measure={config.measure}
+            value={config.aggregation}
+            onChange={handleAggregationChange}
+          />
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Y Axis
+          </Label>
+          <Select value={config.measure2 || ""} onValueChange={handleMeasure2Change}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select y-axis measure..." />
+            </SelectTrigger>
+            <SelectContent className="max-h-[300px]">
+              {metaMetrics.map((metric) => renderFieldOption(metric, isMetricAvailable(metric)))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {config.measure2 && (
+          <AggregationSelect
+            label="Y Aggregation"
+            measure={config.measure2}
+            value={config.aggregation2}
+            onChange={handleAggregation2Change}
+          />
+        )}
+
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Size (Optional)
+          </Label>
+          <Select value={config.sizeMeasure || "none"} onValueChange={handleSizeMeasureChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select size measure..." />
+            </SelectTrigger>
+            <SelectContent className="max-h-[300px]">
+              <SelectItem value="none">None</SelectItem>
+              {metaMetrics.map((metric) => renderFieldOption(metric, isMetricAvailable(metric)))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Category (One Point Each)
+          </Label>
+          <Select value={config.groupBy} onValueChange={handleGroupByChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select dimension..." />
+            </SelectTrigger>
+            <SelectContent className="max-h-[300px]">
+              {groupByDimensions.map((dimension) => renderFieldOption(dimension, isDimensionAvailable(dimension)))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <TopNControl config={config} onChange={onChange} />
+
+        {config.measure && config.measure2 && config.groupBy && (
+          <div className="pt-3 border-t">
+            <p className="text-sm text-muted-foreground">
+              Plotting <span className="font-medium text-foreground">{config.measure2}</span> against{" "}
+              <span className="font-medium text-foreground">{config.measure}</span> for each{" "}
+              <span className="font-medium text-foreground">{config.groupBy}</span>
+              {config.sizeMeasure && (
+                <>, sized by <span className="font-medium text-foreground">{config.sizeMeasure}</span></>
+              )}
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // ========== FUNNEL CHART CONFIG ==========
+  if (isFunnelChart) {
+    const funnelMeasures = config.funnelMeasures || [];
+
+    return (
+      <div className="space-y-4 overflow-hidden">
+        <div className="flex items-center gap-2 pb-3 border-b">
+          <BarChart3 className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">
+            Funnel Configuration
+          </h3>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Stages From
+          </Label>
+          <Select value={config.funnelStages || "dimension"} onValueChange={handleFunnelStagesChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="dimension">Dimension values (largest first)</SelectItem>
+              <SelectItem value="measures">Measures (in the order picked)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {config.funnelStages === "measures" ? (
+          <div className="space-y-2">
+            <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              Stages ({funnelMeasures.length} selected)
+            </Label>
+            <ScrollArea className="h-[200px] border rounded-md p-2">
+              <div className="space-y-1">
+                {metaMetrics.map((metric) => (
+                  <div key={metric} className="flex items-center space-x-2 py-1">
+                    <Checkbox
+                      id={`stage-${metric}`}
+                      checked={funnelMeasures.includes(metric)}
+                      onCheckedChange={() => handleFunnelMeasureToggle(metric)}
+                      disabled={!isMetricAvailable(metric)}
+                    />
+                    <label
+                      htmlFor={`stage-${metric}`}
+                      className={cn("text-sm cursor-pointer flex-1", !isMetricAvailable(metric) && "text-muted-foreground opacity-60 cursor-not-allowed")}
+                      title={isMetricAvailable(metric) ? undefined : UNAVAILABLE_FIELD_HINT}
+                    >
+                      {metric}
+                    </label>
+                    {funnelMeasures.includes(metric) && (
+                      <span className="text-xs text-muted-foreground">{funnelMeasures.indexOf(metric) + 1}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                Measure
+              </Label>
+              <Select value={config.measure} onValueChange={handleMeasureChange}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select a measure..." />
+                </SelectTrigger>
+                <SelectContent className="max-h-[300px]">
+                  {metaMetrics.map((metric) => renderFieldOption(metric, isMetricAvailable(metric)))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {config.measure && (
+              <AggregationSelect
+                label="Aggregation"
+                measure={config.measure}
+                value={config.aggregation}
+                onChange={handleAggregationChange}
+              />
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                Stages
+              </Label>
+              <Select value={config.groupBy} onValueChange={handleGroupByChange}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select dimension..." />
+                </SelectTrigger>
+                <SelectContent className="max-h-[300px]">
+                  {groupByDimensions.map((dimension) => renderFieldOption(dimension, isDimensionAvailable(dimension)))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <TopNControl config={config} onChange={onChange} />
+          </>
+        )}
+
+        {config.funnelStages === "measures" && funnelMeasures.length > 0 && (
+          <div className="pt-3 border-t">
+            <p className="text-sm text-muted-foreground">
+              Showing <span className="font-medium text-foreground">{funnelMeasures.join(" → ")}</span>
+            </p>
+          </div>
+        )}
+        {config.funnelStages !== "measures" && config.measure && config.groupBy && (
+          <div className="pt-3 border-t">
+            <p className="text-sm text-muted-foreground">
+              Showing <span className="font-medium text-foreground">{config.measure}</span> by{" "}
+              <span className="font-medium text-foreground">{config.groupBy}</span>
+            </p>
+          </div>
+        )}
+      </div>
+    );
+  }
+
   // ========== STANDARD CHART CONFIG (Bar, Line, Area, Combo, etc.) ==========
   return (
     <div className="space-y-4 overflow-hidden">
@@ -592,33 +1694,86 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
             <SelectValue placeholder="Select a measure..." />
           </SelectTrigger>
           <SelectContent className="max-h-[300px]">
-            {metaMetrics.map((metric) => (
-              <SelectItem key={metric} value={metric}>
-                {metric}
-              </SelectItem>
-            ))}
+            {metaMetrics.map((metric) => renderFieldOption(metric, isMetricAvailable(metric)))}
           </SelectContent>
         </Select>
       </div>
 
+      {config.measure && (
+        <AggregationSelect
+          label="Aggregation"
+          measure={config.measure}
+          value={config.aggregation}
+          onChange={handleAggregationChange}
+        />
+      )}
+
       <div className="space-y-2">
         <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
-          Group By
+          {isTimeSeries ? "Series (Optional)" : "Group By"}
         </Label>
-        <Select value={config.groupBy} onValueChange={handleGroupByChange}>
+        <Select value={config.groupBy || (isTimeSeries ? "none" : "")} onValueChange={handleGroupByChange}>
           <SelectTrigger className="w-full">
             <SelectValue placeholder="Select dimension..." />
           </SelectTrigger>
           <SelectContent className="max-h-[300px]">
-            {groupByDimensions.map((dimension) => (
-              <SelectItem key={dimension} value={dimension}>
-                {dimension}
-              </SelectItem>
-            ))}
+            {isTimeSeries && <SelectItem value="none">None (single line)</SelectItem>}
+            {groupByDimensions.map((dimension) => renderFieldOption(dimension, isDimensionAvailable(dimension)))}
           </SelectContent>
         </Select>
       </div>
 
+      {visualType === "treemap" && (
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Details (Optional)
+          </Label>
+          <Select value={config.treemapDetail || "none"} onValueChange={handleTreemapDetailChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select dimension..." />
+            </SelectTrigger>
+            <SelectContent className="max-h-[300px]">
+              <SelectItem value="none">None</SelectItem>
+              {groupByDimensions
+                .filter((dimension) => dimension !== config.groupBy)
+                .map((dimension) => renderFieldOption(dimension, isDimensionAvailable(dimension)))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {supportsLegend && (
+        <div className="space-y-2">
+          <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Legend (Split By)
+          </Label>
+          <Select value={config.legend || "none"} onValueChange={handleLegendChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Select dimension..." />
+            </SelectTrigger>
+            <SelectContent className="max-h-[300px]">
+              <SelectItem value="none">None</SelectItem>
+              {groupByDimensions
+                .filter((dimension) => dimension !== config.groupBy)
+                .map((dimension) => renderFieldOption(dimension, isDimensionAvailable(dimension)))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {visualType === "waterfall" && (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="waterfall-total"
+            checked={config.showWaterfallTotal !== false}
+            onCheckedChange={(checked) => onChange({ ...config, showWaterfallTotal: checked === true })}
+          />
+          <label htmlFor="waterfall-total" className="text-sm cursor-pointer">
+            Show total bar
+          </label>
+        </div>
+      )}
+
       <div className="space-y-2">
         <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
           Date
@@ -655,7 +1810,24 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
         </Select>
       </div>
 
-      {config.measure && config.groupBy && (
+      {!isTimeSeries && <TopNControl config={config} onChange={onChange} />}
+
+      {supportsComparison(visualType, config) && <ComparisonControl config={config} onChange={onChange} />}
+
+      {isTimeSeries && !config.groupBy && <AnalyticsControl config={config} onChange={onChange} />}
+
+      {isTimeSeries && config.measure && (
+        <div className="pt-3 border-t">
+          <p className="text-sm text-muted-foreground">
+            Showing <span className="font-medium text-foreground">{config.measure}</span> per{" "}
+            <span className="font-medium text-foreground">{config.dateGranularity}</span>
+            {config.groupBy && (
+              <>, one series per <span className="font-medium text-foreground">{config.groupBy}</span></>
+            )}
+          </p>
+        </div>
+      )}
+      {!isTimeSeries && config.measure && config.groupBy && (
         <div className="pt-3 border-t">
           <p className="text-sm text-muted-foreground">
             Showing <span className="font-medium text-foreground">{config.measure}</span> by{" "}
@@ -663,6 +1835,9 @@ export function ChartConfigDropdowns({ config, onChange, visualType }: ChartConf
             {config.dateGranularity !== "none" && (
               <> split by <span className="font-medium text-foreground">{config.dateGranularity}</span></>
             )}
+            {supportsLegend && config.legend && (
+              <>, one series per <span className="font-medium text-foreground">{config.legend}</span></>
+            )}
           </p>
         </div>
       )}
@@ -23,7 +23,20 @@ export function CodeExport({ type, data, properties }: CodeExportProps) {
 
   const generateCode = () => {
     const dataStr = JSON.stringify(
-      data.map((d) => ({ name: d.category, value: d.value })),
+      // Forecast periods export their projection, and card sparkline periods, box plot
+      // outliers and table totals their value, each flagged (see timeSeriesAnalytics.ts,
+      // queryEngine.ts and distribution.ts)
+      data.map((d) =>
+        d.isForecast
+          ? { name: d.category, value: d.forecast, forecast: true }
+          : d.isSparkline
+            ? { name: d.category, value: d.value, sparkline: true }
+            : d.isOutlier
+              ? { name: d.category, value: d.value, outlier: true }
+              : d.isTotal
+                ? { name: d.category, value: d.value, total: true }
+                : { name: d.category, value: d.value }
+      ),
       null,
       2
     );
@@ -9,6 +9,7 @@ import {
   Filter, 
   ListFilter, 
   Calendar, 
+  CalendarClock,
   SlidersHorizontal,
   GitBranch,
   Triangle,
@@ -16,7 +17,12 @@ import {
   Layers,
   LayoutGrid,
   Type,
-  Image
+  Image,
+  Gauge,
+  Target,
+  CalendarDays,
+  BarChartBig,
+  CandlestickChart
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "./ui/scroll-area";
@@ -47,21 +53,27 @@ const componentOptions: ComponentOption[] = [
   { type: "pie", icon: PieChart, label: "Pie Chart", category: "charts" },
   { type: "area", icon: TrendingUp, label: "Area Chart", category: "charts" },
   { type: "combo" as VisualizationType, icon: TrendingUp, label: "Combo", category: "charts" },
-  { type: "waterfall" as VisualizationType, icon: GitBranch, label: "Waterfall", category: "charts", disabled: true },
-  { type: "treemap" as VisualizationType, icon: Layers, label: "Treemap", category: "charts", disabled: true },
-  { type: "funnel" as VisualizationType, icon: Triangle, label: "Funnel", category: "charts", disabled: true },
-  { type: "scatter" as VisualizationType, icon: CircleDot, label: "Scatter", category: "charts", disabled: true },
+  { type: "waterfall" as VisualizationType, icon: GitBranch, label: "Waterfall", category: "charts" },
+  { type: "treemap" as VisualizationType, icon: Layers, label: "Treemap", category: "charts" },
+  { type: "funnel" as VisualizationType, icon: Triangle, label: "Funnel", category: "charts" },
+  { type: "scatter" as VisualizationType, icon: CircleDot, label: "Scatter", category: "charts" },
+  { type: "heatmap", icon: CalendarDays, label: "Heatmap", category: "charts" },
+  { type: "histogram", icon: BarChartBig, label: "Histogram", category: "charts" },
+  { type: "boxplot", icon: CandlestickChart, label: "Box Plot", category: "charts" },
   // Tables
   { type: "matrix", icon: Grid3X3, label: "Matrix", category: "tables" },
   { type: "table", icon: Table2, label: "Table", category: "tables" },
   // Cards (renamed from KPI Card)
   { type: "card" as VisualizationType, icon: CreditCard, label: "Card", category: "cards" },
+  { type: "gauge", icon: Gauge, label: "Gauge", category: "cards" },
+  { type: "bullet", icon: Target, label: "Bullet Chart", category: "cards" },
 ];
 
 const slicerOptions: SlicerOption[] = [
   { type: "dropdown", icon: Filter, label: "Dropdown" },
   { type: "list", icon: ListFilter, label: "List" },
   { type: "date-range", icon: Calendar, label: "Date Range" },
+  { type: "relative-date", icon: CalendarClock, label: "Relative Date" },
   { type: "numeric-range", icon: SlidersHorizontal, label: "Numeric Range" },
 ];
 
@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { DataPoint } from "./DataEditor";
+import type { VisualProperties } from "./PropertyPanel";
+import { FormattedCell } from "./formatting";
+import { getConditionalFormat, getFieldRules, getValueDomain, type ValueDomain } from "@/utils/conditionalFormatting";
+import { getNumberFormatter } from "@/utils/numberFormat";
+
+interface DataTableProps {
+  data: DataPoint[];
+  columns: string[];
+  properties: VisualProperties;
+  onDataClick?: (dimension: string, value: string) => void;
+  isHighlighted: (name: string) => boolean;
+}
+
+interface SortState {
+  column: string;
+  direction: "asc" | "desc";
+}
+
+// Rows are a fixed height so the rows in view can be computed from the scroll position
+const ROW_HEIGHT = 36;
+const OVERSCAN_ROWS = 10;
+const DEFAULT_COLUMN_WIDTH = 140;
+const MIN_COLUMN_WIDTH = 60;
+
+const compareValues = (a: unknown, b: unknown) =>
+  typeof a === "number" && typeof b === "number"
+    ? a - b
+    : String(a ?? "").localeCompare(String(b ?? ""), undefined, { numeric: true });
+
+/**
+ * Table visual
+ * Click a header to sort (ascending, descending, off), drag a header to move the
+ * column and drag its right edge to resize it. Only the rows in view are rendered,
+ * so tables of tens of thousands of rows scroll smoothly. Sort, order and widths
+ * last for the session, like the matrix's expanded rows. The totals row shows the
+ * query engine's total point (isTotal), which aggregates each measure on its own.
+ */
+export function DataTable({ data, columns, properties, onDataClick, isHighlighted }: DataTableProps) {
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [columnOrder, setColumnOrder] = useState<string[]>([]);
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>({});
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(400);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Moved columns keep their place; columns added to the config go last
+  const orderedColumns = useMemo(
+    () => [...columnOrder.filter((c) => columns.includes(c)), ...columns.filter((c) => !columnOrder.includes(c))],
+    [columns, columnOrder]
+  );
+
+  const rows = useMemo(() => data.filter((row) => !row.isTotal), [data]);
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return rows;
+    const direction = sort.direction === "asc" ? 1 : -1;
+    return [...rows].sort((a, b) => compareValues(a[sort.column], b[sort.column]) * direction);
+  }, [rows, sort]);
+
+  // Conditional formatting scales over every row, not only those in view
+  const columnRules = useMemo(
+    () => new Map(columns.map((column) => [column, getFieldRules(properties.conditionalFormatting, [column])])),
+    [columns, properties.conditionalFormatting]
+  );
+  const domains = useMemo(() => {
+    const result = new Map<string, ValueDomain>();
+    columnRules.forEach((rules, column) => {
+      if (rules.length > 0) result.set(column, getValueDomain(rows.map((row) => row[column])));
+    });
+    return result;
+  }, [columnRules, rows]);
+
+  const formatters = useMemo(
+    () => new Map(columns.map((column) => [column, getNumberFormatter(column, properties.numberFormat)])),
+    [columns, properties.numberFormat]
+  );
+
+  const totals = useMemo(() => {
+    const result: Record<string, number> = {};
+    const total = data.find((row) => row.isTotal);
+    if (!properties.showTotals || !total) return result;
+    columns.forEach((column) => {
+      if (typeof total[column] === "number") result[column] = total[column] as number;
+    });
+    return result;
+  }, [columns, data, properties.showTotals]);
+
+  const toggleSort = (column: string) => {
+    setSort((prev) => {
+      if (prev?.column !== column) return { column, direction: "asc" };
+      return prev.direction === "asc" ? { column, direction: "desc" } : null;
+    });
+  };
+
+  const moveColumn = (target: string) => {
+    if (!draggedColumn || draggedColumn === target) return;
+    const next = orderedColumns.filter((c) => c !== draggedColumn);
+    next.splice(orderedColumns.indexOf(target), 0, draggedColumn);
+    setColumnOrder(next);
+  };
+
+  const startResize = (column: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = columnWidths[column] ?? DEFAULT_COLUMN_WIDTH;
+    const onMove = (move: MouseEvent) =>
+      setColumnWidths((prev) => ({ ...prev, [column]: Math.max(MIN_COLUMN_WIDTH, startWidth + move.clientX - startX) }));
+    const onUp = () => {
+      window.removeEventListener("mousemove", onMove);
+      window.removeEventListener("mouseup", onUp);
+    };
+    window.addEventListener("mousemove", onMove);
+    window.addEventListener("mouseup", onUp);
+  };
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(sortedRows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const tableWidth = orderedColumns.reduce((sum, column) => sum + (columnWidths[column] ?? DEFAULT_COLUMN_WIDTH), 0);
+
+  // The frozen first column stays in view while scrolling sideways
+  const frozenClass = (index: number, header = false) =>
+    properties.freezeFirstColumn && index === 0 ? cn("sticky left-0 bg-background", header ? "z-20" : "z-[1]") : undefined;
+
+  const formatCell = (column: string, value: unknown) =>
+    typeof value === "number" ? formatters.get(column)!(value) : String(value ?? "");
+
+  return (
+    <div className="h-full flex flex-col">
+      <div
+        ref={containerRef}
+        className="flex-1 min-h-0 overflow-auto"
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table className="text-sm table-fixed" style={{ width: tableWidth, minWidth: "100%" }}>
+          <colgroup>
+            {orderedColumns.map((column) => (
+              <col key={column} style={{ width: columnWidths[column] ?? DEFAULT_COLUMN_WIDTH }} />
+            ))}
+          </colgroup>
+          <thead className="sticky top-0 bg-background z-10">
+            <tr className="border-b">
+              {orderedColumns.map((column, index) => (
+                <th
+                  key={column}
+                  draggable
+                  onDragStart={() => setDraggedColumn(column)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={() => moveColumn(column)}
+                  onDragEnd={() => setDraggedColumn(null)}
+                  onClick={() => toggleSort(column)}
+                  className={cn(
+                    "relative px-3 py-2 text-left font-medium text-muted-foreground capitalize cursor-pointer select-none hover:text-foreground",
+                    draggedColumn === column && "opacity-50",
+                    frozenClass(index, true)
+                  )}
+                  title="Click to sort, drag to move"
+                >
+                  <span className="flex items-center gap-1 truncate">
+                    <span className="truncate">{column.replace(/_/g, " ")}</span>
+                    {sort?.column === column &&
+                      (sort.direction === "asc" ? (
+                        <ArrowUp className="h-3 w-3 flex-shrink-0" />
+                      ) : (
+                        <ArrowDown className="h-3 w-3 flex-shrink-0" />
+                      ))}
+                  </span>
+                  <span
+                    className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-primary/40"
+                    onMouseDown={(e) => startResize(column, e)}
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }} />}
+            {sortedRows.slice(firstRow, lastRow).map((row) => (
+              <tr
+                key={row.id}
+                className="border-b border-border/50 hover:bg-secondary/30 cursor-pointer"
+                style={{ height: ROW_HEIGHT, opacity: isHighlighted(row.category) ? 1 : 0.3 }}
+                onClick={() => onDataClick?.("category", row.category)}
+              >
+                {orderedColumns.map((column, index) => {
+                  const rules = columnRules.get(column) || [];
+                  return (
+                    <FormattedCell
+                      key={column}
+                      format={rules.length > 0 ? getConditionalFormat(rules, row[column], domains.get(column)!) : {}}
+                      className={cn(
+                        "whitespace-nowrap overflow-hidden text-ellipsis",
+                        typeof row[column] === "number" && "text-right font-mono",
+                        frozenClass(index)
+                      )}
+                    >
+                      {formatCell(column, row[column])}
+                    </FormattedCell>
+                  );
+                })}
+              </tr>
+            ))}
+            {lastRow < sortedRows.length && <tr style={{ height: (sortedRows.length - lastRow) * ROW_HEIGHT }} />}
+          </tbody>
+          {properties.showTotals && Object.keys(totals).length > 0 && (
+            <tfoot className="sticky bottom-0 bg-muted font-medium border-t-2">
+              <tr>
+                {orderedColumns.map((column, index) => (
+                  <td
+                    key={column}
+                    className={cn(
+                      "px-3 py-2 whitespace-nowrap",
+                      totals[column] !== undefined && "text-right font-mono",
+                      frozenClass(index) && "sticky left-0 bg-muted z-[1]"
+                    )}
+                  >
+                    {index === 0 && totals[column] === undefined
+                      ? "Total"
+                      : totals[column] !== undefined ? formatCell(column, totals[column]) : ""}
+                  </td>
+                ))}
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+      <div className="flex-shrink-0 pt-1 text-xs text-muted-foreground text-right">
+        {sortedRows.length.toLocaleString()} {sortedRows.length === 1 ? "row" : "rows"}
+      </div>
+    </div>
+  );
+}
@@ -116,6 +116,11 @@ function PanelSlotDropZone({
               type={visual.type}
               data={visual.data}
               properties={visual.properties}
+              valueFieldNames={visual.valueFieldNames}
+              config={visual.config}
+              truncation={visual.truncation}
+              rowLimit={visual.rowLimit}
+              status={visual.queryStatus}
             />
           </div>
           
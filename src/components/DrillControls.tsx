@@ -0,0 +1,90 @@
+import { ArrowDown, ArrowUp, ChevronRight, ChevronsDown } from "lucide-react";
+import { Button } from "./ui/button";
+import { cn } from "@/lib/utils";
+import type { ChartConfig } from "./ChartConfigDropdowns";
+import {
+  canDrillDown,
+  canDrillUp,
+  drillDown,
+  drillTo,
+  drillUp,
+  formatDrillValue,
+  getDrillLevelLabel,
+  type DrillHierarchy,
+} from "@/utils/drill";
+
+interface DrillControlsProps {
+  hierarchy: DrillHierarchy;
+  config: ChartConfig;
+  drillMode: boolean;
+  onDrillModeChange: (enabled: boolean) => void;
+  onChange: (config: ChartConfig) => void;
+}
+
+/**
+ * Drill toolbar for a visual header: drill up, drill mode (clicking a point
+ * drills into it), expand all to the next level, and a breadcrumb of the
+ * steps taken - each step returns to its level
+ */
+export function DrillControls({ hierarchy, config, drillMode, onDrillModeChange, onChange }: DrillControlsProps) {
+  const path = config.drillPath || [];
+  const hasNextLevel = canDrillDown(hierarchy, config);
+
+  const stop = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action();
+  };
+
+  return (
+    <div className="flex items-center gap-1 min-w-0 text-xs text-muted-foreground">
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-6 w-6 flex-shrink-0"
+        title="Drill up"
+        disabled={!canDrillUp(hierarchy, config)}
+        onClick={stop(() => onChange(drillUp(config, hierarchy)))}
+      >
+        <ArrowUp className="h-3.5 w-3.5" />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className={cn("h-6 w-6 flex-shrink-0", drillMode && "bg-primary/10 text-primary")}
+        title={drillMode ? "Drill mode on - click a data point to drill into it" : "Turn on drill mode"}
+        disabled={!hasNextLevel}
+        onClick={stop(() => onDrillModeChange(!drillMode))}
+      >
+        <ArrowDown className="h-3.5 w-3.5" />
+      </Button>
+      <Button
+        size="icon"
+        variant="ghost"
+        className="h-6 w-6 flex-shrink-0"
+        title="Expand all down one level"
+        disabled={!hasNextLevel}
+        onClick={stop(() => onChange(drillDown(config, hierarchy, null)))}
+      >
+        <ChevronsDown className="h-3.5 w-3.5" />
+      </Button>
+
+      <div className="flex items-center gap-0.5 min-w-0 overflow-hidden ml-1">
+        {path.map((step, index) => (
+          <span key={index} className="flex items-center gap-0.5 min-w-0">
+            <button
+              className="truncate hover:text-foreground hover:underline"
+              title={`Back to ${getDrillLevelLabel(step.level)}`}
+              onClick={stop(() => onChange(drillTo(config, hierarchy, index)))}
+            >
+              {getDrillLevelLabel(step.level)}: {formatDrillValue(step)}
+            </button>
+            <ChevronRight className="h-3 w-3 flex-shrink-0" />
+          </span>
+        ))}
+        <span className="font-medium text-foreground truncate">
+          {getDrillLevelLabel(String(config[hierarchy.field]))}
+        </span>
+      </div>
+    </div>
+  );
+}
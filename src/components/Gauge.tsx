@@ -0,0 +1,113 @@
+import type { ChartConfig } from "./ChartConfigDropdowns";
+import type { DataPoint } from "./DataEditor";
+import type { VisualProperties } from "./PropertyPanel";
+import {
+  getBandOpacity,
+  getScaleFraction,
+  getTargetBands,
+  getTargetPercent,
+  getTargetScale,
+} from "@/utils/targets";
+
+interface GaugeProps {
+  data: DataPoint[];
+  config?: ChartConfig;
+  properties: VisualProperties;
+  formatValue: (value: unknown, options?: { compact?: boolean }) => string;
+}
+
+// Semicircle geometry in viewBox units; the arc's centre sits near the bottom edge
+const CX = 100;
+const CY = 100;
+const RADIUS = 80;
+const TRACK_WIDTH = 20;
+const VALUE_WIDTH = 10;
+const TARGET_OVERHANG = 4;
+
+/** Point at a fraction of the scale: 0 at the left end of the arc, 1 at the right */
+const arcPoint = (fraction: number, radius = RADIUS) => {
+  const angle = Math.PI * (1 - fraction);
+  return { x: CX + radius * Math.cos(angle), y: CY - radius * Math.sin(angle) };
+};
+
+const arcPath = (from: number, to: number) => {
+  const start = arcPoint(from);
+  const end = arcPoint(to);
+  return `M ${start.x} ${start.y} A ${RADIUS} ${RADIUS} 0 0 1 ${end.x} ${end.y}`;
+};
+
+/**
+ * Gauge visual
+ * A semicircle from min to max with the value filled in, the target as a marker
+ * across the arc and the qualitative bands shading the track (see targets.ts).
+ * Manual data is summed, like a card's.
+ */
+export function Gauge({ data, config, properties, formatValue }: GaugeProps) {
+  const point: DataPoint = data.length === 1
+    ? data[0]
+    : { id: "total", category: "", value: data.reduce((sum, d) => sum + d.value, 0) };
+  const target = typeof point.target === "number" ? point.target : undefined;
+  const scale = getTargetScale([point], config);
+  const bands = getTargetBands(config, point, scale);
+  const percent = getTargetPercent(point);
+  const valueFraction = getScaleFraction(point.value, scale);
+
+  const targetFraction = target !== undefined ? getScaleFraction(target, scale) : null;
+  const targetInner = targetFraction !== null ? arcPoint(targetFraction, RADIUS - TRACK_WIDTH / 2 - TARGET_OVERHANG) : null;
+  const targetOuter = targetFraction !== null ? arcPoint(targetFraction, RADIUS + TRACK_WIDTH / 2 + TARGET_OVERHANG) : null;
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full w-full">
+      <svg viewBox="0 0 200 112" className="w-full flex-1 min-h-0">
+        {bands.length > 0 ? (
+          bands.map((band, i) => (
+            <path
+              key={i}
+              d={arcPath(getScaleFraction(band.from, scale), getScaleFraction(band.to, scale))}
+              className="text-muted-foreground"
+              stroke="currentColor"
+              strokeOpacity={getBandOpacity(i, bands.length)}
+              strokeWidth={TRACK_WIDTH}
+              fill="none"
+            />
+          ))
+        ) : (
+          <path d={arcPath(0, 1)} className="text-muted" stroke="currentColor" strokeWidth={TRACK_WIDTH} fill="none" />
+        )}
+        {valueFraction > 0 && (
+          <path d={arcPath(0, valueFraction)} stroke={properties.primaryColor} strokeWidth={VALUE_WIDTH} fill="none" />
+        )}
+        {targetInner && targetOuter && (
+          <line
+            x1={targetInner.x}
+            y1={targetInner.y}
+            x2={targetOuter.x}
+            y2={targetOuter.y}
+            className="text-foreground"
+            stroke="currentColor"
+            strokeWidth={2.5}
+          >
+            <title>Target: {formatValue(target)}</title>
+          </line>
+        )}
+        <text x={CX} y={CY - 18} textAnchor="middle" fontSize={24} fontWeight={600} className="fill-foreground">
+          {formatValue(point.value)}
+        </text>
+        {percent !== null && (
+          <text x={CX} y={CY - 2} textAnchor="middle" fontSize={10} className="fill-muted-foreground">
+            {Math.round(percent)}% of target
+          </text>
+        )}
+        <text x={CX - RADIUS} y={CY + 11} textAnchor="middle" fontSize={9} className="fill-muted-foreground">
+          {formatValue(scale.min, { compact: true })}
+        </text>
+        <text x={CX + RADIUS} y={CY + 11} textAnchor="middle" fontSize={9} className="fill-muted-foreground">
+          {formatValue(scale.max, { compact: true })}
+        </text>
+      </svg>
+      {target !== undefined && (
+        <div className="text-xs text-muted-foreground flex-shrink-0">Target {formatValue(target)}</div>
+      )}
+    </div>
+  );
+}
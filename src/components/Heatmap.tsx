@@ -0,0 +1,114 @@
+import { Fragment } from "react";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import type { ChartConfig } from "./ChartConfigDropdowns";
+import type { DataPoint } from "./DataEditor";
+import type { VisualProperties } from "./PropertyPanel";
+import { getScaleColor, getValueDomain } from "@/utils/conditionalFormatting";
+import { getHeatmapColors, getHeatmapGrid, isCalendarHeatmap } from "@/utils/heatmap";
+
+interface HeatmapProps {
+  data: DataPoint[];
+  config?: ChartConfig;
+  properties: VisualProperties;
+  formatValue: (value: unknown, options?: { compact?: boolean }) => string;
+  onDataClick?: (dimension: string, value: string) => void;
+  isHighlighted: (name: string) => boolean;
+}
+
+/** Whether a #rrggbb colour needs light text on top of it */
+const isDarkColor = (color: string) => {
+  const n = parseInt(color.slice(1), 16);
+  return 0.299 * ((n >> 16) & 255) + 0.587 * ((n >> 8) & 255) + 0.114 * (n & 255) < 140;
+};
+
+/**
+ * Heatmap visual
+ * A grid of cells coloured by value along the visual's colour scale (see heatmap.ts),
+ * with the scale as a legend underneath. Calendars run one column per week with a
+ * row per weekday and label each month; clicking a day cross-filters the other
+ * visuals to that date. Two-dimension grids cross-filter on the clicked row.
+ */
+export function Heatmap({ data, config, properties, formatValue, onDataClick, isHighlighted }: HeatmapProps) {
+  const calendar = isCalendarHeatmap(config);
+  const grid = getHeatmapGrid(data, config);
+  const colors = getHeatmapColors(properties.heatmapColorScale, properties.primaryColor);
+  const domain = getValueDomain(data.map((point) => point.value));
+
+  // Calendars label a week column only where a new month starts
+  const getColumnLabel = (column: string, index: number) => {
+    if (!calendar) return column;
+    const month = format(parseISO(column), "MMM");
+    return index === 0 || month !== format(parseISO(grid.columns[index - 1]), "MMM") ? month : "";
+  };
+
+  const getCellTitle = (point: DataPoint, row: string, column: string) =>
+    calendar
+      ? `${format(parseISO(point.category), "EEE, MMM d, yyyy")}: ${formatValue(point.value)}`
+      : `${row} × ${column}: ${formatValue(point.value)}`;
+
+  const handleCellClick = (point: DataPoint) =>
+    calendar ? onDataClick?.("date", point.category) : onDataClick?.("category", point.category);
+
+  return (
+    <div className="h-full flex flex-col gap-2">
+      <div className="flex-1 min-h-0 overflow-auto">
+        <div
+          className="grid h-full gap-0.5 text-[10px] text-muted-foreground"
+          style={{
+            gridTemplateColumns: `auto repeat(${grid.columns.length}, minmax(${calendar ? 10 : 36}px, 1fr))`,
+            gridTemplateRows: `auto repeat(${grid.rows.length}, minmax(${calendar ? 10 : 24}px, 1fr))`,
+          }}
+        >
+          <div />
+          {grid.columns.map((column, index) => (
+            <div key={column} className={cn("truncate", !calendar && "text-center")} title={calendar ? undefined : column}>
+              {getColumnLabel(column, index)}
+            </div>
+          ))}
+          {grid.rows.map((row, r) => (
+            <Fragment key={row}>
+              <div className="pr-1 text-right truncate self-center max-w-[120px]" title={row}>
+                {row}
+              </div>
+              {grid.columns.map((column, c) => {
+                const point = grid.cells[r][c];
+                if (!point) return <div key={column} className="rounded-sm bg-muted/40" />;
+
+                const color = getScaleColor(colors, point.value, domain);
+                return (
+                  <div
+                    key={column}
+                    className={cn(
+                      "rounded-sm flex items-center justify-center overflow-hidden transition-opacity",
+                      onDataClick && "cursor-pointer hover:ring-1 hover:ring-foreground"
+                    )}
+                    style={{
+                      backgroundColor: color,
+                      opacity: isHighlighted(calendar ? point.category : row) ? 1 : 0.3,
+                      color: isDarkColor(color) ? "#ffffff" : "#0f172a",
+                    }}
+                    title={getCellTitle(point, row, column)}
+                    onClick={() => handleCellClick(point)}
+                  >
+                    {!calendar && properties.showDataLabels && formatValue(point.value, { compact: true })}
+                  </div>
+                );
+              })}
+            </Fragment>
+          ))}
+        </div>
+      </div>
+      {properties.showLegend && data.length > 0 && (
+        <div className="flex items-center justify-center gap-2 text-[10px] text-muted-foreground flex-shrink-0">
+          <span>{formatValue(domain.min, { compact: true })}</span>
+          <div
+            className="h-2 w-32 rounded-sm"
+            style={{ background: `linear-gradient(to right, ${colors.join(", ")})` }}
+          />
+          <span>{formatValue(domain.max, { compact: true })}</span>
+        </div>
+      )}
+    </div>
+  );
+}
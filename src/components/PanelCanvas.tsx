@@ -2,6 +2,7 @@ import { Plus } from "lucide-react";
 import { useDroppable } from "@dnd-kit/core";
 import { DraggablePanel, type PanelData } from "./DraggablePanel";
 import { CanvasVisual, type CanvasVisualData } from "./CanvasVisual";
+import type { ChartConfig } from "./ChartConfigDropdowns";
 import { cn } from "@/lib/utils";
 
 interface PanelCanvasProps {
@@ -24,6 +25,7 @@ interface PanelCanvasProps {
   onDuplicateVisual: (id: string) => void;
   onRemoveVisualFromSlot: (panelId: string, slotId: string) => void;
   onDataClick?: (visualId: string, dimension: string, value: string) => void;
+  onDrillVisual?: (visualId: string, config: ChartConfig) => void;
 }
 
 export function PanelCanvas({
@@ -46,6 +48,7 @@ export function PanelCanvas({
   onDuplicateVisual,
   onRemoveVisualFromSlot,
   onDataClick,
+  onDrillVisual,
 }: PanelCanvasProps) {
   // Main canvas drop zone for new panels
   const { setNodeRef, isOver } = useDroppable({
@@ -119,6 +122,7 @@ export function PanelCanvas({
           onDelete={() => onDeleteVisual(visual.id)}
           onDuplicate={() => onDuplicateVisual(visual.id)}
           onDataClick={onDataClick ? (dimension, value) => onDataClick(visual.id, dimension, value) : undefined}
+          onDrill={onDrillVisual ? (config) => onDrillVisual(visual.id, config) : undefined}
         />
       ))}
 
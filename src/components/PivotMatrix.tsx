@@ -0,0 +1,215 @@
+import { useMemo, useState } from "react";
+import { ChevronDown, ChevronRight, ChevronsDown, ChevronsUp } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ChartConfig } from "./ChartConfigDropdowns";
+import type { DataPoint } from "./DataEditor";
+import type { VisualProperties } from "./PropertyPanel";
+import { FormattedCell } from "./formatting";
+import { buildPivot, getMatrixLayout } from "@/utils/pivot";
+import { getConditionalFormat, getFieldRules, getValueDomain, type ValueDomain } from "@/utils/conditionalFormatting";
+import { getNumberFormatter } from "@/utils/numberFormat";
+
+interface PivotMatrixProps {
+  data: DataPoint[];
+  config: ChartConfig;
+  properties: VisualProperties;
+  onDataClick?: (dimension: string, value: string) => void;
+  isHighlighted: (name: string) => boolean;
+}
+
+interface HeaderCell {
+  key: string;
+  label: string;
+  colSpan: number;
+  rowSpan: number;
+  isTotal: boolean;
+}
+
+const pathKey = (path: string[]) => JSON.stringify(path);
+
+/**
+ * Pivot table for the matrix visual
+ * Row levels expand and collapse (collapsed rows still show their subtotals),
+ * column groups end in a total column, and the last row is the grand total.
+ */
+export function PivotMatrix({ data, config, properties, onDataClick, isHighlighted }: PivotMatrixProps) {
+  const layout = useMemo(() => getMatrixLayout(config), [config]);
+  const pivot = useMemo(() => (layout ? buildPivot(data, layout) : null), [data, layout]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  // Conditional formatting scales over the cells only, not the totals
+  const domains = useMemo(() => {
+    if (!layout) return new Map<string, ValueDomain>();
+    const dimensions = [...layout.rows, ...layout.columns];
+    const cells = data.filter((point) => dimensions.every((dim) => point[dim] !== undefined));
+    return new Map<string, ValueDomain>(
+      layout.measures.map((measure) => [measure, getValueDomain(cells.map((point) => point[measure]))])
+    );
+  }, [data, layout]);
+
+  if (!layout || !pivot) return null;
+
+  // Each measure keeps its own format unless the visual overrides it
+  const formatMeasure = (measure: string, value?: number) =>
+    getNumberFormatter(measure, properties.numberFormat)(value);
+
+  const measureCount = layout.measures.length;
+  const columnLevels = layout.columns.length;
+  const showMeasureRow = measureCount > 1 || columnLevels === 0;
+  const headerRowCount = columnLevels + (showMeasureRow ? 1 : 0);
+
+  const toggleRow = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const expandAll = () => setExpanded(new Set(pivot.rows.filter((r) => r.hasChildren).map((r) => pathKey(r.path))));
+
+  // A row shows when every ancestor is expanded
+  const visibleRows = pivot.rows.filter((row) =>
+    row.path.slice(0, -1).every((_, i) => expanded.has(pathKey(row.path.slice(0, i + 1))))
+  );
+
+  // Column header cells for one level; groups span their columns, totals span the levels below
+  const getHeaderCells = (level: number): HeaderCell[] => {
+    const cells: HeaderCell[] = [];
+    pivot.columns.forEach((column) => {
+      if (column.path.length > level) {
+        const key = pathKey(column.path.slice(0, level + 1));
+        const last = cells[cells.length - 1];
+        if (last && last.key === key) {
+          last.colSpan += measureCount;
+        } else {
+          cells.push({ key, label: column.path[level], colSpan: measureCount, rowSpan: 1, isTotal: false });
+        }
+      } else if (column.isTotal && column.path.length === level) {
+        cells.push({ key: `total-${pathKey(column.path)}`, label: "Total", colSpan: measureCount, rowSpan: columnLevels - level, isTotal: true });
+      }
+    });
+    return cells;
+  };
+
+  const renderValueCells = (rowPath: string[]) =>
+    pivot.columns.flatMap((column) =>
+      layout.measures.map((measure, i) => {
+        const value = pivot.getValue(rowPath, column.path, measure);
+        const isCell = rowPath.length === layout.rows.length && !column.isTotal;
+        const rules = isCell ? getFieldRules(properties.conditionalFormatting, [measure, i === 0 ? "value" : undefined]) : [];
+        return (
+          <FormattedCell
+            key={`${pathKey(column.path)}-${measure}`}
+            format={rules.length > 0 ? getConditionalFormat(rules, value, domains.get(measure)!) : {}}
+            className={cn("text-right font-mono whitespace-nowrap", column.isTotal && "font-semibold bg-muted/30")}
+          >
+            {formatMeasure(measure, value)}
+          </FormattedCell>
+        );
+      })
+    );
+
+  const corner = (
+    <th
+      rowSpan={headerRowCount}
+      className="px-3 py-2 text-left font-medium text-muted-foreground align-bottom whitespace-nowrap"
+    >
+      <div className="flex items-center gap-1">
+        <span>{layout.rows.join(" / ")}</span>
+        {layout.rows.length > 1 && (
+          <>
+            <button onClick={expandAll} title="Expand all" className="p-0.5 rounded hover:bg-secondary">
+              <ChevronsDown className="h-3 w-3" />
+            </button>
+            <button onClick={() => setExpanded(new Set())} title="Collapse all" className="p-0.5 rounded hover:bg-secondary">
+              <ChevronsUp className="h-3 w-3" />
+            </button>
+          </>
+        )}
+      </div>
+    </th>
+  );
+
+  return (
+    <div className="h-full overflow-auto">
+      <table className="w-full text-sm">
+        <thead className="sticky top-0 bg-background z-10">
+          {Array.from({ length: columnLevels }, (_, level) => (
+            <tr key={level} className="border-b">
+              {level === 0 && corner}
+              {getHeaderCells(level).map((cell) => (
+                <th
+                  key={cell.key}
+                  colSpan={cell.colSpan}
+                  rowSpan={cell.rowSpan}
+                  className={cn(
+                    "px-3 py-2 text-center font-medium text-muted-foreground whitespace-nowrap",
+                    cell.isTotal && "bg-muted/30"
+                  )}
+                >
+                  {cell.label}
+                </th>
+              ))}
+            </tr>
+          ))}
+          {showMeasureRow && (
+            <tr className="border-b">
+              {columnLevels === 0 && corner}
+              {pivot.columns.flatMap((column) =>
+                layout.measures.map((measure) => (
+                  <th
+                    key={`${pathKey(column.path)}-${measure}`}
+                    className={cn("px-3 py-2 text-right font-medium text-muted-foreground whitespace-nowrap", column.isTotal && "bg-muted/30")}
+                  >
+                    {measure}
+                  </th>
+                ))
+              )}
+            </tr>
+          )}
+        </thead>
+        <tbody>
+          {visibleRows.map((row) => {
+            const key = pathKey(row.path);
+            const depth = row.path.length - 1;
+            const label = row.path[depth];
+            return (
+              <tr
+                key={key}
+                className={cn("border-b border-border/50 hover:bg-secondary/30", row.hasChildren && "font-medium")}
+                style={{ opacity: isHighlighted(label) ? 1 : 0.3 }}
+              >
+                <td className="px-3 py-2 whitespace-nowrap" style={{ paddingLeft: 12 + depth * 16 }}>
+                  <span className="inline-flex items-center gap-1">
+                    {row.hasChildren ? (
+                      <button onClick={() => toggleRow(key)} className="p-0.5 rounded hover:bg-secondary">
+                        {expanded.has(key) ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                      </button>
+                    ) : (
+                      <span className="w-4" />
+                    )}
+                    <span
+                      className={onDataClick ? "cursor-pointer" : undefined}
+                      onClick={() => onDataClick?.(layout.rows[depth], label)}
+                    >
+                      {label}
+                    </span>
+                  </span>
+                </td>
+                {renderValueCells(row.path)}
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot className="sticky bottom-0 bg-muted/80 font-semibold border-t-2">
+          <tr>
+            <td className="px-3 py-2">Total</td>
+            {renderValueCells([])}
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
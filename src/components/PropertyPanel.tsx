@@ -1,16 +1,19 @@
 import { useState } from "react";
-import { ChevronDown, ChevronRight, Palette, Type, Layout, Sliders, BarChart3 } from "lucide-react";
+import { ChevronDown, ChevronRight, Palette, Type, Layout, Sliders, BarChart3, Hash, Target } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { ConditionalFormatting } from "@/components/formatting";
-import type { ConditionalRule } from "@/types/dashboard";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ConditionalFormatting, ReferenceLines } from "@/components/formatting";
+import type { ConditionalRule, ReferenceLineRule } from "@/types/dashboard";
+import { formatNumber, numberFormatPresets } from "@/utils/numberFormat";
+import { getHeatmapColors, heatmapColorScales, type HeatmapColorScale } from "@/utils/heatmap";
 
 export type LegendPosition = "top" | "bottom" | "left" | "right";
-export type BarChartMode = "grouped" | "stacked";
+export type BarChartMode = "grouped" | "stacked" | "percent";
 export type DataLabelPosition = "top" | "inside" | "outside" | "center";
 
 export interface VisualProperties {
@@ -29,6 +32,10 @@ export interface VisualProperties {
   barChartMode: BarChartMode;
   conditionalFormatting?: ConditionalRule[];
   showTotals?: boolean; // For table visual
+  freezeFirstColumn?: boolean; // For table visual - first column stays in view when scrolling sideways
+  numberFormat?: string; // Format string for every measure; empty uses each measure's default
+  referenceLines?: ReferenceLineRule[]; // For bar, line, area and combo charts
+  heatmapColorScale?: HeatmapColorScale; // For heatmap - cell colours, smallest value first (default primary color)
 }
 
 interface PropertyPanelProps {
@@ -79,6 +86,18 @@ export function PropertyPanel({ properties, onChange, availableFields = [] }: Pr
     onChange({ ...properties, [key]: value });
   };
 
+  // Format strings that aren't presets are edited as custom
+  const numberFormat = properties.numberFormat || "";
+  const [customFormat, setCustomFormat] = useState(
+    () => !numberFormatPresets.some((preset) => preset.value === numberFormat)
+  );
+  const formatPreset = customFormat ? "custom" : numberFormat || "default";
+
+  const handleFormatPresetChange = (value: string) => {
+    setCustomFormat(value === "custom");
+    if (value !== "custom") updateProperty("numberFormat", value === "default" ? "" : value);
+  };
+
   return (
     <div className="h-full overflow-y-auto">
       <Section title="General" icon={Layout}>
@@ -204,6 +223,47 @@ export function PropertyPanel({ properties, onChange, availableFields = [] }: Pr
         </div>
       </Section>
 
+      <Section title="Number Format" icon={Hash} defaultOpen={false}>
+        <div className="space-y-3">
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Format</Label>
+            <Select value={formatPreset} onValueChange={handleFormatPresetChange}>
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {numberFormatPresets.map((preset) => (
+                  <SelectItem key={preset.value || "default"} value={preset.value || "default"}>
+                    {preset.label}
+                  </SelectItem>
+                ))}
+                <SelectItem value="custom">Custom</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {customFormat && (
+            <div className="space-y-1.5 pl-2 border-l-2 border-border">
+              <Label htmlFor="numberFormat" className="text-xs text-muted-foreground">
+                Format String
+              </Label>
+              <Input
+                id="numberFormat"
+                value={numberFormat}
+                placeholder="$#,0.00"
+                onChange={(e) => updateProperty("numberFormat", e.target.value)}
+                className="h-8 text-sm font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                e.g. {formatNumber(1234567.891, numberFormat || "#,0.00")}
+              </p>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Applies to axes, tooltips, data labels, table cells and cards.
+          </p>
+        </div>
+      </Section>
+
       <Section title="Table Options" icon={Layout} defaultOpen={false}>
         <div className="space-y-3">
           <div className="flex items-center justify-between">
@@ -216,6 +276,48 @@ export function PropertyPanel({ properties, onChange, availableFields = [] }: Pr
               onCheckedChange={(checked) => updateProperty("showTotals", checked)}
             />
           </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="freezeFirstColumn" className="text-xs text-muted-foreground">
+              Freeze First Column
+            </Label>
+            <Switch
+              id="freezeFirstColumn"
+              checked={properties.freezeFirstColumn || false}
+              onCheckedChange={(checked) => updateProperty("freezeFirstColumn", checked)}
+            />
+          </div>
+        </div>
+      </Section>
+
+      <Section title="Heatmap Options" icon={Palette} defaultOpen={false}>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-muted-foreground">Color Scale</Label>
+          <Select
+            value={properties.heatmapColorScale || "primary"}
+            onValueChange={(value) => updateProperty("heatmapColorScale", value as HeatmapColorScale)}
+          >
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {heatmapColorScales.map((scale) => (
+                <SelectItem key={scale.value} value={scale.value}>
+                  <span className="flex items-center gap-2">
+                    <span
+                      className="h-3 w-8 rounded-sm border"
+                      style={{
+                        background: `linear-gradient(to right, ${getHeatmapColors(scale.value, properties.primaryColor).join(", ")})`,
+                      }}
+                    />
+                    {scale.label}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            The legend shows with Show Legend.
+          </p>
         </div>
       </Section>
 
@@ -303,7 +405,7 @@ export function PropertyPanel({ properties, onChange, availableFields = [] }: Pr
           <Label className="text-xs text-muted-foreground">Bar Display Mode</Label>
           <RadioGroup
             value={properties.barChartMode || "grouped"}
-            onValueChange={(value) => updateProperty("barChartMode", value as "grouped" | "stacked")}
+            onValueChange={(value) => updateProperty("barChartMode", value as BarChartMode)}
             className="space-y-2"
           >
             <div className="flex items-center space-x-2">
@@ -314,10 +416,22 @@ export function PropertyPanel({ properties, onChange, availableFields = [] }: Pr
               <RadioGroupItem value="stacked" id="bar-stacked" />
               <Label htmlFor="bar-stacked" className="text-xs">Stacked</Label>
             </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="percent" id="bar-percent" />
+              <Label htmlFor="bar-percent" className="text-xs">100% Stacked</Label>
+            </div>
           </RadioGroup>
         </div>
       </Section>
 
+      <Section title="Reference Lines" icon={Target} defaultOpen={false}>
+        <ReferenceLines
+          lines={properties.referenceLines || []}
+          availableFields={availableFields.length > 0 ? availableFields : ["value"]}
+          onChange={(lines) => updateProperty("referenceLines", lines)}
+        />
+      </Section>
+
       <Section title="Conditional Formatting" icon={Palette} defaultOpen={false}>
         <ConditionalFormatting
           rules={properties.conditionalFormatting || []}
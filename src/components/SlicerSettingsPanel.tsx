@@ -5,7 +5,10 @@
  * - Dropdown: Field selection (Group By dimensions), multi-select toggle
  * - List: Same as Dropdown
  * - Date Range: Defaults to date field
+ * - Relative Date: Date field, rolling period (last N days/weeks/months, quarter, YTD)
  * - Numeric Range: Field selection (Measures only)
+ *
+ * Fields the data source doesn't provide are listed but disabled.
  */
 
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -14,7 +17,9 @@ import { Switch } from "@/components/ui/switch";
 import { Input } from "@/components/ui/input";
 import { Filter } from "lucide-react";
 import { metaMetrics, groupByDimensions } from "@/components/ChartConfigDropdowns";
-import type { SlicerData } from "@/types/dashboard";
+import type { RelativeDatePeriod, SlicerData } from "@/types/dashboard";
+import { isMetricAvailable, isDimensionAvailable, UNAVAILABLE_FIELD_HINT } from "@/utils/semanticLayer";
+import { relativeDatePeriods, formatRelativeDateRange } from "@/utils/relativeDates";
 
 interface SlicerSettingsPanelProps {
   slicer: SlicerData;
@@ -24,7 +29,9 @@ interface SlicerSettingsPanelProps {
 export function SlicerSettingsPanel({ slicer, onUpdate }: SlicerSettingsPanelProps) {
   const isDropdownOrList = slicer.type === "dropdown" || slicer.type === "list";
   const isDateRange = slicer.type === "date-range";
+  const isRelativeDate = slicer.type === "relative-date";
   const isNumericRange = slicer.type === "numeric-range";
+  const relativePeriod = relativeDatePeriods.find((p) => p.value === slicer.relativeDate?.period);
 
   const handleFieldChange = (value: string) => {
     onUpdate({ 
@@ -46,6 +53,23 @@ export function SlicerSettingsPanel({ slicer, onUpdate }: SlicerSettingsPanelPro
     });
   };
 
+  const handleRelativePeriodChange = (value: string) => {
+    const period = value as RelativeDatePeriod;
+    const option = relativeDatePeriods.find((p) => p.value === period);
+    onUpdate({
+      relativeDate: {
+        period,
+        count: option?.hasCount ? slicer.relativeDate?.count || 30 : undefined,
+      },
+    });
+  };
+
+  const handleRelativeCountChange = (value: string) => {
+    const count = parseInt(value, 10);
+    if (!slicer.relativeDate || isNaN(count) || count < 1) return;
+    onUpdate({ relativeDate: { ...slicer.relativeDate, count } });
+  };
+
   return (
     <div className="space-y-4 overflow-hidden">
       {/* Section Header */}
@@ -90,8 +114,11 @@ export function SlicerSettingsPanel({ slicer, onUpdate }: SlicerSettingsPanelPro
               </SelectTrigger>
               <SelectContent className="max-h-[300px]">
                 {groupByDimensions.map((dimension) => (
-                  <SelectItem key={dimension} value={dimension}>
+                  <SelectItem key={dimension} value={dimension} disabled={!isDimensionAvailable(dimension)}>
                     {dimension}
+                    {!isDimensionAvailable(dimension) && (
+                      <span className="ml-2 text-xs text-muted-foreground">({UNAVAILABLE_FIELD_HINT})</span>
+                    )}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -125,6 +152,53 @@ export function SlicerSettingsPanel({ slicer, onUpdate }: SlicerSettingsPanelPro
         </div>
       )}
 
+      {isRelativeDate && (
+        <>
+          <div className="space-y-2">
+            <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              Field
+            </Label>
+            <div className="text-sm text-muted-foreground bg-muted/50 px-3 py-2 rounded-md">
+              Date (default)
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+              Period
+            </Label>
+            <div className="flex gap-2">
+              {relativePeriod?.hasCount && (
+                <Input
+                  type="number"
+                  min={1}
+                  value={slicer.relativeDate?.count ?? ""}
+                  onChange={(e) => handleRelativeCountChange(e.target.value)}
+                  className="h-8 w-20"
+                />
+              )}
+              <Select value={slicer.relativeDate?.period ?? ""} onValueChange={handleRelativePeriodChange}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select a period..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {relativeDatePeriods.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {slicer.relativeDate
+                ? `Currently ${formatRelativeDateRange(slicer.relativeDate)}. Recalculated from today's date each time the dashboard loads.`
+                : "The period is recalculated from today's date each time the dashboard loads."}
+            </p>
+          </div>
+        </>
+      )}
+
       {isNumericRange && (
         <div className="space-y-2">
           <Label className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
@@ -136,8 +210,11 @@ export function SlicerSettingsPanel({ slicer, onUpdate }: SlicerSettingsPanelPro
             </SelectTrigger>
             <SelectContent className="max-h-[300px]">
               {metaMetrics.map((metric) => (
-                <SelectItem key={metric} value={metric}>
+                <SelectItem key={metric} value={metric} disabled={!isMetricAvailable(metric)}>
                   {metric}
+                  {!isMetricAvailable(metric) && (
+                    <span className="ml-2 text-xs text-muted-foreground">({UNAVAILABLE_FIELD_HINT})</span>
+                  )}
                 </SelectItem>
               ))}
             </SelectContent>
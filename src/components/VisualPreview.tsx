@@ -9,6 +9,7 @@ import {
   Area,
   ScatterChart,
   Scatter,
+  ZAxis,
   ComposedChart,
   Treemap,
   FunnelChart,
@@ -22,11 +23,35 @@ import {
   Cell,
   ResponsiveContainer,
   ReferenceLine,
+  ReferenceArea,
 } from "recharts";
 import type { VisualType } from "./VisualTypeSelector";
 import type { VisualProperties } from "./PropertyPanel";
 import type { DataPoint } from "./DataEditor";
-import { TrendingUp, TrendingDown, Minus } from "lucide-react";
+import type { ChartConfig } from "./ChartConfigDropdowns";
+import { PivotMatrix } from "./PivotMatrix";
+import { DataTable } from "./DataTable";
+import { Gauge } from "./Gauge";
+import { BulletChart } from "./BulletChart";
+import { Heatmap } from "./Heatmap";
+import { BoxPlot } from "./BoxPlot";
+import { TrendingUp, TrendingDown, Minus, Loader2, AlertCircle } from "lucide-react";
+import { ConditionalIcon, FormattedCell } from "./formatting";
+import type { DataTruncation, VisualQueryStatus } from "@/types/dashboard";
+import { getMatrixLayout } from "@/utils/pivot";
+import { formatPeriodLabel, formatPeriodTick } from "@/utils/timeAxis";
+import { getNumberFormatter } from "@/utils/numberFormat";
+import { getMetric } from "@/utils/semanticLayer";
+import { getComparisonLabel, getValueChange } from "@/utils/comparison";
+import { getTargetPercent, getTargetStatus, targetStatusLabels, type TargetStatus } from "@/utils/targets";
+import { DEFAULT_REFERENCE_COLOR, getReferenceLineName, getReferenceLineValue } from "@/utils/referenceLines";
+import {
+  getConditionalFormat,
+  getFieldRules,
+  getValueDomain,
+  type ConditionalFormat,
+  type ValueDomain,
+} from "@/utils/conditionalFormatting";
 
 interface VisualPreviewProps {
   type: VisualType;
@@ -35,6 +60,10 @@ interface VisualPreviewProps {
   onDataClick?: (dimension: string, value: string) => void;
   highlightedValue?: string | string[] | null;
   valueFieldNames?: string[]; // Names of value fields for legend
+  config?: ChartConfig;        // Chart config the data was built from (matrix layout)
+  truncation?: DataTruncation; // Shown as a "Top N of M" badge when categories were cut
+  rowLimit?: number;           // Shown as a "Latest N rows" badge when row-level data was cut
+  status?: VisualQueryStatus;   // Shown in place of the chart until the server query returns
 }
 
 const CHART_COLORS = [
@@ -48,6 +77,37 @@ const CHART_COLORS = [
   "hsl(90, 60%, 45%)",
 ];
 
+/**
+ * Palette colours for a chart's series, in order: each takes the slot its name hashes to,
+ * or the next free one, so no two series in a chart share a colour and a legend value keeps
+ * its colour across charts wherever its slot is free
+ */
+const getNamedColors = (names: string[]) => {
+  const taken = new Set<number>();
+  return names.map((name) => {
+    let slot = [...name].reduce((acc, char) => (acc * 31 + char.charCodeAt(0)) >>> 0, 0) % CHART_COLORS.length;
+    for (let i = 0; i < CHART_COLORS.length && taken.has(slot); i++) slot = (slot + 1) % CHART_COLORS.length;
+    taken.add(slot);
+    return CHART_COLORS[slot];
+  });
+};
+
+// Longest legend or slice label drawn in full; points keep their full value for grouping and clicks
+const MAX_LABEL_LENGTH = 30;
+
+const shortenLabel = (label: string) =>
+  label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label;
+
+// KPI card target status pills (see targets.ts)
+const TARGET_STATUS_CLASSES: Record<TargetStatus, string> = {
+  onTrack: "bg-green-600/15 text-green-600",
+  atRisk: "bg-amber-500/15 text-amber-600",
+  offTrack: "bg-red-600/15 text-red-600",
+};
+
+// Time-series analytics keys copied onto chart points (see timeSeriesAnalytics.ts)
+const ANALYTICS_KEYS = ["trend", "movingAverage", "forecast", "forecastLower", "forecastUpper"];
+
 interface ChartDataPoint {
   name: string;
   value: number;
@@ -58,13 +118,70 @@ interface ChartDataPoint {
   [key: string]: string | number | undefined;
 }
 
+interface TreemapItem {
+  name: string;
+  group: string;  // Group the rectangle belongs to - what a click cross-filters on
+  size: number;
+  fill: string;
+  children?: TreemapItem[];
+}
+
+interface TreemapTileProps extends Partial<TreemapItem> {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  depth?: number;
+  fontSize: number;
+  nested: boolean;
+  isHighlighted: (name: string) => boolean;
+}
+
+// Treemap rectangle; Treemap clones it with each node's layout and data.
+// Nested groups are drawn as a frame around their details.
+function TreemapTile({ x = 0, y = 0, width = 0, height = 0, depth = 0, name, group, fill, fontSize, nested, isHighlighted }: TreemapTileProps) {
+  if (depth === 0) return null;
+  const isGroupFrame = nested && depth === 1;
+  const opacity = isHighlighted(group ?? name ?? "") ? 1 : 0.3;
+  const showLabel = !isGroupFrame && width > 40 && height > 20;
+
+  return (
+    <g opacity={opacity} style={{ cursor: "pointer" }}>
+      <rect
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        fill={isGroupFrame ? "none" : fill}
+        fillOpacity={nested ? 0.85 : 1}
+        stroke="hsl(var(--background))"
+        strokeWidth={isGroupFrame ? 3 : 1}
+      />
+      {showLabel && (
+        <text x={x + 6} y={y + fontSize + 2} fontSize={fontSize - 2} fill="#fff" stroke="none">
+          {name && name.length > width / 7 ? `${name.slice(0, Math.max(1, Math.floor(width / 7) - 1))}…` : name}
+        </text>
+      )}
+      {showLabel && nested && height > fontSize * 2 + 8 && (
+        <text x={x + 6} y={y + fontSize * 2 + 2} fontSize={fontSize - 4} fill="#fff" fillOpacity={0.8} stroke="none">
+          {group}
+        </text>
+      )}
+    </g>
+  );
+}
+
 export function VisualPreview({ 
   type, 
   data, 
   properties, 
-  onDataClick,
+  onDataClick: onPointClick,
   highlightedValue,
   valueFieldNames = ["Value"],
+  config,
+  truncation,
+  rowLimit,
+  status,
 }: VisualPreviewProps) {
   // Detect additional value fields in data
   const valueKeys = data.length > 0 
@@ -73,6 +190,12 @@ export function VisualPreview({
   
   const hasMultipleValues = valueKeys.length > 1;
 
+  // Legend values are coloured by name (in their sorted order, see pivotLegendSeries);
+  // series of several measures keep the palette in measure order
+  const legendColors = config?.legend ? getNamedColors(valueKeys.map((key, idx) => valueFieldNames[idx] || key)) : [];
+  const getSeriesColor = (idx: number) =>
+    legendColors[idx] ?? CHART_COLORS[idx % CHART_COLORS.length];
+
   const chartData: ChartDataPoint[] = data.map((d) => {
     const point: ChartDataPoint = {
       name: d.category,
@@ -84,27 +207,714 @@ export function VisualPreview({
         point[key] = d[key] as number;
       }
     });
+    // Comparison period value (and its period on a time axis), see comparison.ts
+    if (typeof d.comparison === "number") {
+      point.comparison = d.comparison;
+      if (d.comparisonCategory) point.comparisonCategory = String(d.comparisonCategory);
+    }
+    ANALYTICS_KEYS.forEach((key) => {
+      if (typeof d[key] === "number") point[key] = d[key] as number;
+    });
+    // Forecast periods have no actual value, so the measure's line stops at the last period
+    if (d.isForecast) {
+      point.value = null;
+      point.isForecast = 1;
+    }
     return point;
   });
 
+  // Group-by points are labelled with a shortened value (see queryEngine), so clicks and
+  // highlights go by the full value; "Others" stands for no single value and isn't clickable
+  const fullValues = new Map(
+    data.flatMap((d) => (d.dimensionValue !== undefined ? [[d.category, String(d.dimensionValue)] as const] : []))
+  );
+  const otherLabels = new Set(data.filter((d) => d.isOthers).map((d) => d.category));
+
+  const onDataClick = onPointClick && ((dimension: string, label: string) => {
+    if (dimension !== "category") return onPointClick(dimension, label);
+    if (!otherLabels.has(label)) onPointClick(dimension, fullValues.get(label) ?? label);
+  });
+
   const handleBarClick = (clickData: unknown) => {
     if (onDataClick && clickData && typeof clickData === "object" && "name" in clickData) {
       onDataClick("category", (clickData as { name: string }).name);
     }
   };
 
+  // Line and area charts report the x-axis category under the click
+  const handleAxisClick = (state: { activeLabel?: string } | null) => {
+    if (onDataClick && state?.activeLabel !== undefined) {
+      onDataClick("category", String(state.activeLabel));
+    }
+  };
+
   const isHighlighted = (name: string) => {
     if (!highlightedValue) return true;
+    const value = fullValues.get(name) ?? name;
     if (Array.isArray(highlightedValue)) {
-      return highlightedValue.includes(name);
+      return highlightedValue.includes(value);
+    }
+    return highlightedValue === value;
+  };
+
+  // Conditional formatting - rules target a value key ("value", a table column) or its display name
+  const valueDomains = new Map<string, ValueDomain>();
+  const getSeriesLabel = (key: string) => valueFieldNames[valueKeys.indexOf(key)];
+  const hasFieldRules = (key: string, label = getSeriesLabel(key)) =>
+    getFieldRules(properties.conditionalFormatting, [key, label]).length > 0;
+
+  const getCellFormat = (key: string, value: unknown, label = getSeriesLabel(key)): ConditionalFormat => {
+    const fieldRules = getFieldRules(properties.conditionalFormatting, [key, label]);
+    if (fieldRules.length === 0) return {};
+    if (!valueDomains.has(key)) {
+      valueDomains.set(key, getValueDomain(data.map((d) => d[key])));
+    }
+    return getConditionalFormat(fieldRules, value, valueDomains.get(key)!);
+  };
+
+  // Number formats - a series shows its measure's format (legend-split series
+  // show the chart measure's) unless the visual overrides it, see numberFormat.ts
+  const getValueFormatter = (key: string) => {
+    const label = getSeriesLabel(key);
+    const measure = label && getMetric(label) ? label : config?.measure;
+    const aggregation = type === "card"
+      ? config?.calculation
+      : key === "value2" && config?.measure2 ? config.aggregation2 : config?.aggregation;
+    return getNumberFormatter(measure, properties.numberFormat, aggregation);
+  };
+  const formatValue = (value: unknown, key = "value") => getValueFormatter(key)(value);
+  const formatAxisTick = (value: unknown) => getValueFormatter("value")(value, { compact: true });
+  const formatTooltipValue = (value: unknown, name: unknown, item: { dataKey?: unknown; payload?: ChartDataPoint }) => {
+    const key = typeof item?.dataKey === "string" ? item.dataKey : "value";
+    // Ranges, e.g. the forecast band
+    if (Array.isArray(value)) return value.map((v) => formatValue(v, key)).join(" - ");
+    // Compared time series name the period each point is compared with
+    if (key === "comparison" && timeGranularity && item.payload?.comparisonCategory) {
+      return [formatValue(value, key), `${name} (${formatPeriodLabel(String(item.payload.comparisonCategory), timeGranularity)})`];
+    }
+    return formatValue(value, key);
+  };
+
+  // Period-over-period comparison - ghost bars or a dashed series on charts, a delta on cards
+  const comparisonLabel = getComparisonLabel(config);
+  const hasComparison = !hasMultipleValues && chartData.some((d) => typeof d.comparison === "number");
+  const hasAnalytics = chartData.some((d) => ANALYTICS_KEYS.some((key) => typeof d[key] === "number"));
+
+  const getPointFill = (key: string, entry: ChartDataPoint, fallback: string) =>
+    getCellFormat(key, entry[key]).color || fallback;
+
+  // Line dots coloured per point by the series' formatting rules
+  const renderPointDot = (key: string, fallback: string) =>
+    (props: { cx?: number; cy?: number; index?: number; payload?: ChartDataPoint }) => (
+      <circle
+        key={`dot-${key}-${props.index}`}
+        cx={props.cx}
+        cy={props.cy}
+        r={4}
+        fill={props.payload ? getPointFill(key, props.payload, fallback) : fallback}
+        stroke={fallback}
+        strokeWidth={2}
+      />
+    );
+
+  // Card value, coloured and prefixed with an icon by the value's formatting rules
+  const renderCardValue = (total: number) => {
+    const format = getCellFormat("value", total);
+    return (
+      <div
+        className="font-bold text-center leading-tight w-full flex items-center justify-center gap-2 overflow-hidden"
+        style={{
+          color: format.color || properties.primaryColor,
+          fontSize: Math.min(Math.max(24, properties.fontSize * 2.5), 48),
+        }}
+      >
+        {format.icon && <ConditionalIcon name={format.icon.name} color={format.icon.color} className="h-6 w-6" />}
+        <span className="truncate">{formatValue(total)}</span>
+      </div>
+    );
+  };
+
+  // Reference lines and target bands across the value axis; computed lines read
+  // the plotted values of their field (see referenceLines.ts)
+  const renderReferenceLines = () =>
+    (properties.referenceLines || []).flatMap((rule, index) => {
+      const field = rule.field.toLowerCase();
+      const key = valueKeys.find((k) => k === field || getSeriesLabel(k)?.toLowerCase() === field);
+      const isComputed = rule.type !== "constant" && rule.type !== "band";
+      if (isComputed && !key) return [];
+
+      const values = key ? chartData.map((d) => d[key]).filter((v): v is number => typeof v === "number") : [];
+      const position = getReferenceLineValue(rule, values);
+      if (!position) return [];
+
+      const color = rule.color || DEFAULT_REFERENCE_COLOR;
+      const name = getReferenceLineName(rule);
+      const label = { position: "insideTopRight" as const, fill: color, fontSize: properties.fontSize - 2 };
+      if (position.y2 !== undefined) {
+        return [
+          <ReferenceArea
+            key={`reference-${index}`}
+            y1={position.y}
+            y2={position.y2}
+            fill={color}
+            fillOpacity={0.12}
+            ifOverflow="extendDomain"
+            label={{ ...label, value: `${name}: ${formatValue(position.y, key)} - ${formatValue(position.y2, key)}` }}
+          />,
+        ];
+      }
+      return [
+        <ReferenceLine
+          key={`reference-${index}`}
+          y={position.y}
+          stroke={color}
+          strokeWidth={1.5}
+          strokeDasharray={isComputed ? "6 4" : undefined}
+          ifOverflow="extendDomain"
+          label={{ ...label, value: `${name}: ${formatValue(position.y, key)}` }}
+        />,
+      ];
+    });
+
+  // Rises are good unless the card's measure is one where lower is better (costs)
+  const getChangeClass = (delta: number) =>
+    delta === 0 ? "text-muted-foreground" : (delta > 0) !== !!config?.lowerIsBetter ? "text-green-600" : "text-red-600";
+
+  // Card change against the comparison period: delta, % change and the compared value
+  const renderCardComparison = (total: number) => {
+    if (!config?.comparison || config.comparison === "none") return null;
+    const fontSize = Math.max(12, properties.fontSize - 2);
+    const previous = chartData[0]?.comparison;
+    if (typeof previous !== "number") {
+      return (
+        <div
+          className="text-muted-foreground mt-1 text-center truncate w-full"
+          style={{ fontSize }}
+          title="Previous period needs a date filter with a start and end; last year needs any date filter"
+        >
+          No comparison period
+        </div>
+      );
     }
-    return highlightedValue === name;
+
+    const change = getValueChange(total, previous);
+    const sign = change.delta > 0 ? "+" : change.delta < 0 ? "-" : "";
+    const ChangeIcon = change.delta > 0 ? TrendingUp : change.delta < 0 ? TrendingDown : Minus;
+    return (
+      <div className="flex flex-col items-center mt-1 w-full overflow-hidden" style={{ fontSize }}>
+        <div className={`flex items-center justify-center gap-1 ${getChangeClass(change.delta)}`}>
+          <ChangeIcon className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate">
+            {sign}{formatValue(Math.abs(change.delta))}
+            {change.percent !== null && ` (${sign}${Math.abs(change.percent).toFixed(1)}%)`}
+          </span>
+        </div>
+        <div className="text-muted-foreground truncate w-full text-center">
+          vs {comparisonLabel}: {formatValue(previous)}
+        </div>
+      </div>
+    );
+  };
+
+  // Line and area charts split by date have period starts as categories (see timeAxis.ts)
+  const timeGranularity = (type === "line" || type === "area") && config?.dateGranularity && config.dateGranularity !== "none"
+    ? config.dateGranularity
+    : null;
+
+  // Tooltip title of a time-series point; forecast periods are flagged
+  const formatTimeLabel = (label: unknown, payload?: { payload?: ChartDataPoint }[]) => {
+    const text = formatPeriodLabel(String(label), timeGranularity!);
+    return payload?.[0]?.payload?.isForecast ? `${text} (forecast)` : text;
   };
 
+  // Trend, moving average and forecast of a single-series time axis: lines on line
+  // charts, unfilled areas on area charts, and the forecast's confidence band
+  const renderAnalyticsSeries = (isAreaChart: boolean) => {
+    const series = [
+      { key: "trend", name: "Trend", color: "hsl(var(--muted-foreground))", dash: "2 4" },
+      { key: "movingAverage", name: `${config?.movingAverage}-period average`, color: CHART_COLORS[2], dash: undefined },
+      { key: "forecast", name: "Forecast", color: properties.primaryColor, dash: "6 4" },
+    ].filter(({ key }) => chartData.some((d) => typeof d[key] === "number"));
+
+    const band = chartData.some((d) => d.isForecast) && (
+      <Area
+        key="forecast-band"
+        type="monotone"
+        dataKey={(d: ChartDataPoint) => (typeof d.forecastLower === "number" ? [d.forecastLower, d.forecastUpper] : null)}
+        name="Forecast range"
+        stroke="none"
+        fill={properties.primaryColor}
+        fillOpacity={0.15}
+        legendType="none"
+        isAnimationActive={false}
+      />
+    );
+
+    return [
+      band,
+      ...series.map(({ key, name, color, dash }) =>
+        isAreaChart ? (
+          <Area
+            key={key}
+            type="monotone"
+            dataKey={key}
+            name={name}
+            stroke={color}
+            strokeDasharray={dash}
+            strokeWidth={2}
+            fill="none"
+            animationDuration={properties.animationDuration}
+          />
+        ) : (
+          <Line
+            key={key}
+            type="monotone"
+            dataKey={key}
+            name={name}
+            stroke={color}
+            strokeDasharray={dash}
+            strokeWidth={2}
+            dot={false}
+            animationDuration={properties.animationDuration}
+          />
+        )
+      ),
+    ];
+  };
+
+  // Category axis; time series get chronological ticks formatted to their granularity
+  const renderCategoryAxis = () =>
+    timeGranularity ? (
+      <XAxis
+        dataKey="name"
+        tick={{ fontSize: Math.max(8, properties.fontSize - 3) }}
+        stroke="hsl(var(--muted-foreground))"
+        interval="preserveStartEnd"
+        minTickGap={16}
+        tickFormatter={(value) => formatPeriodTick(String(value), timeGranularity)}
+      />
+    ) : (
+      <XAxis
+        dataKey="name"
+        tick={{ fontSize: Math.max(8, properties.fontSize - 3) }}
+        stroke="hsl(var(--muted-foreground))"
+        height={60}
+        interval={0}
+        angle={-35}
+        textAnchor="end"
+        tickFormatter={(value) => value.length > 12 ? `${value.slice(0, 12)}...` : value}
+      />
+    );
+
+  const tooltipStyle = {
+    backgroundColor: "hsl(var(--card))",
+    border: "1px solid hsl(var(--border))",
+    borderRadius: properties.borderRadius,
+    fontSize: properties.fontSize - 2,
+  };
+
+  // Waterfall - each bar floats from the running total before it to the one after,
+  // with an optional closing total bar
+  const renderWaterfall = () => {
+    let running = 0;
+    const steps = chartData.map((d) => {
+      const start = running;
+      running += d.value;
+      return {
+        name: d.name,
+        value: d.value,
+        base: Math.min(start, running),
+        delta: Math.abs(d.value),
+        fill: d.value >= 0 ? "#22c55e" : "#ef4444",
+        isTotal: false,
+      };
+    });
+    if (config?.showWaterfallTotal !== false && steps.length > 0) {
+      steps.push({
+        name: "Total",
+        value: running,
+        base: Math.min(0, running),
+        delta: Math.abs(running),
+        fill: properties.primaryColor,
+        isTotal: true,
+      });
+    }
+
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={steps} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis
+            dataKey="name"
+            tick={{ fontSize: Math.max(8, properties.fontSize - 3) }}
+            stroke="hsl(var(--muted-foreground))"
+            height={60}
+            interval={0}
+            angle={-35}
+            textAnchor="end"
+            tickFormatter={(value) => value.length > 12 ? `${value.slice(0, 12)}...` : value}
+          />
+          <YAxis
+            tick={{ fontSize: properties.fontSize - 2 }}
+            stroke="hsl(var(--muted-foreground))"
+            tickFormatter={formatAxisTick}
+          />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            formatter={(_, __, item) => [formatValue(item.payload.value), valueFieldNames[0] || "Value"]}
+          />
+          <ReferenceLine y={0} stroke="hsl(var(--border))" />
+          <Bar dataKey="base" stackId="waterfall" fill="transparent" tooltipType="none" isAnimationActive={false} />
+          <Bar
+            dataKey="delta"
+            stackId="waterfall"
+            animationDuration={properties.animationDuration}
+            label={properties.showDataLabels
+              ? { position: "top", fontSize: properties.fontSize - 2, formatter: (_: number, __: unknown, index: number) => formatValue(steps[index]?.value) }
+              : false}
+            onClick={(entry: { isTotal?: boolean }) => !entry.isTotal && handleBarClick(entry)}
+            cursor={onDataClick ? "pointer" : undefined}
+          >
+            {steps.map((entry, index) => (
+              <Cell
+                key={`cell-${index}`}
+                fill={entry.fill}
+                opacity={entry.isTotal || isHighlighted(entry.name) ? 1 : 0.3}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    );
+  };
+
+  // Treemap - one rectangle per group, or the group's details nested inside it
+  const renderTreemap = () => {
+    const nested = data.some((d) => d.detail !== undefined);
+    const groups = new Map<string, TreemapItem>();
+    data.forEach((point) => {
+      if (!groups.has(point.category)) {
+        groups.set(point.category, {
+          name: point.category,
+          group: point.category,
+          size: 0,
+          fill: CHART_COLORS[groups.size % CHART_COLORS.length],
+          children: nested ? [] : undefined,
+        });
+      }
+      const group = groups.get(point.category)!;
+      const size = Math.abs(point.value);
+      if (group.children) {
+        group.children.push({ name: String(point.detail ?? point.category), group: group.name, size, fill: group.fill });
+      } else {
+        group.size += size;
+      }
+    });
+
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <Treemap
+          data={Array.from(groups.values())}
+          dataKey="size"
+          aspectRatio={4 / 3}
+          isAnimationActive={false}
+          content={<TreemapTile fontSize={properties.fontSize} nested={nested} isHighlighted={isHighlighted} />}
+          onClick={(node) => onDataClick?.("category", String((node as unknown as TreemapItem).group ?? node.name))}
+        >
+          <Tooltip contentStyle={tooltipStyle} formatter={(value) => formatValue(value)} />
+        </Treemap>
+      </ResponsiveContainer>
+    );
+  };
+
+  // Funnel - dimension values largest first, or measure stages in their configured order
+  const renderFunnel = () => {
+    const byMeasures = config?.funnelStages === "measures";
+    const stages = byMeasures ? chartData : [...chartData].sort((a, b) => b.value - a.value);
+    const firstValue = stages[0]?.value || 0;
+    const funnelData = stages.map((d, index) => ({
+      name: d.name,
+      value: d.value,
+      fill: CHART_COLORS[index % CHART_COLORS.length],
+      label: firstValue ? `${shortenLabel(d.name)} (${((d.value / firstValue) * 100).toFixed(0)}%)` : shortenLabel(d.name),
+    }));
+
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <FunnelChart margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+          <Tooltip
+            contentStyle={tooltipStyle}
+            formatter={(value, _, item) => byMeasures
+              ? getNumberFormatter(item.payload.name, properties.numberFormat)(value)
+              : formatValue(value)}
+          />
+          <Funnel
+            dataKey="value"
+            data={funnelData}
+            isAnimationActive
+            animationDuration={properties.animationDuration}
+            onClick={byMeasures ? undefined : handleBarClick}
+            cursor={onDataClick && !byMeasures ? "pointer" : undefined}
+          >
+            {funnelData.map((entry, index) => (
+              <Cell
+                key={`cell-${index}`}
+                fill={entry.fill}
+                opacity={byMeasures || isHighlighted(entry.name) ? 1 : 0.3}
+              />
+            ))}
+            <LabelList
+              position="right"
+              fill="hsl(var(--foreground))"
+              stroke="none"
+              dataKey="label"
+              fontSize={properties.fontSize - 2}
+            />
+          </Funnel>
+        </FunnelChart>
+      </ResponsiveContainer>
+    );
+  };
+
+  // Scatter - x = value, y = value2, bubble size = value3; manual data without
+  // a second value plots against its row index
+  const renderScatter = () => {
+    const hasY = chartData.some((d) => d.value2 !== undefined);
+    const hasSize = chartData.some((d) => d.value3 !== undefined);
+    const scatterData = chartData.map((d, index) => ({
+      name: d.name,
+      x: hasY ? d.value : index,
+      y: hasY ? d.value2 ?? 0 : d.value,
+      z: d.value3 ?? 0,
+    }));
+    const xName = hasY ? valueFieldNames[0] || "X" : "Index";
+    const yName = hasY ? valueFieldNames[1] || "Y" : valueFieldNames[0] || "Value";
+    const axisLabelStyle = { fontSize: properties.fontSize - 2, fill: "hsl(var(--muted-foreground))" };
+    const scatterKeys: Record<string, string> = { x: "value", y: hasY ? "value2" : "value", z: "value3" };
+
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <ScatterChart margin={{ top: 20, right: 30, left: 10, bottom: 20 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis
+            type="number"
+            dataKey="x"
+            name={xName}
+            tick={{ fontSize: properties.fontSize - 2 }}
+            stroke="hsl(var(--muted-foreground))"
+            tickFormatter={hasY ? formatAxisTick : undefined}
+            label={{ value: xName, position: "insideBottom", offset: -10, ...axisLabelStyle }}
+          />
+          <YAxis
+            type="number"
+            dataKey="y"
+            name={yName}
+            tick={{ fontSize: properties.fontSize - 2 }}
+            stroke="hsl(var(--muted-foreground))"
+            tickFormatter={(value) => getValueFormatter(hasY ? "value2" : "value")(value, { compact: true })}
+            label={{ value: yName, angle: -90, position: "insideLeft", ...axisLabelStyle }}
+          />
+          <ZAxis type="number" dataKey="z" name={valueFieldNames[2] || "Size"} range={hasSize ? [40, 400] : [64, 64]} />
+          <Tooltip
+            cursor={{ strokeDasharray: "3 3" }}
+            content={({ active, payload }) => {
+              if (!active || !payload?.length) return null;
+              return (
+                <div className="px-2 py-1.5" style={tooltipStyle}>
+                  <div className="font-medium">{payload[0].payload.name}</div>
+                  {payload
+                    .filter((item) => hasSize || item.dataKey !== "z")
+                    .map((item) => (
+                      <div key={String(item.dataKey)}>
+                        {item.name}: {item.dataKey === "x" && !hasY ? item.value : formatValue(item.value, scatterKeys[String(item.dataKey)])}
+                      </div>
+                    ))}
+                </div>
+              );
+            }}
+          />
+          {properties.showLegend && <Legend formatter={shortenLabel} />}
+          <Scatter
+            name={valueFieldNames[0] || "Values"}
+            data={scatterData}
+            fill={properties.primaryColor}
+            animationDuration={properties.animationDuration}
+            onClick={(point: { payload?: { name: string } }) => point.payload && onDataClick?.("category", point.payload.name)}
+            cursor={onDataClick ? "pointer" : undefined}
+          >
+            {scatterData.map((entry, index) => (
+              <Cell
+                key={`cell-${index}`}
+                fill={properties.primaryColor}
+                opacity={isHighlighted(entry.name) ? 1 : 0.3}
+              />
+            ))}
+          </Scatter>
+        </ScatterChart>
+      </ResponsiveContainer>
+    );
+  };
+
+  // Histograms: the measure's bins along x, the rows in each up the y axis (see distribution.ts)
+  const renderHistogram = () => {
+    const formatMeasure = getNumberFormatter(config?.measure, properties.numberFormat);
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 20, right: 30, left: 0, bottom: 5 }} barCategoryGap={1}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" vertical={false} />
+          <XAxis
+            dataKey="binStart"
+            tick={{ fontSize: Math.max(8, properties.fontSize - 3) }}
+            stroke="hsl(var(--muted-foreground))"
+            tickFormatter={(value) => formatMeasure(value, { compact: true })}
+          />
+          <YAxis
+            allowDecimals={false}
+            tick={{ fontSize: properties.fontSize - 2 }}
+            stroke="hsl(var(--muted-foreground))"
+          />
+          <Tooltip
+            contentStyle={tooltipStyle}
+            labelFormatter={(_, payload) => {
+              const bin = payload?.[0]?.payload as DataPoint | undefined;
+              return bin ? `${formatMeasure(bin.binStart)} – ${formatMeasure(bin.binEnd)}` : "";
+            }}
+            formatter={(value) => [Number(value).toLocaleString(), "Rows"]}
+          />
+          <Bar
+            dataKey="value"
+            name="Rows"
+            fill={properties.primaryColor}
+            radius={[properties.borderRadius / 2, properties.borderRadius / 2, 0, 0]}
+            animationDuration={properties.animationDuration}
+            label={properties.showDataLabels ? { position: "top", fontSize: properties.fontSize - 2 } : false}
+          />
+        </BarChart>
+      </ResponsiveContainer>
+    );
+  };
+
+  const renderCardStatus = (point?: DataPoint) => {
+    const status = point && getTargetStatus(point, config);
+    if (!status) return null;
+    return (
+      <div
+        className={`mt-1 inline-flex items-center gap-1.5 rounded-full px-2 py-0.5 font-medium max-w-full ${TARGET_STATUS_CLASSES[status]}`}
+        style={{ fontSize: Math.max(11, properties.fontSize - 3) }}
+      >
+        <span className="h-2 w-2 rounded-full bg-current flex-shrink-0" />
+        <span className="truncate">
+          {targetStatusLabels[status]} · {Math.round(getTargetPercent(point)!)}% of {formatValue(point.target)}
+        </span>
+      </div>
+    );
+  };
+
+  // Card sparkline of the measure per period of the card's date granularity
+  const renderCardSparkline = (points: DataPoint[]) => {
+    if (points.length < 2 || !config?.dateGranularity || config.dateGranularity === "none") return null;
+    const granularity = config.dateGranularity;
+    return (
+      <div className="w-full h-10 mt-2 flex-shrink-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={points} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+            <XAxis dataKey="category" hide />
+            <Tooltip
+              contentStyle={tooltipStyle}
+              formatter={(value) => formatValue(value)}
+              labelFormatter={(label) => formatPeriodLabel(String(label), granularity)}
+            />
+            <Area
+              type="monotone"
+              dataKey="value"
+              name={config.measure}
+              stroke={properties.primaryColor}
+              fill={properties.primaryColor}
+              fillOpacity={0.15}
+              strokeWidth={1.5}
+              isAnimationActive={false}
+            />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  };
+
+  // Multi-row card: one row per measure in its own number format, with its change
+  const renderMultiRowCard = () => (
+    <div className="flex flex-col h-full w-full overflow-hidden">
+      {properties.showTitle && (
+        <div
+          className="text-muted-foreground mb-1 truncate flex-shrink-0"
+          style={{ fontSize: Math.max(12, properties.fontSize) }}
+        >
+          {properties.title}
+        </div>
+      )}
+      <div className="flex-1 min-h-0 overflow-auto divide-y divide-border/50">
+        {data.map((point) => {
+          const change = typeof point.comparison === "number" ? getValueChange(point.value, point.comparison) : null;
+          return (
+            <div key={point.id} className="flex items-baseline justify-between gap-3 py-2 px-1">
+              <span className="text-muted-foreground truncate" style={{ fontSize: Math.max(12, properties.fontSize - 1) }}>
+                {point.category}
+              </span>
+              <span className="flex items-baseline gap-2 flex-shrink-0">
+                {change && change.percent !== null && (
+                  <span className={`text-xs ${getChangeClass(change.delta)}`} title={`vs ${comparisonLabel}`}>
+                    {change.delta > 0 ? "+" : change.delta < 0 ? "-" : ""}{Math.abs(change.percent).toFixed(1)}%
+                  </span>
+                )}
+                <span
+                  className="font-semibold"
+                  style={{ color: properties.primaryColor, fontSize: Math.max(16, properties.fontSize * 1.5) }}
+                >
+                  {getNumberFormatter(point.category, properties.numberFormat, config?.calculation)(point.value)}
+                </span>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  // Config-driven cards arrive already reduced by the card's calculation, followed by
+  // their sparkline points (see queryEngine); manual data is summed as before
+  const renderCard = () => {
+    if (config?.cardVariant === "multiRow") return renderMultiRowCard();
+    const headline = data.filter((d) => !d.isSparkline);
+    const cardTotal = headline.reduce((acc, d) => acc + d.value, 0);
+
+    return (
+      <div className="flex flex-col items-center justify-center h-full w-full p-2 overflow-hidden">
+        {properties.showTitle && (
+          <div 
+            className="text-muted-foreground mb-1 text-center truncate w-full"
+            style={{ fontSize: Math.max(12, properties.fontSize) }}
+          >
+            {properties.title}
+          </div>
+        )}
+        {renderCardValue(cardTotal)}
+        {renderCardStatus(headline[0])}
+        {renderCardComparison(cardTotal)}
+        {renderCardSparkline(data.filter((d) => d.isSparkline))}
+      </div>
+    );
+  };
+
+  // Table columns: the configured fields in their order, or every field of manually entered data
+  const configuredColumns = (config?.selectedColumns || []).filter((column) => data.length > 0 && column in data[0]);
+  const tableColumns = configuredColumns.length > 0
+    ? configuredColumns
+    : data.length > 0 ? Object.keys(data[0]).filter((key) => key !== "id") : ["category", "value"];
+
   const renderChart = () => {
     switch (type) {
-      case "bar":
-        const isStacked = properties.barChartMode === "stacked" && hasMultipleValues;
+      case "bar": {
+        // Stacked and 100% stacked apply once there are several series (measures or legend values)
+        const isStacked = (properties.barChartMode === "stacked" || properties.barChartMode === "percent") && hasMultipleValues;
         const legendPosition = properties.legendPosition || "bottom";
         const legendLayout = legendPosition === "left" || legendPosition === "right" ? "vertical" : "horizontal";
         const legendAlign = legendPosition === "left" ? "left" : legendPosition === "right" ? "right" : "center";
@@ -112,7 +922,11 @@ export function VisualPreview({
         
         return (
           <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={chartData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+            <BarChart
+              data={chartData}
+              margin={{ top: 20, right: 30, left: 0, bottom: 5 }}
+              stackOffset={isStacked && properties.barChartMode === "percent" ? "expand" : undefined}
+            >
               <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
               <XAxis
                 dataKey="name"
@@ -127,6 +941,7 @@ export function VisualPreview({
               <YAxis
                 tick={{ fontSize: properties.fontSize - 2 }}
                 stroke="hsl(var(--muted-foreground))"
+                tickFormatter={isStacked && properties.barChartMode === "percent" ? (value) => `${Math.round(value * 100)}%` : formatAxisTick}
               />
               <Tooltip
                 contentStyle={{
@@ -135,60 +950,68 @@ export function VisualPreview({
                   borderRadius: properties.borderRadius,
                   fontSize: properties.fontSize - 2,
                 }}
+                formatter={formatTooltipValue}
               />
-              {(properties.showLegend || hasMultipleValues) && (
+              {(properties.showLegend || hasMultipleValues || hasComparison) && (
                 <Legend 
+                  formatter={shortenLabel}
                   layout={legendLayout}
                   align={legendAlign}
                   verticalAlign={legendVerticalAlign}
                   wrapperStyle={legendPosition === "left" || legendPosition === "right" ? { paddingLeft: 10, paddingRight: 10 } : {}}
                 />
               )}
+              {/* Comparison period as a faded bar beside each category's bar */}
+              {hasComparison && (
+                <Bar
+                  dataKey="comparison"
+                  name={comparisonLabel}
+                  fill={properties.primaryColor}
+                  fillOpacity={0.3}
+                  radius={[properties.borderRadius / 2, properties.borderRadius / 2, 0, 0]}
+                  animationDuration={properties.animationDuration}
+                />
+              )}
               {/* Render multiple bars for multiple values */}
               {valueKeys.map((key, idx) => (
                 <Bar
                   key={key}
                   dataKey={key}
                   name={valueFieldNames[idx] || key}
-                  fill={CHART_COLORS[idx % CHART_COLORS.length]}
+                  fill={getSeriesColor(idx)}
                   stackId={isStacked ? "stack" : undefined}
                   radius={isStacked ? (idx === valueKeys.length - 1 ? [properties.borderRadius / 2, properties.borderRadius / 2, 0, 0] : 0) : [properties.borderRadius / 2, properties.borderRadius / 2, 0, 0]}
                   animationDuration={properties.animationDuration}
-                  label={!hasMultipleValues && properties.showDataLabels ? { position: "top", fontSize: properties.fontSize - 2 } : false}
+                  label={!hasMultipleValues && properties.showDataLabels ? { position: "top", fontSize: properties.fontSize - 2, formatter: formatValue } : false}
                   onClick={handleBarClick}
                   cursor={onDataClick ? "pointer" : undefined}
                 >
-                  {!hasMultipleValues && chartData.map((entry, index) => (
+                  {(!hasMultipleValues || hasFieldRules(key)) && chartData.map((entry, index) => (
                     <Cell 
                       key={`cell-${index}`} 
-                      fill={properties.primaryColor}
+                      fill={getPointFill(key, entry, hasMultipleValues ? getSeriesColor(idx) : properties.primaryColor)}
                       opacity={isHighlighted(entry.name) ? 1 : 0.3}
                     />
                   ))}
                 </Bar>
               ))}
+              {/* Value-axis lines mean nothing on a 0-100% axis */}
+              {!(isStacked && properties.barChartMode === "percent") && renderReferenceLines()}
             </BarChart>
           </ResponsiveContainer>
         );
+      }
 
       case "line":
         return (
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={chartData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+            <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }} onClick={handleAxisClick}>
               <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-              <XAxis
-                dataKey="name"
-                tick={{ fontSize: Math.max(8, properties.fontSize - 3) }}
-                stroke="hsl(var(--muted-foreground))"
-                height={60}
-                interval={0}
-                angle={-35}
-                textAnchor="end"
-                tickFormatter={(value) => value.length > 12 ? `${value.slice(0, 12)}...` : value}
-              />
+              {renderCategoryAxis()}
               <YAxis
                 tick={{ fontSize: properties.fontSize - 2 }}
                 stroke="hsl(var(--muted-foreground))"
+                tickFormatter={formatAxisTick}
               />
               <Tooltip
                 contentStyle={{
@@ -197,18 +1020,53 @@ export function VisualPreview({
                   borderRadius: properties.borderRadius,
                   fontSize: properties.fontSize - 2,
                 }}
+                formatter={formatTooltipValue}
+                labelFormatter={timeGranularity ? formatTimeLabel : undefined}
               />
-              {properties.showLegend && <Legend />}
-              <Line
-                type="monotone"
-                dataKey="value"
-                stroke={properties.primaryColor}
-                strokeWidth={2}
-                dot={{ fill: properties.primaryColor, strokeWidth: 2 }}
-                animationDuration={properties.animationDuration}
-                label={properties.showDataLabels ? { position: "top", fontSize: properties.fontSize - 2 } : undefined}
-              />
-            </LineChart>
+              {(properties.showLegend || hasMultipleValues || hasComparison || hasAnalytics) && <Legend formatter={shortenLabel} />}
+              {hasComparison && (
+                <Line
+                  type="monotone"
+                  dataKey="comparison"
+                  name={comparisonLabel}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeDasharray="5 5"
+                  strokeWidth={2}
+                  dot={false}
+                  animationDuration={properties.animationDuration}
+                />
+              )}
+              {/* One line per legend value when the chart is split; colours follow series order */}
+              {hasMultipleValues ? valueKeys.map((key, idx) => (
+                <Line
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  name={valueFieldNames[idx] || key}
+                  stroke={getSeriesColor(idx)}
+                  strokeWidth={2}
+                  dot={hasFieldRules(key)
+                    ? renderPointDot(key, getSeriesColor(idx))
+                    : { fill: getSeriesColor(idx), strokeWidth: 2 }}
+                  animationDuration={properties.animationDuration}
+                />
+              )) : (
+                <Line
+                  type="monotone"
+                  dataKey="value"
+                  name={valueFieldNames[0]}
+                  stroke={properties.primaryColor}
+                  strokeWidth={2}
+                  dot={hasFieldRules("value")
+                    ? renderPointDot("value", properties.primaryColor)
+                    : { fill: properties.primaryColor, strokeWidth: 2 }}
+                  animationDuration={properties.animationDuration}
+                  label={properties.showDataLabels ? { position: "top", fontSize: properties.fontSize - 2, formatter: formatValue } : undefined}
+                />
+              )}
+              {renderAnalyticsSeries(false)}
+              {renderReferenceLines()}
+            </ComposedChart>
           </ResponsiveContainer>
         );
 
@@ -235,6 +1093,7 @@ export function VisualPreview({
               <YAxis
                 tick={{ fontSize: properties.fontSize - 2 }}
                 stroke="hsl(var(--muted-foreground))"
+                tickFormatter={formatAxisTick}
               />
               <Tooltip
                 contentStyle={{
@@ -243,8 +1102,10 @@ export function VisualPreview({
                   borderRadius: properties.borderRadius,
                   fontSize: properties.fontSize - 2,
                 }}
+                formatter={formatTooltipValue}
               />
               <Legend 
+                formatter={shortenLabel}
                 layout={multiLineLegendLayout}
                 align={multiLineLegendAlign}
                 verticalAlign={multiLineLegendVerticalAlign}
@@ -258,9 +1119,13 @@ export function VisualPreview({
                   name={valueFieldNames[idx] || key}
                   stroke={CHART_COLORS[idx % CHART_COLORS.length]}
                   strokeWidth={2}
-                  dot={{ fill: CHART_COLORS[idx % CHART_COLORS.length], strokeWidth: 2 }}
+                  dot={hasFieldRules(key)
+                    ? renderPointDot(key, CHART_COLORS[idx % CHART_COLORS.length])
+                    : { fill: CHART_COLORS[idx % CHART_COLORS.length], strokeWidth: 2 }}
                   animationDuration={properties.animationDuration}
-                  label={properties.showDataLabels ? { position: "top", fontSize: properties.fontSize - 2 } : undefined}
+                  label={properties.showDataLabels
+                    ? { position: "top", fontSize: properties.fontSize - 2, formatter: (value: unknown) => formatValue(value, key) }
+                    : undefined}
                 />
               ))}
             </LineChart>
@@ -280,7 +1145,7 @@ export function VisualPreview({
                 paddingAngle={2}
                 dataKey="value"
                 animationDuration={properties.animationDuration}
-                label={properties.showDataLabels ? ({ name, percent }) => `${name}: ${(percent * 100).toFixed(0)}%` : false}
+                label={properties.showDataLabels ? ({ name, percent }) => `${shortenLabel(name)}: ${(percent * 100).toFixed(0)}%` : false}
                 labelLine={properties.showDataLabels}
                 onClick={handleBarClick}
                 cursor={onDataClick ? "pointer" : undefined}
@@ -300,8 +1165,9 @@ export function VisualPreview({
                   borderRadius: properties.borderRadius,
                   fontSize: properties.fontSize - 2,
                 }}
+                formatter={formatTooltipValue}
               />
-              {properties.showLegend && <Legend />}
+              {properties.showLegend && <Legend formatter={shortenLabel} />}
             </PieChart>
           </ResponsiveContainer>
         );
@@ -309,21 +1175,13 @@ export function VisualPreview({
       case "area":
         return (
           <ResponsiveContainer width="100%" height="100%">
-            <AreaChart data={chartData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+            <AreaChart data={chartData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }} onClick={handleAxisClick}>
               <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-              <XAxis
-                dataKey="name"
-                tick={{ fontSize: Math.max(8, properties.fontSize - 3) }}
-                stroke="hsl(var(--muted-foreground))"
-                height={60}
-                interval={0}
-                angle={-35}
-                textAnchor="end"
-                tickFormatter={(value) => value.length > 12 ? `${value.slice(0, 12)}...` : value}
-              />
+              {renderCategoryAxis()}
               <YAxis
                 tick={{ fontSize: properties.fontSize - 2 }}
                 stroke="hsl(var(--muted-foreground))"
+                tickFormatter={formatAxisTick}
               />
               <Tooltip
                 contentStyle={{
@@ -332,23 +1190,106 @@ export function VisualPreview({
                   borderRadius: properties.borderRadius,
                   fontSize: properties.fontSize - 2,
                 }}
+                formatter={formatTooltipValue}
+                labelFormatter={timeGranularity ? formatTimeLabel : undefined}
               />
-              {properties.showLegend && <Legend />}
-              <Area
-                type="monotone"
-                dataKey="value"
-                stroke={properties.primaryColor}
-                fill={properties.primaryColor}
-                fillOpacity={0.3}
-                animationDuration={properties.animationDuration}
-              />
+              {(properties.showLegend || hasMultipleValues || hasComparison || hasAnalytics) && <Legend formatter={shortenLabel} />}
+              {hasComparison && (
+                <Area
+                  type="monotone"
+                  dataKey="comparison"
+                  name={comparisonLabel}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeDasharray="5 5"
+                  strokeWidth={2}
+                  fill="none"
+                  animationDuration={properties.animationDuration}
+                />
+              )}
+              {/* Split charts stack one area per legend value */}
+              {hasMultipleValues ? valueKeys.map((key, idx) => (
+                <Area
+                  key={key}
+                  type="monotone"
+                  dataKey={key}
+                  name={valueFieldNames[idx] || key}
+                  stackId="stack"
+                  stroke={getSeriesColor(idx)}
+                  fill={getSeriesColor(idx)}
+                  fillOpacity={0.5}
+                  animationDuration={properties.animationDuration}
+                />
+              )) : (
+                <Area
+                  type="monotone"
+                  dataKey="value"
+                  name={valueFieldNames[0]}
+                  stroke={properties.primaryColor}
+                  fill={properties.primaryColor}
+                  fillOpacity={0.3}
+                  animationDuration={properties.animationDuration}
+                />
+              )}
+              {renderAnalyticsSeries(true)}
+              {renderReferenceLines()}
             </AreaChart>
           </ResponsiveContainer>
         );
 
-      // Gauge removed - no longer supported
+      case "gauge":
+        return <Gauge data={data} config={config} properties={properties} formatValue={getValueFormatter("value")} />;
+
+      case "bullet":
+        return (
+          <BulletChart
+            data={data}
+            config={config}
+            properties={properties}
+            formatValue={getValueFormatter("value")}
+            onDataClick={onDataClick}
+          />
+        );
+
+      case "heatmap":
+        return (
+          <Heatmap
+            data={data}
+            config={config}
+            properties={properties}
+            formatValue={getValueFormatter("value")}
+            onDataClick={onDataClick}
+            isHighlighted={isHighlighted}
+          />
+        );
+
+      case "histogram":
+        return renderHistogram();
+
+      case "boxplot":
+        return (
+          <BoxPlot
+            data={data}
+            config={config}
+            properties={properties}
+            formatValue={getNumberFormatter(config?.measure, properties.numberFormat)}
+            onDataClick={onDataClick}
+            isHighlighted={isHighlighted}
+          />
+        );
 
       case "matrix":
+        // Config-driven matrices are pivoted; manual data keeps the flat Category/Value list
+        if (config && getMatrixLayout(config) && data.some((d) => getMatrixLayout(config)!.measures[0] in d)) {
+          return (
+            <PivotMatrix
+              data={data}
+              config={config}
+              properties={properties}
+              onDataClick={onDataClick}
+              isHighlighted={isHighlighted}
+            />
+          );
+        }
         return (
           <div className="h-full overflow-auto">
             <table className="w-full text-sm">
@@ -371,7 +1312,9 @@ export function VisualPreview({
                       style={{ opacity: isHighlighted(row.name) ? 1 : 0.3 }}
                     >
                       <td className="px-3 py-2">{row.name}</td>
-                      <td className="px-3 py-2 text-right font-mono">{row.value}</td>
+                      <FormattedCell format={getCellFormat("value", row.value)} className="text-right font-mono">
+                        {formatValue(row.value)}
+                      </FormattedCell>
                       <td className="px-3 py-2 text-right">
                         <span
                           className="inline-block px-2 py-0.5 rounded text-xs font-medium"
@@ -389,251 +1332,27 @@ export function VisualPreview({
         );
 
       case "table":
-        // Get all unique keys from the data for dynamic columns
-        const allKeys = data.length > 0 
-          ? Object.keys(data[0]).filter(k => k !== 'id')
-          : ['category', 'value'];
-        
-        // Calculate totals for numeric columns
-        const totals: Record<string, number> = {};
-        if (properties.showTotals) {
-          allKeys.forEach(key => {
-            const values = data.map(row => row[key]).filter(v => typeof v === 'number') as number[];
-            if (values.length > 0) {
-              totals[key] = values.reduce((sum, v) => sum + v, 0);
-            }
-          });
-        }
-        
         return (
-          <div className="h-full overflow-auto">
-            <table className="w-full text-sm">
-              <thead className="sticky top-0 bg-background">
-                <tr className="border-b">
-                  {allKeys.map((key) => (
-                    <th 
-                      key={key} 
-                      className="px-3 py-2 text-left font-medium text-muted-foreground capitalize"
-                    >
-                      {key.replace(/_/g, ' ')}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {data.map((row, i) => (
-                  <tr 
-                    key={i} 
-                    className="border-b border-border/50 hover:bg-secondary/30 cursor-pointer"
-                    onClick={() => onDataClick?.("category", row.category)}
-                    style={{ opacity: isHighlighted(row.category) ? 1 : 0.3 }}
-                  >
-                    {allKeys.map((key) => (
-                      <td key={key} className="px-3 py-2">
-                        {typeof row[key] === 'number' 
-                          ? row[key].toLocaleString() 
-                          : String(row[key] ?? '')}
-                      </td>
-                    ))}
-                  </tr>
-                ))}
-              </tbody>
-              {properties.showTotals && Object.keys(totals).length > 0 && (
-                <tfoot className="sticky bottom-0 bg-muted/80 font-medium border-t-2">
-                  <tr>
-                    {allKeys.map((key, idx) => (
-                      <td key={key} className="px-3 py-2">
-                        {idx === 0 && !totals[key] ? "Total" : (totals[key] !== undefined ? totals[key].toLocaleString() : "")}
-                      </td>
-                    ))}
-                  </tr>
-                </tfoot>
-              )}
-            </table>
-          </div>
+          <DataTable
+            data={data}
+            columns={tableColumns}
+            properties={properties}
+            onDataClick={onDataClick}
+            isHighlighted={isHighlighted}
+          />
         );
 
-        // Calculate cumulative values for waterfall
-        let cumulative = 0;
-        const waterfallData = chartData.map((d, i) => {
-          const start = cumulative;
-          cumulative += d.value;
-          return {
-            name: d.name,
-            value: d.value,
-            start,
-            end: cumulative,
-            fill: d.value >= 0 ? "#22c55e" : "#ef4444",
-          };
-        });
-
-        return (
-          <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={waterfallData} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
-              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-              <XAxis
-                dataKey="name"
-                tick={{ fontSize: Math.max(8, properties.fontSize - 3) }}
-                stroke="hsl(var(--muted-foreground))"
-                height={60}
-                interval={0}
-                angle={-35}
-                textAnchor="end"
-                tickFormatter={(value) => value.length > 12 ? `${value.slice(0, 12)}...` : value}
-              />
-              <YAxis
-                tick={{ fontSize: properties.fontSize - 2 }}
-                stroke="hsl(var(--muted-foreground))"
-              />
-              <Tooltip
-                contentStyle={{
-                  backgroundColor: "hsl(var(--card))",
-                  border: "1px solid hsl(var(--border))",
-                  borderRadius: properties.borderRadius,
-                }}
-              />
-              <ReferenceLine y={0} stroke="hsl(var(--border))" />
-              <Bar dataKey="start" stackId="stack" fill="transparent" />
-              <Bar
-                dataKey="value"
-                stackId="stack"
-                animationDuration={properties.animationDuration}
-              >
-                {waterfallData.map((entry, index) => (
-                  <Cell key={`cell-${index}`} fill={entry.fill} />
-                ))}
-              </Bar>
-            </BarChart>
-          </ResponsiveContainer>
-        );
+      case "waterfall":
+        return renderWaterfall();
 
       case "treemap":
-        const treemapData = chartData.map((d, index) => ({
-          name: d.name,
-          size: Math.abs(d.value),
-          fill: CHART_COLORS[index % CHART_COLORS.length],
-        }));
-
-        return (
-          <ResponsiveContainer width="100%" height="100%">
-            <Treemap
-              data={treemapData}
-              dataKey="size"
-              aspectRatio={4 / 3}
-              stroke="hsl(var(--background))"
-              animationDuration={properties.animationDuration}
-            >
-              {treemapData.map((entry, index) => (
-                <Cell 
-                  key={`cell-${index}`} 
-                  fill={entry.fill}
-                  opacity={isHighlighted(entry.name) ? 1 : 0.3}
-                />
-              ))}
-              <Tooltip
-                contentStyle={{
-                  backgroundColor: "hsl(var(--card))",
-                  border: "1px solid hsl(var(--border))",
-                  borderRadius: properties.borderRadius,
-                }}
-              />
-            </Treemap>
-          </ResponsiveContainer>
-        );
+        return renderTreemap();
 
       case "funnel":
-        const funnelData = [...chartData]
-          .sort((a, b) => b.value - a.value)
-          .map((d, index) => ({
-            name: d.name,
-            value: d.value,
-            fill: CHART_COLORS[index % CHART_COLORS.length],
-          }));
-
-        return (
-          <ResponsiveContainer width="100%" height="100%">
-            <FunnelChart margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
-              <Tooltip
-                contentStyle={{
-                  backgroundColor: "hsl(var(--card))",
-                  border: "1px solid hsl(var(--border))",
-                  borderRadius: properties.borderRadius,
-                }}
-              />
-              <Funnel
-                dataKey="value"
-                data={funnelData}
-                isAnimationActive
-                animationDuration={properties.animationDuration}
-              >
-                {funnelData.map((entry, index) => (
-                  <Cell 
-                    key={`cell-${index}`} 
-                    fill={entry.fill}
-                    opacity={isHighlighted(entry.name) ? 1 : 0.3}
-                  />
-                ))}
-                <LabelList
-                  position="right"
-                  fill="hsl(var(--foreground))"
-                  stroke="none"
-                  dataKey="name"
-                  fontSize={properties.fontSize - 2}
-                />
-              </Funnel>
-            </FunnelChart>
-          </ResponsiveContainer>
-        );
+        return renderFunnel();
 
       case "scatter":
-        const scatterData = chartData.map((d, index) => ({
-          x: index,
-          y: d.value,
-          name: d.name,
-        }));
-
-        return (
-          <ResponsiveContainer width="100%" height="100%">
-            <ScatterChart margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
-              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
-              <XAxis
-                type="number"
-                dataKey="x"
-                tick={{ fontSize: properties.fontSize - 2 }}
-                stroke="hsl(var(--muted-foreground))"
-              />
-              <YAxis
-                type="number"
-                dataKey="y"
-                tick={{ fontSize: properties.fontSize - 2 }}
-                stroke="hsl(var(--muted-foreground))"
-              />
-              <Tooltip
-                cursor={{ strokeDasharray: "3 3" }}
-                contentStyle={{
-                  backgroundColor: "hsl(var(--card))",
-                  border: "1px solid hsl(var(--border))",
-                  borderRadius: properties.borderRadius,
-                }}
-              />
-              {properties.showLegend && <Legend />}
-              <Scatter
-                name="Values"
-                data={scatterData}
-                fill={properties.primaryColor}
-                animationDuration={properties.animationDuration}
-              >
-                {scatterData.map((entry, index) => (
-                  <Cell 
-                    key={`cell-${index}`} 
-                    fill={properties.primaryColor}
-                    opacity={isHighlighted(entry.name) ? 1 : 0.3}
-                  />
-                ))}
-              </Scatter>
-            </ScatterChart>
-          </ResponsiveContainer>
-        );
+        return renderScatter();
 
       case "combo":
         return (
@@ -653,6 +1372,7 @@ export function VisualPreview({
               <YAxis
                 tick={{ fontSize: properties.fontSize - 2 }}
                 stroke="hsl(var(--muted-foreground))"
+                tickFormatter={formatAxisTick}
               />
               <Tooltip
                 contentStyle={{
@@ -660,8 +1380,9 @@ export function VisualPreview({
                   border: "1px solid hsl(var(--border))",
                   borderRadius: properties.borderRadius,
                 }}
+                formatter={formatTooltipValue}
               />
-              {properties.showLegend && <Legend />}
+              {properties.showLegend && <Legend formatter={shortenLabel} />}
               <Bar
                 dataKey="value"
                 fill={properties.primaryColor}
@@ -671,7 +1392,7 @@ export function VisualPreview({
                 {chartData.map((entry, index) => (
                   <Cell 
                     key={`cell-${index}`} 
-                    fill={properties.primaryColor}
+                    fill={getPointFill("value", entry, properties.primaryColor)}
                     opacity={isHighlighted(entry.name) ? 1 : 0.3}
                   />
                 ))}
@@ -681,53 +1402,18 @@ export function VisualPreview({
                 dataKey="value"
                 stroke={CHART_COLORS[1]}
                 strokeWidth={2}
-                dot={{ fill: CHART_COLORS[1], strokeWidth: 2 }}
+                dot={hasFieldRules("value")
+                  ? renderPointDot("value", CHART_COLORS[1])
+                  : { fill: CHART_COLORS[1], strokeWidth: 2 }}
                 animationDuration={properties.animationDuration}
               />
+              {renderReferenceLines()}
             </ComposedChart>
           </ResponsiveContainer>
         );
 
       case "card":
-        const cardTotal = chartData.reduce((acc, d) => acc + d.value, 0);
-        const cardChange = chartData.length >= 2 
-          ? ((chartData[chartData.length - 1].value - chartData[0].value) / Math.max(chartData[0].value, 1)) * 100
-          : 0;
-
-        return (
-          <div className="flex flex-col items-center justify-center h-full w-full p-2 overflow-hidden">
-            {properties.showTitle && (
-              <div 
-                className="text-muted-foreground mb-1 text-center truncate w-full"
-                style={{ fontSize: Math.max(12, properties.fontSize) }}
-              >
-                {properties.title}
-              </div>
-            )}
-            <div 
-              className="font-bold text-center leading-tight truncate w-full"
-              style={{ 
-                color: properties.primaryColor,
-                fontSize: Math.min(Math.max(24, properties.fontSize * 2.5), 48),
-              }}
-            >
-              {cardTotal.toLocaleString()}
-            </div>
-            <div 
-              className={`flex items-center justify-center gap-1 mt-1 ${cardChange >= 0 ? "text-green-600" : "text-red-600"}`}
-              style={{ fontSize: Math.max(12, properties.fontSize) }}
-            >
-              {cardChange > 0 ? (
-                <TrendingUp className="h-4 w-4 flex-shrink-0" />
-              ) : cardChange < 0 ? (
-                <TrendingDown className="h-4 w-4 flex-shrink-0" />
-              ) : (
-                <Minus className="h-4 w-4 flex-shrink-0" />
-              )}
-              <span className="truncate">{Math.abs(cardChange).toFixed(1)}%</span>
-            </div>
-          </div>
-        );
+        return renderCard();
 
       default:
         return null;
@@ -750,7 +1436,37 @@ export function VisualPreview({
           {properties.title}
         </h3>
       )}
-      <div className="flex-1 min-h-0 overflow-hidden">{renderChart()}</div>
+      <div className="flex-1 min-h-0 overflow-hidden relative">
+        {status === "loading" ? (
+          <div className="h-full flex items-center justify-center gap-2 text-muted-foreground text-sm">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading data...
+          </div>
+        ) : status === "error" ? (
+          <div className="h-full flex items-center justify-center gap-2 text-destructive text-sm">
+            <AlertCircle className="h-4 w-4" />
+            Failed to load data
+          </div>
+        ) : renderChart()}
+        {truncation && !status && (
+          <span
+            className="absolute top-0 right-0 px-1.5 py-0.5 rounded bg-muted/80 text-muted-foreground text-[10px]"
+            title={truncation.others
+              ? `The other ${truncation.total - truncation.shown} are combined into "Others"`
+              : `${truncation.total - truncation.shown} more are not shown`}
+          >
+            {truncation.mode === "top" ? "Top" : "Bottom"} {truncation.shown} of {truncation.total}
+          </span>
+        )}
+        {rowLimit && !status && (
+          <span
+            className="absolute top-0 right-0 px-1.5 py-0.5 rounded bg-muted/80 text-muted-foreground text-[10px]"
+            title={`More rows match the filters; only the latest ${rowLimit.toLocaleString()} are loaded`}
+          >
+            Latest {rowLimit.toLocaleString()} rows
+          </span>
+        )}
+      </div>
     </div>
   );
 }
@@ -9,7 +9,12 @@ import {
   Triangle,
   CircleDot,
   Layers,
-  CreditCard
+  CreditCard,
+  Gauge,
+  Target,
+  CalendarDays,
+  BarChartBig,
+  CandlestickChart
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -26,7 +31,12 @@ export type VisualType =
   | "funnel"
   | "scatter"
   | "combo"
-  | "card";
+  | "card"
+  | "gauge"
+  | "bullet"
+  | "heatmap"
+  | "histogram"
+  | "boxplot";
 
 interface VisualTypeSelectorProps {
   selected: VisualType;
@@ -41,12 +51,17 @@ const visualTypes: { type: VisualType; icon: React.ElementType; label: string; d
   { type: "area", icon: TrendingUp, label: "Area Chart" },
   { type: "matrix", icon: Grid3X3, label: "Matrix" },
   { type: "table", icon: Table2, label: "Table" },
-  { type: "waterfall", icon: GitBranch, label: "Waterfall", disabled: true },
-  { type: "treemap", icon: Layers, label: "Treemap", disabled: true },
-  { type: "funnel", icon: Triangle, label: "Funnel", disabled: true },
-  { type: "scatter", icon: CircleDot, label: "Scatter", disabled: true },
+  { type: "waterfall", icon: GitBranch, label: "Waterfall" },
+  { type: "treemap", icon: Layers, label: "Treemap" },
+  { type: "funnel", icon: Triangle, label: "Funnel" },
+  { type: "scatter", icon: CircleDot, label: "Scatter" },
+  { type: "heatmap", icon: CalendarDays, label: "Heatmap" },
+  { type: "histogram", icon: BarChartBig, label: "Histogram" },
+  { type: "boxplot", icon: CandlestickChart, label: "Box Plot" },
   { type: "combo", icon: TrendingUp, label: "Combo" },
   { type: "card", icon: CreditCard, label: "Card" },
+  { type: "gauge", icon: Gauge, label: "Gauge" },
+  { type: "bullet", icon: Target, label: "Bullet Chart" },
 ];
 
 export function VisualTypeSelector({ selected, onSelect }: VisualTypeSelectorProps) {
@@ -1,4 +1,4 @@
-import { BarChart3, LineChart, PieChart, Table2, TrendingUp, LayoutGrid, Grid3X3, CreditCard, GitBranch, Triangle, CircleDot, Layers } from "lucide-react";
+import { BarChart3, LineChart, PieChart, Table2, TrendingUp, LayoutGrid, Grid3X3, CreditCard, GitBranch, Triangle, CircleDot, Layers, Gauge, Target, CalendarDays, BarChartBig, CandlestickChart } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "./ui/button";
 import {
@@ -23,7 +23,12 @@ export type VisualizationType =
   | "treemap"
   | "funnel"
   | "scatter"
-  | "combo";
+  | "combo"
+  | "gauge"
+  | "bullet"
+  | "heatmap"
+  | "histogram"
+  | "boxplot";
 
 interface VisualizationOption {
   type: VisualizationType;
@@ -42,10 +47,15 @@ const visualizationOptions: VisualizationOption[] = [
   { type: "matrix", icon: Grid3X3, label: "Matrix", description: "Show data in rows and columns", disabled: true },
   { type: "table", icon: Table2, label: "Table", description: "Display data in tabular format" },
   { type: "card", icon: CreditCard, label: "Card", description: "Display KPI metrics" },
+  { type: "gauge", icon: Gauge, label: "Gauge", description: "Progress towards a target" },
+  { type: "bullet", icon: Target, label: "Bullet Chart", description: "Actual vs target with ranges" },
   { type: "waterfall", icon: GitBranch, label: "Waterfall", description: "Show cumulative effect" },
   { type: "treemap", icon: Layers, label: "Treemap", description: "Hierarchical data display" },
   { type: "funnel", icon: Triangle, label: "Funnel", description: "Conversion flow visualization" },
   { type: "scatter", icon: CircleDot, label: "Scatter", description: "Correlation analysis" },
+  { type: "heatmap", icon: CalendarDays, label: "Heatmap", description: "Patterns by day or across two dimensions" },
+  { type: "histogram", icon: BarChartBig, label: "Histogram", description: "Spread of a measure across rows" },
+  { type: "boxplot", icon: CandlestickChart, label: "Box Plot", description: "Quartiles and outliers per category" },
   { type: "combo", icon: TrendingUp, label: "Combo", description: "Combined chart types" },
 ];
 
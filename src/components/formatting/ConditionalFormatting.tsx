@@ -11,6 +11,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import type { ConditionalRule, RuleCondition } from "@/types/dashboard";
+import { conditionalIconOptions } from "@/utils/conditionalFormatting";
+import { ConditionalIcon } from "./ConditionalIcon";
 
 interface ConditionalFormattingProps {
   rules: ConditionalRule[];
@@ -255,6 +257,28 @@ export function ConditionalFormatting({
                           }
                           className="h-7 w-8 rounded cursor-pointer"
                         />
+                        {rule.type === "icon" && (
+                          <Select
+                            value={condition.icon || "circle"}
+                            onValueChange={(value) =>
+                              updateCondition(ruleIndex, condIndex, { icon: value })
+                            }
+                          >
+                            <SelectTrigger className="h-7 w-14 text-xs">
+                              <ConditionalIcon name={condition.icon || "circle"} color={condition.color} />
+                            </SelectTrigger>
+                            <SelectContent className="bg-popover z-50">
+                              {conditionalIconOptions.map(({ value, label }) => (
+                                <SelectItem key={value} value={value}>
+                                  <span className="flex items-center gap-2">
+                                    <ConditionalIcon name={value} color={condition.color} />
+                                    {label}
+                                  </span>
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
                         {rule.conditions.length > 1 && (
                           <Button
                             size="icon"
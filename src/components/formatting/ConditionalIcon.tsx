@@ -0,0 +1,33 @@
+import { ArrowUp, ArrowDown, ArrowRight, Check, X, AlertTriangle, Circle, Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Keyed by the name stored on RuleCondition.icon (see conditionalIconOptions)
+const conditionalIcons: Record<string, typeof Circle> = {
+  "arrow-up": ArrowUp,
+  "arrow-right": ArrowRight,
+  "arrow-down": ArrowDown,
+  check: Check,
+  alert: AlertTriangle,
+  x: X,
+  circle: Circle,
+  star: Star,
+};
+
+interface ConditionalIconProps {
+  name: string;
+  color?: string;
+  className?: string;
+}
+
+export function ConditionalIcon({ name, color, className }: ConditionalIconProps) {
+  const Icon = conditionalIcons[name] || Circle;
+  const filled = name === "circle" || name === "star";
+
+  return (
+    <Icon
+      className={cn("h-3.5 w-3.5 flex-shrink-0", className)}
+      style={{ color }}
+      fill={filled ? color || "currentColor" : "none"}
+    />
+  );
+}
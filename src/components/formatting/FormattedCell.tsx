@@ -0,0 +1,30 @@
+import type { ReactNode } from "react";
+import { withAlpha, type ConditionalFormat } from "@/utils/conditionalFormatting";
+import { ConditionalIcon } from "./ConditionalIcon";
+
+interface FormattedCellProps {
+  format: ConditionalFormat;
+  className?: string;
+  children: ReactNode;
+}
+
+// Table cell with conditional background, data bar and icon
+export function FormattedCell({ format, className = "", children }: FormattedCellProps) {
+  return (
+    <td
+      className={`relative px-3 py-2 ${className}`}
+      style={format.color ? { backgroundColor: withAlpha(format.color, 0.25) } : undefined}
+    >
+      {format.dataBar && (
+        <div
+          className="absolute inset-y-1 left-0 rounded-sm"
+          style={{ width: `${format.dataBar.percent}%`, backgroundColor: withAlpha(format.dataBar.color, 0.35) }}
+        />
+      )}
+      <span className="relative inline-flex items-center gap-1">
+        {format.icon && <ConditionalIcon name={format.icon.name} color={format.icon.color} />}
+        {children}
+      </span>
+    </td>
+  );
+}
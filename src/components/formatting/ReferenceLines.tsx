@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { Plus, Trash2, Minus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ReferenceLineRule } from "@/types/dashboard";
+import { DEFAULT_REFERENCE_COLOR, getReferenceLineName, referenceLineTypes } from "@/utils/referenceLines";
+
+interface ReferenceLinesProps {
+  lines: ReferenceLineRule[];
+  availableFields: string[];
+  onChange: (lines: ReferenceLineRule[]) => void;
+}
+
+export function ReferenceLines({ lines, availableFields, onChange }: ReferenceLinesProps) {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+  const addLine = () => {
+    const newLine: ReferenceLineRule = {
+      type: "constant",
+      field: availableFields[0] || "value",
+      value: 0,
+      color: DEFAULT_REFERENCE_COLOR,
+    };
+    onChange([...lines, newLine]);
+    setExpandedIndex(lines.length);
+  };
+
+  const removeLine = (index: number) => {
+    onChange(lines.filter((_, i) => i !== index));
+  };
+
+  const updateLine = (index: number, updates: Partial<ReferenceLineRule>) => {
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...updates } : line)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Minus className="h-4 w-4 text-muted-foreground" />
+          <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+            Reference Lines
+          </h3>
+        </div>
+        <Button size="sm" variant="outline" onClick={addLine} className="h-7 text-xs">
+          <Plus className="h-3 w-3 mr-1" />
+          Add Line
+        </Button>
+      </div>
+
+      {lines.length === 0 ? (
+        <div className="text-xs text-muted-foreground text-center py-4 border rounded-lg border-dashed">
+          No reference lines. Add targets, averages or bands to bar, line, area and combo charts.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {lines.map((line, index) => (
+            <div key={index} className="border rounded-lg bg-card overflow-hidden">
+              <div
+                className="flex items-center justify-between p-3 cursor-pointer hover:bg-muted/30 transition-colors"
+                onClick={() => setExpandedIndex(expandedIndex === index ? null : index)}
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <div
+                    className="w-4 h-4 rounded flex-shrink-0"
+                    style={{
+                      backgroundColor: line.type === "band" ? `${line.color || DEFAULT_REFERENCE_COLOR}40` : undefined,
+                      borderTop: line.type === "band" ? undefined : `2px solid ${line.color || DEFAULT_REFERENCE_COLOR}`,
+                    }}
+                  />
+                  <span className="text-sm font-medium truncate">
+                    {getReferenceLineName(line)}
+                    {line.type !== "constant" && line.type !== "band" && ` of ${line.field}`}
+                  </span>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeLine(index);
+                  }}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+
+              {expandedIndex === index && (
+                <div className="p-3 pt-0 space-y-3 border-t">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Type</Label>
+                      <Select
+                        value={line.type}
+                        onValueChange={(value) => updateLine(index, { type: value as ReferenceLineRule["type"] })}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-popover z-50">
+                          {referenceLineTypes.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Field</Label>
+                      <Select value={line.field} onValueChange={(value) => updateLine(index, { field: value })}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-popover z-50">
+                          {availableFields.map((field) => (
+                            <SelectItem key={field} value={field}>
+                              {field}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  {(line.type === "constant" || line.type === "band") && (
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1">
+                        <Label className="text-xs">{line.type === "band" ? "From" : "Value"}</Label>
+                        <Input
+                          type="number"
+                          value={line.value ?? 0}
+                          onChange={(e) => updateLine(index, { value: parseFloat(e.target.value) || 0 })}
+                          className="h-8 text-xs"
+                        />
+                      </div>
+                      {line.type === "band" && (
+                        <div className="space-y-1">
+                          <Label className="text-xs">To</Label>
+                          <Input
+                            type="number"
+                            value={line.value2 ?? 0}
+                            onChange={(e) => updateLine(index, { value2: parseFloat(e.target.value) || 0 })}
+                            className="h-8 text-xs"
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {line.type === "percentile" && (
+                    <div className="space-y-1">
+                      <Label className="text-xs">Percentile</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={line.percentile ?? 90}
+                        onChange={(e) =>
+                          updateLine(index, { percentile: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })
+                        }
+                        className="h-8 text-xs"
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex items-end gap-2">
+                    <div className="space-y-1 flex-1">
+                      <Label className="text-xs">Label</Label>
+                      <Input
+                        value={line.label || ""}
+                        placeholder={getReferenceLineName({ ...line, label: undefined })}
+                        onChange={(e) => updateLine(index, { label: e.target.value || undefined })}
+                        className="h-8 text-xs"
+                      />
+                    </div>
+                    <input
+                      type="color"
+                      value={line.color || DEFAULT_REFERENCE_COLOR}
+                      onChange={(e) => updateLine(index, { color: e.target.value })}
+                      className="h-8 w-8 rounded cursor-pointer"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1 +1,4 @@
 export { ConditionalFormatting } from "./ConditionalFormatting";
+export { ConditionalIcon } from "./ConditionalIcon";
+export { FormattedCell } from "./FormattedCell";
+export { ReferenceLines } from "./ReferenceLines";
@@ -0,0 +1,107 @@
+import { CalendarClock } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { RelativeDatePeriod, RelativeDateSetting, SlicerData } from "@/types/dashboard";
+import { relativeDatePeriods, formatRelativeDateRange } from "@/utils/relativeDates";
+import { SlicerBase } from "./SlicerBase";
+
+interface RelativeDateSlicerProps {
+  slicer: SlicerData;
+  isSelected: boolean;
+  onSelect: () => void;
+  onUpdate: (updates: Partial<SlicerData>) => void;
+  onDelete: () => void;
+  onRelativeDateChange: (setting: RelativeDateSetting | null) => void;
+  relativeDate: RelativeDateSetting | null;
+}
+
+const DEFAULT_COUNTS: Partial<Record<RelativeDatePeriod, number>> = {
+  "last-n-days": 30,
+  "last-n-weeks": 4,
+  "last-n-months": 3,
+};
+
+export function RelativeDateSlicer({
+  slicer,
+  isSelected,
+  onSelect,
+  onUpdate,
+  onDelete,
+  onRelativeDateChange,
+  relativeDate,
+}: RelativeDateSlicerProps) {
+  const periodOption = relativeDatePeriods.find((p) => p.value === relativeDate?.period);
+
+  const handlePeriodChange = (period: string) => {
+    const value = period as RelativeDatePeriod;
+    const option = relativeDatePeriods.find((p) => p.value === value);
+    onRelativeDateChange({
+      period: value,
+      count: option?.hasCount ? relativeDate?.count || DEFAULT_COUNTS[value] : undefined,
+    });
+  };
+
+  const handleCountChange = (raw: string) => {
+    if (!relativeDate) return;
+    const count = parseInt(raw, 10);
+    if (isNaN(count) || count < 1) return;
+    onRelativeDateChange({ ...relativeDate, count });
+  };
+
+  const handleClear = () => {
+    onRelativeDateChange(null);
+    onUpdate({ selectedValues: [] });
+  };
+
+  return (
+    <SlicerBase
+      slicer={{ ...slicer, selectedValues: relativeDate ? ["relative"] : [] }}
+      isSelected={isSelected}
+      onSelect={onSelect}
+      onUpdate={onUpdate}
+      onDelete={onDelete}
+      onClear={handleClear}
+    >
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          {periodOption?.hasCount && (
+            <Input
+              type="number"
+              min={1}
+              value={relativeDate?.count ?? ""}
+              onChange={(e) => handleCountChange(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              className="h-8 w-16 text-sm"
+            />
+          )}
+          <Select value={relativeDate?.period ?? ""} onValueChange={handlePeriodChange}>
+            <SelectTrigger className="h-8 text-sm flex-1">
+              <SelectValue placeholder="Select period..." />
+            </SelectTrigger>
+            <SelectContent className="z-50">
+              {relativeDatePeriods.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Resolved against today's date */}
+        {relativeDate && (
+          <div className="flex items-center justify-center gap-1 text-xs text-muted-foreground py-1 bg-muted/50 rounded">
+            <CalendarClock className="h-3 w-3" />
+            {formatRelativeDateRange(relativeDate)}
+          </div>
+        )}
+      </div>
+    </SlicerBase>
+  );
+}
@@ -3,3 +3,4 @@ export { DropdownSlicer } from "./DropdownSlicer";
 export { ListSlicer } from "./ListSlicer";
 export { DateRangeSlicer } from "./DateRangeSlicer";
 export { NumericRangeSlicer } from "./NumericRangeSlicer";
+export { RelativeDateSlicer } from "./RelativeDateSlicer";
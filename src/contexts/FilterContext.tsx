@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useCallback, useMemo } from "react";
 import type { FilterValue, SlicerData } from "@/types/dashboard";
+import { applyFilters } from "@/utils/queryEngine";
 
 interface FilterContextType {
   filters: FilterValue[];
@@ -100,43 +101,7 @@ export function FilterProvider({ children }: FilterProviderProps) {
   }, [slicers, removeFilter]);
 
   const getFilteredData = useCallback(<T extends Record<string, unknown>>(data: T[]): T[] => {
-    if (filters.length === 0) return data;
-
-    return data.filter((item) => {
-      return filters.every((filter) => {
-        const value = item[filter.field];
-        
-        if (filter.values.length === 0 && !filter.numericRange && !filter.dateRange) return true;
-
-        switch (filter.operator) {
-          case "equals":
-            if (filter.values.length === 0) return true;
-            return filter.values.includes(value as string | number);
-          case "contains":
-            if (filter.values.length === 0) return true;
-            return filter.values.some((v) =>
-              String(value).toLowerCase().includes(String(v).toLowerCase())
-            );
-          case "gt":
-            return Number(value) > Number(filter.values[0]);
-          case "lt":
-            return Number(value) < Number(filter.values[0]);
-          case "gte":
-            return Number(value) >= Number(filter.values[0]);
-          case "lte":
-            return Number(value) <= Number(filter.values[0]);
-          case "between":
-            if (filter.numericRange) {
-              const num = Number(value);
-              return num >= filter.numericRange.min && num <= filter.numericRange.max;
-            }
-            return true;
-          default:
-            if (filter.values.length === 0) return true;
-            return filter.values.includes(value as string | number);
-        }
-      });
-    });
+    return applyFilters(data, filters);
   }, [filters]);
 
   const value = useMemo(
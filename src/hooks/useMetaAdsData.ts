@@ -1,5 +1,9 @@
-import { useQuery } from "@tanstack/react-query";
+import { useCallback, useMemo } from "react";
+import { useIsFetching, useQueries, useQuery, useQueryClient, type UseQueryResult } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { AggregateFilter, AggregateRequest, AggregateRow } from "@/utils/queryEngine";
+import { planFieldValuesQuery } from "@/utils/queryEngine";
 
 export interface MetaAdsCampaign {
   id: string;
@@ -17,49 +21,162 @@ export interface MetaAdsCampaign {
   date: string;
 }
 
+// Every meta_ads_campaigns query is keyed under this prefix so a refresh reloads them all
+export const META_ADS_QUERY_KEY = "meta-ads";
+
+/** Rows matching a set of filters, up to MAX_ROWS */
+export interface MetaAdsRows {
+  rows: MetaAdsCampaign[];
+  truncated: boolean;  // More rows matched than MAX_ROWS; rows holds the latest of them
+}
+
+// Rows per request when paging through meta_ads_rows (PostgREST's default max-rows)
+const ROWS_PAGE_SIZE = 1000;
+
+// Most rows row-level visuals load; beyond it they show the latest rows and say so
+export const MAX_ROWS = 50_000;
+
+const toCampaign = (row: Tables<"meta_ads_campaigns">): MetaAdsCampaign => ({
+  id: row.id,
+  campaign_id: row.campaign_id,
+  campaign_name: row.campaign_name,
+  ad_set_name: row.ad_set_name,
+  impressions: Number(row.impressions),
+  clicks: Number(row.clicks),
+  spend: Number(row.spend),
+  conversions: Number(row.conversions),
+  ctr: Number(row.ctr),
+  cpc: Number(row.cpc),
+  cpm: Number(row.cpm),
+  roas: Number(row.roas),
+  date: row.date,
+});
+
+/** Runs an aggregate request through the aggregate_meta_ads Postgres function */
+export async function fetchAggregate(request: AggregateRequest): Promise<AggregateRow[]> {
+  const { data, error } = await supabase.rpc("aggregate_meta_ads", {
+    p_group_by: request.groupBy,
+    p_granularity: request.granularity,
+    p_measures: request.measures as unknown as Json,
+    p_filters: request.filters as unknown as Json,
+    p_grouping_sets: (request.groupingSets ?? null) as unknown as Json,
+  });
+
+  if (error) {
+    console.error("Error aggregating meta ads data:", error);
+    throw error;
+  }
+
+  return ((data || []) as unknown as AggregateRow[]).map((row) => ({
+    dimensions: row.dimensions,
+    period: row.period,
+    values: row.values.map(Number),
+    rolledUp: row.rolledUp,
+  }));
+}
+
+/**
+ * Loads the rows matching the filters through the meta_ads_rows Postgres function,
+ * latest first, a page at a time after the last row of the previous page, stopping
+ * at MAX_ROWS
+ * @param signal - Aborts the page in flight, e.g. once the filters have changed
+ */
+export async function fetchMetaAdsRows(filters: AggregateFilter[], signal?: AbortSignal): Promise<MetaAdsRows> {
+  const rows: MetaAdsCampaign[] = [];
+
+  while (rows.length < MAX_ROWS) {
+    const last = rows[rows.length - 1];
+    let query = supabase.rpc("meta_ads_rows", {
+      p_filters: filters as unknown as Json,
+      p_after_date: last?.date,
+      p_after_id: last?.id,
+      p_limit: ROWS_PAGE_SIZE,
+    });
+    if (signal) query = query.abortSignal(signal);
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching meta ads rows:", error);
+      throw error;
+    }
+
+    (data || []).forEach((row) => rows.push(toCampaign(row)));
+    if (!data || data.length < ROWS_PAGE_SIZE) return { rows, truncated: false };
+  }
+
+  return { rows, truncated: true };
+}
+
+/**
+ * Counts the rows in meta_ads_campaigns, for the header's record count
+ * Charts, tables and slicers query the server themselves (see useVisualQueries);
+ * refetch reloads all of them.
+ */
 export function useMetaAdsData() {
+  const queryClient = useQueryClient();
+  const isFetching = useIsFetching({ queryKey: [META_ADS_QUERY_KEY] }) > 0;
+
   const query = useQuery({
-    queryKey: ["meta-ads-campaigns"],
-    queryFn: async (): Promise<MetaAdsCampaign[]> => {
-      const { data, error } = await supabase
+    queryKey: [META_ADS_QUERY_KEY, "count"],
+    queryFn: async (): Promise<number> => {
+      const { count, error } = await supabase
         .from("meta_ads_campaigns")
-        .select("*")
-        .order("date", { ascending: false })
-        .limit(500);
+        .select("id", { count: "exact", head: true });
 
       if (error) {
-        console.error("Error fetching meta ads data:", error);
+        console.error("Error counting meta ads data:", error);
         throw error;
       }
 
-      return (data || []).map((row) => ({
-        id: row.id,
-        campaign_id: row.campaign_id,
-        campaign_name: row.campaign_name,
-        ad_set_name: row.ad_set_name,
-        impressions: Number(row.impressions),
-        clicks: Number(row.clicks),
-        spend: Number(row.spend),
-        conversions: Number(row.conversions),
-        ctr: Number(row.ctr),
-        cpc: Number(row.cpc),
-        cpm: Number(row.cpm),
-        roas: Number(row.roas),
-        date: row.date,
-      }));
+      return count ?? 0;
     },
     retry: 2,
     staleTime: 1000 * 60 * 5, // 5 minutes
   });
 
+  const refetch = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: [META_ADS_QUERY_KEY] }),
+    [queryClient]
+  );
+
   return {
     ...query,
-    refetch: query.refetch,
+    isFetching,
+    refetch,
   };
 }
 
-// Helper to get unique values for slicer filters
-export function getUniqueValues(data: MetaAdsCampaign[], field: keyof MetaAdsCampaign): (string | number)[] {
-  const values = data.map((item) => item[field]);
-  return [...new Set(values)];
+/**
+ * Loads the values slicers offer for each field (see planFieldValuesQuery)
+ * @returns A lookup of a field's values; [] while loading or for unknown fields
+ */
+export function useFieldValues(fields: string[]): (field: string) => (string | number)[] {
+  const plans = useMemo(() => {
+    const uniqueFields = [...new Set(fields)];
+    return new Map(uniqueFields.map((field) => [field, planFieldValuesQuery(field)]));
+  }, [fields]);
+
+  const fieldList = useMemo(() => [...plans.keys()], [plans]);
+
+  const combine = useCallback(
+    (results: UseQueryResult<AggregateRow[]>[]) => {
+      const values = new Map(fieldList.map((field, index) => [field, plans.get(field)?.values(results[index]?.data ?? []) ?? []]));
+      return (field: string) => values.get(field) ?? [];
+    },
+    [fieldList, plans]
+  );
+
+  return useQueries({
+    queries: fieldList.map((field) => {
+      const plan = plans.get(field);
+      return {
+        queryKey: [META_ADS_QUERY_KEY, "aggregate", plan?.request ?? null],
+        queryFn: () => fetchAggregate(plan!.request),
+        enabled: !!plan,
+        retry: 1,
+        staleTime: 1000 * 60 * 5, // 5 minutes
+      };
+    }),
+    combine,
+  });
 }
@@ -0,0 +1,149 @@
+import { useCallback, useMemo, useRef } from "react";
+import { useQueries, type UseQueryResult } from "@tanstack/react-query";
+import { fetchAggregate, fetchMetaAdsRows, MAX_ROWS, META_ADS_QUERY_KEY, type MetaAdsRows } from "@/hooks/useMetaAdsData";
+import type { CrossFilter } from "@/contexts/CrossFilterContext";
+import type { FilterValue } from "@/types/dashboard";
+import { getCrossFilterFilters, isFilteredByCrossFilter } from "@/utils/targets";
+import { getDrillFilters } from "@/utils/drill";
+import {
+  planVisualQuery,
+  applyQueryResult,
+  needsRowLevelData,
+  runRowLevelQuery,
+  toAggregateFilters,
+  type AggregateFilter,
+  type AggregateRequest,
+  type AggregateRow,
+  type QueryableVisual,
+  type VisualQueryResult,
+} from "@/utils/queryEngine";
+
+// Queries per visual: its own request, its comparison period's, its sparkline's and its rows (each if any)
+const QUERIES_PER_VISUAL = 4;
+
+// Disabled when the visual has no such request
+function aggregateQuery(request: AggregateRequest | null) {
+  return {
+    queryKey: [META_ADS_QUERY_KEY, "aggregate", request],
+    queryFn: () => fetchAggregate(request!),
+    enabled: !!request,
+    retry: 1,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  };
+}
+
+// Rows are keyed by their filters, so row-level visuals on the same filters share them
+function rowsQuery(filters: AggregateFilter[] | null) {
+  return {
+    queryKey: [META_ADS_QUERY_KEY, "rows", filters],
+    queryFn: ({ signal }: { signal: AbortSignal }) => fetchMetaAdsRows(filters!, signal),
+    enabled: !!filters,
+    retry: 1,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  };
+}
+
+/**
+ * Rebuilds visuals from their chart configs under the active filters,
+ * aggregating charts and cards over the full table on the server
+ *
+ * Each request is cached by its shape, so identical visuals share one query.
+ * Visuals comparing periods run a second request for the comparison period,
+ * and cards with a sparkline one for the measure per period, each shown once
+ * it arrives. Raw-row tables and distribution visuals load the matching rows, up
+ * to MAX_ROWS (see fetchMetaAdsRows), and are built from them in the browser;
+ * each is rebuilt only when its rows or its config change. Visuals whose
+ * query is still loading or failed carry a queryStatus instead of data.
+ * Gauges and bullet charts are also filtered by the cross-filter selection made
+ * in another visual, as is every visual by a day picked on a calendar heatmap
+ * (see targets.ts); otherwise visuals only highlight the selection.
+ *
+ * @returns The refreshed visuals keyed by visual id
+ */
+export function useVisualQueries<T extends QueryableVisual & { id: string }>(
+  visuals: T[],
+  filters: FilterValue[],
+  crossFilter: CrossFilter | null = null
+): Map<string, T> {
+  const crossFilters = useMemo(() => {
+    const source = crossFilter && visuals.find((visual) => visual.id === crossFilter.sourceVisualId);
+    return source ? getCrossFilterFilters(crossFilter, source) : [];
+  }, [visuals, crossFilter]);
+
+  const getFilters = useCallback(
+    (visual: T) =>
+      crossFilters.length > 0 && isFilteredByCrossFilter(crossFilter!, visual.type) && visual.id !== crossFilter!.sourceVisualId
+        ? [...filters, ...crossFilters]
+        : filters,
+    [filters, crossFilters, crossFilter]
+  );
+
+  const plans = useMemo(
+    () => visuals.map((visual) => (visual.config ? planVisualQuery(visual.type, visual.config, getFilters(visual)) : null)),
+    [visuals, getFilters]
+  );
+
+  // Row-level visuals fetch the rows under their filters and drill path instead of an aggregate
+  const rowFilters = useMemo(
+    () => visuals.map((visual) =>
+      visual.config && needsRowLevelData(visual.type, visual.config)
+        ? toAggregateFilters([...getFilters(visual), ...getDrillFilters(visual.config)])
+        : null
+    ),
+    [visuals, getFilters]
+  );
+
+  const queries = useMemo(
+    () => plans.flatMap((plan, index) => [
+      aggregateQuery(plan?.request ?? null),
+      aggregateQuery(plan?.comparison?.request ?? null),
+      aggregateQuery(plan?.sparkline?.request ?? null),
+      rowsQuery(rowFilters[index]),
+    ]),
+    [plans, rowFilters]
+  );
+
+  // Row-level results by the rows they were built from, then by visual type and config
+  const rowResults = useRef(new WeakMap<MetaAdsRows, Map<string, VisualQueryResult | null>>());
+  const getRowLevelResult = useCallback((visual: T, data: MetaAdsRows) => {
+    if (!rowResults.current.has(data)) rowResults.current.set(data, new Map());
+    const cache = rowResults.current.get(data)!;
+    const key = JSON.stringify([visual.type, visual.config]);
+    if (!cache.has(key)) {
+      const result = runRowLevelQuery(visual.type, visual.config!, data.rows);
+      cache.set(key, result && data.truncated ? { ...result, rowLimit: MAX_ROWS } : result);
+    }
+    return cache.get(key)!;
+  }, []);
+
+  const combine = useCallback(
+    (results: UseQueryResult<AggregateRow[] | MetaAdsRows>[]) =>
+      new Map(
+        visuals.map((visual, index) => {
+          const plan = plans[index];
+          const [main, comparison, sparkline, rows] = results.slice(index * QUERIES_PER_VISUAL, (index + 1) * QUERIES_PER_VISUAL);
+
+          if (rowFilters[index]) {
+            if (rows?.data) {
+              const result = getRowLevelResult(visual, rows.data as MetaAdsRows);
+              return [visual.id, result ? applyQueryResult(visual, result) : visual];
+            }
+            return [visual.id, { ...visual, queryStatus: rows?.isError ? "error" : "loading" }];
+          }
+          if (!plan) return [visual.id, visual];
+          if (!plan.request) return [visual.id, applyQueryResult(visual, plan.shape([]))];
+          if (main?.data) {
+            return [visual.id, applyQueryResult(visual, plan.shape(
+              main.data as AggregateRow[],
+              comparison?.data as AggregateRow[] | undefined,
+              sparkline?.data as AggregateRow[] | undefined
+            ))];
+          }
+          return [visual.id, { ...visual, queryStatus: main?.isError ? "error" : "loading" }];
+        })
+      ),
+    [visuals, plans, rowFilters, getRowLevelResult]
+  );
+
+  return useQueries({ queries, combine });
+}
@@ -100,7 +100,33 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      aggregate_meta_ads: {
+        Args: {
+          p_filters?: Json
+          p_granularity?: string
+          p_group_by?: string[]
+          p_grouping_sets?: Json
+          p_measures?: Json
+        }
+        Returns: Json[]
+      }
+      meta_ads_filter_clause: {
+        Args: { p_filters?: Json }
+        Returns: string
+      }
+      meta_ads_rows: {
+        Args: {
+          p_after_date?: string
+          p_after_id?: string
+          p_filters?: Json
+          p_limit?: number
+        }
+        Returns: Database["public"]["Tables"]["meta_ads_campaigns"]["Row"][]
+      }
+      meta_ads_value_expression: {
+        Args: { p_spec: Json }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,6 +1,6 @@
 import { useNavigate } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
-import { ArrowLeft, LayoutDashboard, Clock, Eye, Loader2, FolderOpen, LogOut, Plus } from "lucide-react";
+import { ArrowLeft, LayoutDashboard, Clock, Eye, Loader2, FolderOpen, LogOut, Plus, Pencil } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
@@ -14,6 +14,7 @@ interface Dashboard {
   created_at: string;
   updated_at: string;
   sheets_data: unknown;
+  user_id: string | null;
 }
 
 export default function DashboardList() {
@@ -123,7 +124,23 @@ export default function DashboardList() {
                     <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center group-hover:bg-primary/20 transition-colors">
                       <LayoutDashboard className="h-5 w-5 text-primary" />
                     </div>
-                    <Eye className="h-4 w-4 text-muted-foreground opacity-0 group-hover:opacity-100 transition-opacity" />
+                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {dashboard.user_id === user?.id && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            navigate(`/edit/${dashboard.id}`);
+                          }}
+                          title="Edit dashboard"
+                        >
+                          <Pencil className="h-4 w-4 text-muted-foreground" />
+                        </Button>
+                      )}
+                      <Eye className="h-4 w-4 text-muted-foreground" />
+                    </div>
                   </div>
                   <CardTitle className="text-base mt-3">{dashboard.name}</CardTitle>
                   {dashboard.description && (
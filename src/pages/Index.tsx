@@ -7,6 +7,7 @@
  * - Configure chart data using Measure/GroupBy/Date dropdowns
  * - Add filter slicers for data filtering
  * - Save dashboards to the database
+ * - Re-open saved dashboards for editing (/edit/:id)
  * 
  * Architecture:
  * - Uses DndContext from @dnd-kit for drag-and-drop functionality
@@ -14,8 +15,9 @@
  * - Integrates with Supabase for data fetching and persistence
  */
 
-import { useState, useCallback } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 
 // UI Icons - Only import what's needed for the current UI
 import { Settings, LayoutGrid, Loader2, Database, RefreshCw, AlertCircle, Save, ArrowLeft, LogOut, Filter, Type, Eye, Grid3X3, Maximize2 } from "lucide-react";
@@ -49,19 +51,24 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogD
 import { FilterProvider, useFilters } from "@/contexts/FilterContext";
 import { CrossFilterProvider, useCrossFilter } from "@/contexts/CrossFilterContext";
 import { useAuth } from "@/contexts/AuthContext";
-import { useMetaAdsData, getUniqueValues } from "@/hooks/useMetaAdsData";
+import { useFieldValues, useMetaAdsData } from "@/hooks/useMetaAdsData";
+import { useVisualQueries } from "@/hooks/useVisualQueries";
 
 // Slicer components
-import { DropdownSlicer, ListSlicer, DateRangeSlicer, NumericRangeSlicer } from "@/components/slicers";
+import { DropdownSlicer, ListSlicer, DateRangeSlicer, RelativeDateSlicer, NumericRangeSlicer } from "@/components/slicers";
 import { SlicerSettingsPanel } from "@/components/SlicerSettingsPanel";
 
 // Types
-import type { SlicerType, SlicerData, TimeGranularity } from "@/types/dashboard";
+import type { SlicerType, SlicerData } from "@/types/dashboard";
 
 // Utilities
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
-import { startOfWeek, startOfMonth, startOfQuarter, startOfYear, format } from "date-fns";
+import { getVisualTitle } from "@/utils/queryEngine";
+import { getFormattableFields } from "@/utils/conditionalFormatting";
+import { getRelativeDateFilter } from "@/utils/relativeDates";
+import { applyDrillState, getDrillState, type DrillState } from "@/utils/drill";
+import { getCrossFilterHighlight } from "@/utils/targets";
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -149,7 +156,7 @@ const createNewPanel = (layoutType: LayoutType, index: number): PanelData => ({
 
 /**
  * Creates a new slicer (filter component) with default settings
- * @param type - Slicer type (dropdown, list, date-range, numeric-range)
+ * @param type - Slicer type (dropdown, list, date-range, relative-date, numeric-range)
  * @param field - Data field to filter on
  * @param fieldLabel - Display label for the field
  * @param index - Position index for auto-layout
@@ -163,7 +170,7 @@ const createNewSlicer = (type: SlicerType, field: string, fieldLabel: string, in
   selectedValues: [],
   position: { x: 50 + (index % 3) * 250, y: 50 },
   size: { 
-    width: type === "date-range" ? 280 : type === "numeric-range" ? 250 : 220, 
+    width: type === "date-range" || type === "relative-date" ? 280 : type === "numeric-range" ? 250 : 220, 
     height: type === "list" ? 280 : type === "numeric-range" ? 180 : 120 
   },
   multiSelect: true,
@@ -184,6 +191,25 @@ const createEmptySheet = (name: string): SheetData => ({
   textContainers: [],
 });
 
+/**
+ * Rebuilds builder sheets from the JSON stored in dashboards.sheets_data
+ * Reverses the serialization done on save (slotVisuals object -> Map)
+ * @param sheetsData - Raw sheets_data column value
+ */
+const deserializeSheets = (sheetsData: unknown): SheetData[] => {
+  if (!Array.isArray(sheetsData)) return [];
+
+  return sheetsData.map((sheet) => ({
+    id: sheet.id || crypto.randomUUID(),
+    name: sheet.name || "Sheet",
+    panels: sheet.panels || [],
+    visuals: sheet.visuals || [],
+    slotVisuals: new Map(Object.entries(sheet.slotVisuals || {})) as SlotVisualsMap,
+    slicers: sheet.slicers || [],
+    textContainers: sheet.textContainers || [],
+  }));
+};
+
 /**
  * Creates a new text container (header with optional logo)
  */
@@ -210,6 +236,7 @@ const createNewTextContainer = (): TextContainerData => ({
 const getDefaultSlicerField = (type: SlicerType): { field: string; label: string } => {
   switch (type) {
     case "date-range":
+    case "relative-date":
       return { field: "date", label: "Date" };
     case "numeric-range":
       return { field: "Spend", label: "Spend" };
@@ -237,13 +264,15 @@ const getDefaultSlicerField = (type: SlicerType): { field: string; label: string
 function DashboardContent() {
   // ========== HOOKS & CONTEXTS ==========
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { id: dashboardId } = useParams<{ id: string }>();                  // Set when editing a saved dashboard
   const { user, signOut } = useAuth();                                      // Authentication
-  const { filters, addFilter, removeFilter, getFilteredData } = useFilters();  // Global filters
+  const { filters, addFilter, removeFilter } = useFilters();                // Global filters
   const { crossFilter, setCrossFilter, clearCrossFilter } = useCrossFilter();  // Cross-filtering between charts
   
   // Fetch Meta Ads data from Supabase
   const { 
-    data: metaAdsData = [], 
+    data: metaAdsCount = 0, 
     isLoading: isLoadingMetaAds, 
     error: metaAdsError, 
     refetch: refetchMetaAds, 
@@ -290,8 +319,8 @@ function DashboardContent() {
   const [slicerDateRanges, setSlicerDateRanges] = useState<Map<string, { start: Date | null; end: Date | null }>>(new Map());
   const [slicerNumericRanges, setSlicerNumericRanges] = useState<Map<string, { min: number; max: number }>>(new Map());
 
-  // Chart configuration state - stores measure/groupBy/date for each visual
-  const [visualConfigs, setVisualConfigs] = useState<Map<string, ChartConfig>>(new Map());
+  // Drill state per visual - kept for the session, never saved with the dashboard (see drill.ts)
+  const [drillStates, setDrillStates] = useState<Map<string, DrillState>>(new Map());
 
   // Save dialog state
   const [showSaveDialog, setShowSaveDialog] = useState(false);
@@ -299,7 +328,47 @@ function DashboardContent() {
   const [dashboardName, setDashboardName] = useState("");
   const [dashboardDescription, setDashboardDescription] = useState("");
   const [isSaving, setIsSaving] = useState(false);
-  
+
+  // Saved dashboard being edited (only fetched on /edit/:id)
+  const { data: savedDashboard, isLoading: isLoadingDashboard, error: dashboardError } = useQuery({
+    queryKey: ["dashboard", dashboardId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("dashboards")
+        .select("*")
+        .eq("id", dashboardId)
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!dashboardId,
+  });
+
+  // Load the saved dashboard into builder state once, so refetches don't discard edits
+  const loadedDashboardId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!savedDashboard || loadedDashboardId.current === savedDashboard.id) return;
+    loadedDashboardId.current = savedDashboard.id;
+
+    const loadedSheets = deserializeSheets(savedDashboard.sheets_data);
+    if (loadedSheets.length > 0) {
+      setSheets(loadedSheets);
+      setActiveSheetId(loadedSheets[0].id);
+    }
+    setDashboardName(savedDashboard.name);
+    setDashboardDescription(savedDashboard.description || "");
+
+    // Relative date slicers are re-resolved against today's date on every load
+    loadedSheets.forEach((sheet) =>
+      sheet.slicers.forEach((slicer) => {
+        if (slicer.type === "relative-date" && slicer.relativeDate) {
+          addFilter(getRelativeDateFilter(slicer.field, slicer.relativeDate));
+        }
+      })
+    );
+  }, [savedDashboard, addFilter]);
+
   // Grid lock state - snaps visuals to 16px grid
   const [gridLockEnabled, setGridLockEnabled] = useState(true);
   const [autoExpandEnabled, setAutoExpandEnabled] = useState(false);
@@ -355,10 +424,34 @@ function DashboardContent() {
   const slotVisuals = activeSheet?.slotVisuals || new Map<string, CanvasVisualData>();
   const slicers = activeSheet?.slicers || [];
   const textContainers = activeSheet?.textContainers || [];
+
+  // Visuals as rendered - every configured visual is re-run against the active filters,
+  // so slicers (and saved dashboards) always show live data rather than the stored snapshot
+  const sheetVisuals = useMemo(
+    () => [...(activeSheet?.visuals || []), ...(activeSheet?.slotVisuals.values() || [])].map((visual) =>
+      visual.config && drillStates.has(visual.id)
+        ? { ...visual, config: applyDrillState(visual.config, drillStates.get(visual.id)) }
+        : visual
+    ),
+    [activeSheet, drillStates]
+  );
+  const refreshedVisuals = useVisualQueries(sheetVisuals, filters, crossFilter);
+  const displayVisuals = useMemo(
+    () => (activeSheet?.visuals || []).map((v) => refreshedVisuals.get(v.id) || v),
+    [activeSheet, refreshedVisuals]
+  );
+  const displaySlotVisuals = useMemo(
+    () => new Map(
+      Array.from(activeSheet?.slotVisuals.entries() || []).map(([slotId, v]) => [slotId, refreshedVisuals.get(v.id) || v])
+    ),
+    [activeSheet, refreshedVisuals]
+  );
   
   // Find selected elements
   const selectedVisual = visuals.find((v) => v.id === selectedVisualId) || 
     Array.from(slotVisuals.values()).find((v) => v.id === selectedVisualId);
+  const selectedDisplayVisual = displayVisuals.find((v) => v.id === selectedVisualId) ||
+    Array.from(displaySlotVisuals.values()).find((v) => v.id === selectedVisualId);
   const selectedPanel = panels.find((p) => p.id === selectedPanelId);
   const selectedSlicer = slicers.find((s) => s.id === selectedSlicerId);
   const selectedTextContainer = textContainers.find((t) => t.id === selectedTextContainerId);
@@ -394,17 +487,29 @@ function DashboardContent() {
         slotVisuals: Object.fromEntries(sheet.slotVisuals),
       }));
 
-      // Insert dashboard into Supabase
-      const { error } = await supabase.from("dashboards").insert([{
+      const dashboardFields = {
         name: dashboardName.trim(),
         description: dashboardDescription.trim() || null,
         sheets_data: JSON.parse(JSON.stringify(sheetsForStorage)),
-        user_id: user.id,
-      }]);
+      };
+
+      // Update the existing row when editing, otherwise insert a new dashboard
+      const { data: savedRows, error } = dashboardId
+        ? await supabase.from("dashboards").update(dashboardFields).eq("id", dashboardId).select("id")
+        : await supabase.from("dashboards").insert([{ ...dashboardFields, user_id: user.id }]).select("id");
 
       if (error) throw error;
+      // Row-level security skips dashboards the user doesn't own instead of failing the update
+      if (!savedRows || savedRows.length === 0) {
+        throw new Error("No dashboard was saved; it may belong to another user");
+      }
+
+      if (dashboardId) {
+        queryClient.invalidateQueries({ queryKey: ["dashboard", dashboardId] });
+      }
+      queryClient.invalidateQueries({ queryKey: ["dashboards"] });
 
-      toast.success("Dashboard saved successfully!");
+      toast.success(dashboardId ? "Dashboard updated successfully!" : "Dashboard saved successfully!");
       setShowSaveDialog(false);
       setDashboardName("");
       setDashboardDescription("");
@@ -415,7 +520,7 @@ function DashboardContent() {
     } finally {
       setIsSaving(false);
     }
-  }, [dashboardName, dashboardDescription, sheets, navigate, user]);
+  }, [dashboardName, dashboardDescription, sheets, navigate, user, dashboardId, queryClient]);
 
   // ========== SHEET HANDLERS ==========
   
@@ -531,6 +636,18 @@ function DashboardContent() {
         }
       }
     }
+
+    // Relative date slicers filter on the range their period resolves to today
+    if ("relativeDate" in updates) {
+      const slicer = slicers.find((s) => s.id === id);
+      if (slicer) {
+        if (updates.relativeDate) {
+          addFilter(getRelativeDateFilter(slicer.field, updates.relativeDate));
+        } else {
+          removeFilter(slicer.field);
+        }
+      }
+    }
   }, [activeSheetId, slicers, addFilter, removeFilter]);
 
   const handleDeleteSlicer = useCallback((id: string) => {
@@ -546,6 +663,21 @@ function DashboardContent() {
     setSelectedSlicerId((prev) => (prev === id ? null : prev));
   }, [activeSheetId, slicers, removeFilter]);
 
+  /** Stores a date slicer's range and registers it as a date filter */
+  const handleSlicerDateRangeChange = useCallback((slicer: SlicerData, range: { start: Date | null; end: Date | null }) => {
+    setSlicerDateRanges((prev) => new Map(prev).set(slicer.id, range));
+    if (range.start || range.end) {
+      addFilter({
+        field: slicer.field,
+        values: [],
+        operator: "between",
+        dateRange: range,
+      });
+    } else {
+      removeFilter(slicer.field);
+    }
+  }, [addFilter, removeFilter]);
+
   // Text container handlers
   const handleAddTextContainer = useCallback((position?: { x: number; y: number }) => {
     const newContainer = createNewTextContainer();
@@ -737,53 +869,8 @@ function DashboardContent() {
   // Field-drop handler removed - using dropdown configuration instead
 
   // Get available values for slicer field from database
-  const getSlicerValues = (field: string): (string | number)[] => {
-    if (metaAdsData.length === 0) return [];
-    
-    // Map slicer field names to database column names
-    const fieldKeyMap: Record<string, keyof typeof metaAdsData[0]> = {
-      // Legacy field names
-      campaignName: "campaign_name",
-      adSetName: "ad_set_name",
-      date: "date",
-      impressions: "impressions",
-      clicks: "clicks",
-      spend: "spend",
-      conversions: "conversions",
-      ctr: "ctr",
-      cpc: "cpc",
-      cpm: "cpm",
-      roas: "roas",
-      // Group By dimensions
-      "Campaign Name": "campaign_name",
-      "Ad Set Name": "ad_set_name",
-      "Platform": "campaign_name", // Placeholder - using campaign_name as proxy
-      "Campaign Category": "campaign_name",
-      "Ad Category": "campaign_name",
-      "Ad Format": "campaign_name",
-      "Ad Name": "campaign_name",
-      "Ad Set Label": "ad_set_name",
-      "Ad Set Type": "ad_set_name",
-      "Ad Type": "campaign_name",
-      "Age": "campaign_name",
-      "Campaign Label": "campaign_name",
-      "Campaign Type": "campaign_name",
-      "Device": "campaign_name",
-      "Gender": "campaign_name",
-      // Measures (for numeric range)
-      "Clicks": "clicks",
-      "Spend": "spend",
-      "Impressions": "impressions",
-      "CTR": "ctr",
-      "CPC": "cpc",
-      "CPM": "cpm",
-      "Conversions": "conversions",
-      "ROAS": "roas",
-    };
-    
-    const dbField = fieldKeyMap[field] || field as keyof typeof metaAdsData[0];
-    return getUniqueValues(metaAdsData, dbField);
-  };
+  const slicerFields = useMemo(() => (activeSheet?.slicers || []).map((slicer) => slicer.field), [activeSheet]);
+  const getSlicerValues = useFieldValues(slicerFields);
 
   // Handle cross-filter click from visual
   const handleVisualDataClick = useCallback((visualId: string, dimension: string, value: string) => {
@@ -794,27 +881,8 @@ function DashboardContent() {
     });
   }, [setCrossFilter]);
 
-  // Helper function to get time period key based on granularity
-  const getTimePeriodKey = useCallback((dateStr: string, granularity: TimeGranularity): string => {
-    if (granularity === "none" || !dateStr) return dateStr;
-    
-    const date = new Date(dateStr);
-    if (isNaN(date.getTime())) return dateStr;
-    
-    switch (granularity) {
-      case "day":
-        return format(date, "yyyy-MM-dd");
-      case "week":
-        return format(startOfWeek(date, { weekStartsOn: 1 }), "'Week of' MMM d, yyyy");
-      case "month":
-        return format(startOfMonth(date), "MMM yyyy");
-      case "quarter":
-        return format(startOfQuarter(date), "'Q'Q yyyy");
-      case "year":
-        return format(startOfYear(date), "yyyy");
-      default:
-        return dateStr;
-    }
+  const handleDrillVisual = useCallback((visualId: string, config: ChartConfig) => {
+    setDrillStates((prev) => new Map(prev).set(visualId, getDrillState(config)));
   }, []);
 
   // Field mapping handlers removed - using dropdown configuration instead
@@ -822,208 +890,35 @@ function DashboardContent() {
   // ========== CHART CONFIG HANDLER ==========
   /**
    * Handles chart configuration changes from the 3-dropdown interface
-   * Transforms raw database data into chart-ready format based on:
+   * Stores the config on the visual, whose data is then queried (see useVisualQueries):
    * - measure: Which metric to aggregate (Clicks, Spend, etc.)
    * - groupBy: Which dimension to group by (Campaign, Ad Set, etc.)
    * - dateGranularity: Time period grouping (Day, Week, Month, etc.)
    */
   const handleChartConfigChange = useCallback((visualId: string, config: ChartConfig) => {
-    // Save config state for persistence
-    setVisualConfigs(prev => new Map(prev).set(visualId, config));
-    
     const visual = visuals.find((v) => v.id === visualId) ||
       Array.from(slotVisuals.values()).find((v) => v.id === visualId);
-
-    // Handle table type - uses selectedColumns instead of measure/groupBy
-    if (visual?.type === "table") {
-      const selectedColumns = config.selectedColumns || [];
-      if (selectedColumns.length === 0 || metaAdsData.length === 0) {
-        handleUpdateVisual(visualId, { data: [] });
-        return;
-      }
-
-      // Map UI column names to database field names
-      const columnToDbField: Record<string, string> = {
-        // Measures
-        "Clicks": "clicks",
-        "Spend": "spend",
-        "Impressions": "impressions",
-        "Impression": "impressions",
-        "CTR": "ctr",
-        "CPC": "cpc",
-        "CPM": "cpm",
-        "Conversions": "conversions",
-        "ROAS": "roas",
-        "Leads": "conversions",
-        // Dimensions
-        "Campaign Name": "campaign_name",
-        "Ad Set Name": "ad_set_name",
-        "Ad Name": "ad_set_name",
-        "Platform": "campaign_name",
-        "Device": "campaign_name",
-        "Age": "campaign_name",
-        "Gender": "campaign_name",
-      };
-
-      // Build table data with selected columns only
-      const tableData = metaAdsData.slice(0, 50).map((record) => {
-        const row: Record<string, string | number> = { id: crypto.randomUUID() };
-        selectedColumns.forEach((col) => {
-          const dbField = columnToDbField[col] || col.toLowerCase().replace(/ /g, '_');
-          const value = record[dbField as keyof typeof record];
-          row[col] = value !== undefined ? value : '';
-        });
-        // Add category and value for compatibility with DataPoint
-        const firstDim = selectedColumns.find(c => columnToDbField[c] && ["campaign_name", "ad_set_name"].includes(columnToDbField[c]));
-        const firstMeasure = selectedColumns.find(c => columnToDbField[c] && ["clicks", "spend", "impressions", "ctr", "cpc", "cpm", "conversions", "roas"].includes(columnToDbField[c]));
-        row.category = firstDim ? String(row[firstDim]) : String(record.campaign_name);
-        row.value = firstMeasure ? Number(row[firstMeasure]) : 0;
-        return row as DataPoint;
-      });
-
-      handleUpdateVisual(visualId, {
-        data: tableData,
-        properties: {
-          ...visual?.properties!,
-          title: `Data Table (${selectedColumns.length} columns)`,
-        },
-      });
-
-      toast.success(`Loaded ${selectedColumns.length} columns`);
-      return;
-    }
-
-    // For other chart types, require measure and groupBy
-    if (!config.measure || !config.groupBy || metaAdsData.length === 0) return;
-
-    // Map UI dropdown values to database column names
-    const measureToDbField: Record<string, string> = {
-      "Clicks": "clicks",
-      "Spend": "spend",
-      "Impression": "impressions",
-      "Impressions": "impressions",
-      "CTR": "ctr",
-      "CPC": "cpc",
-      "CPM": "cpm",
-      "Leads": "conversions",
-      "Conversions": "conversions",
-      "ROAS": "roas",
-    };
-
-    const groupByToDbField: Record<string, string> = {
-      "Campaign Name": "campaign_name",
-      "Ad Set Name": "ad_set_name",
-      "Ad Name": "ad_set_name",
-      "Platform": "campaign_name",
-      "Device": "campaign_name",
-      "Age": "campaign_name",
-      "Gender": "campaign_name",
-    };
-
-    // Get database field keys
-    const measureKey = measureToDbField[config.measure] || "clicks";
-    // For measure2, use fallback to "spend" if not mapped (so multiline still works)
-    const measure2Key = config.measure2 ? (measureToDbField[config.measure2] || "spend") : null;
-    const groupByKey = groupByToDbField[config.groupBy] || "campaign_name";
-    const timeGranularity = config.dateGranularity as TimeGranularity;
-    const isMultiLine = visual?.type === "multiline" && config.measure2;
-
-    // Aggregate data based on groupBy and date granularity
-    // For multiline, we need to aggregate both measures
-    const aggregatedData = new Map<string, { sum: number; count: number; sum2: number; count2: number }>();
-
-    metaAdsData.forEach((record) => {
-      let groupValue = String(record[groupByKey as keyof typeof record] || "Unknown");
-      
-      // If date granularity is set, append time period
-      if (timeGranularity !== "none" && record.date) {
-        const timePeriod = getTimePeriodKey(record.date, timeGranularity);
-        groupValue = `${groupValue} - ${timePeriod}`;
-      }
-
-      const rawValue = record[measureKey as keyof typeof record];
-      const value = typeof rawValue === "number" ? rawValue : 0;
-
-      // Get second measure value if multiline
-      const rawValue2 = measure2Key ? record[measure2Key as keyof typeof record] : 0;
-      const value2 = typeof rawValue2 === "number" ? rawValue2 : 0;
-
-      if (!aggregatedData.has(groupValue)) {
-        aggregatedData.set(groupValue, { sum: 0, count: 0, sum2: 0, count2: 0 });
-      }
-      const entry = aggregatedData.get(groupValue)!;
-      entry.sum += value;
-      entry.count += 1;
-      entry.sum2 += value2;
-      entry.count2 += 1;
+    if (!visual) return;
+
+    // A new config starts at its own level rather than where the last one was drilled to
+    setDrillStates((prev) => {
+      if (!prev.has(visualId)) return prev;
+      const next = new Map(prev);
+      next.delete(visualId);
+      return next;
     });
 
-    // Helper to determine if measure is a rate/average field
-    const isRateField = (key: string) => ["ctr", "cpc", "cpm", "roas"].includes(key);
-
-    // Create chart data points
-    let newData: DataPoint[] = Array.from(aggregatedData.entries())
-      .map(([category, { sum, count, sum2, count2 }]) => {
-        const dataPoint: DataPoint = {
-          id: crypto.randomUUID(),
-          category: category.slice(0, 30),
-          value: Math.round((isRateField(measureKey) ? sum / count : sum) * 100) / 100,
-        };
-        
-        // Add value2 for multiline charts
-        if (isMultiLine && measure2Key) {
-          dataPoint.value2 = Math.round((isRateField(measure2Key) ? sum2 / count2 : sum2) * 100) / 100;
-        }
-        
-        return dataPoint;
-      });
+    const title = getVisualTitle(visual.type, config);
 
-    // Apply sorting based on config.sortBy
-    const sortBy = config.sortBy || "value-desc";
-    switch (sortBy) {
-      case "value-desc":
-        newData.sort((a, b) => b.value - a.value);
-        break;
-      case "value-asc":
-        newData.sort((a, b) => a.value - b.value);
-        break;
-      case "name-asc":
-        newData.sort((a, b) => a.category.localeCompare(b.category));
-        break;
-      case "name-desc":
-        newData.sort((a, b) => b.category.localeCompare(a.category));
-        break;
-      case "none":
-      default:
-        // No sorting
-        break;
+    // Incomplete config - persist the selection and keep the current title
+    if (!title) {
+      handleUpdateVisual(visualId, { config });
+      return;
     }
 
-    // Limit to top 15 for readability
-    newData = newData.slice(0, 15);
-
-    // Build title
-    const timeLabel = config.dateGranularity !== "none" ? ` by ${config.dateGranularity}` : "";
-    const title = isMultiLine && config.measure2
-      ? `${config.measure} vs ${config.measure2} by ${config.groupBy}${timeLabel}`
-      : `${config.measure} by ${config.groupBy}${timeLabel}`;
-
-    // Pass value field names for legend
-    const valueFieldNames = isMultiLine && config.measure2
-      ? [config.measure, config.measure2]
-      : [config.measure];
-
-    handleUpdateVisual(visualId, {
-      data: newData,
-      properties: {
-        ...visual?.properties!,
-        title,
-      },
-      valueFieldNames,
-    });
-
+    handleUpdateVisual(visualId, { config, properties: { ...visual.properties, title } });
     toast.success(`Loaded ${title}`);
-  }, [metaAdsData, visuals, slotVisuals, handleUpdateVisual, getTimePeriodKey]);
+  }, [visuals, slotVisuals, handleUpdateVisual]);
 
   // Handle drag start
   const handleDragStart = (event: DragStartEvent) => {
@@ -1173,6 +1068,32 @@ function DashboardContent() {
     }
   };
 
+  // Loading / error states when opening a saved dashboard for editing
+  if (dashboardId && isLoadingDashboard) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="flex flex-col items-center gap-4">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          <p className="text-muted-foreground">Loading dashboard...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (dashboardId && (dashboardError || !savedDashboard)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-destructive mb-4">Dashboard not found</p>
+          <Button onClick={() => navigate("/dashboards")}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboards
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
       <div className="h-screen flex flex-col bg-background">
@@ -1195,11 +1116,11 @@ function DashboardContent() {
             {/* Canvas Toolbar */}
             <div className="h-12 border-b bg-card px-4 flex items-center justify-between">
               <div className="flex items-center gap-3">
-                <Button variant="ghost" size="sm" onClick={() => navigate("/")}>
+                <Button variant="ghost" size="sm" onClick={() => navigate(dashboardId ? `/view/${dashboardId}` : "/")}>
                   <ArrowLeft className="h-4 w-4 mr-2" />
                   Back
                 </Button>
-                <span className="text-sm font-medium">Canvas</span>
+                <span className="text-sm font-medium">{dashboardId ? `Editing: ${savedDashboard?.name}` : "Canvas"}</span>
                 <span className="px-2 py-0.5 bg-primary/10 text-primary text-xs rounded font-medium">
                   {panels.length} panel{panels.length !== 1 ? "s" : ""}
                 </span>
@@ -1235,7 +1156,7 @@ function DashboardContent() {
                 ) : (
                   <span className="px-2 py-0.5 bg-primary/10 text-primary text-xs rounded font-medium flex items-center gap-1">
                     <Database className="h-3 w-3" />
-                    {metaAdsData.length} records
+                    {metaAdsCount.toLocaleString()} records
                   </span>
                 )}
                 <Button
@@ -1257,11 +1178,11 @@ function DashboardContent() {
                 >
                   {showLeftPanel ? "Hide Left" : "Show Left"}
                 </Button>
-                {selectedVisual && (
+                {selectedDisplayVisual && (
                   <CodeExport
-                    type={selectedVisual.type}
-                    data={selectedVisual.data}
-                    properties={selectedVisual.properties}
+                    type={selectedDisplayVisual.type}
+                    data={selectedDisplayVisual.data}
+                    properties={selectedDisplayVisual.properties}
                   />
                 )}
                 <Button
@@ -1302,7 +1223,7 @@ function DashboardContent() {
                   onClick={() => setShowSaveDialog(true)}
                 >
                   <Save className="h-4 w-4 mr-2" />
-                  Save Dashboard
+                  {dashboardId ? "Update Dashboard" : "Save Dashboard"}
                 </Button>
                 <Button
                   variant="ghost"
@@ -1373,9 +1294,17 @@ function DashboardContent() {
                       key={slicer.id}
                       {...slicerProps}
                       dateRange={slicerDateRanges.get(slicer.id) || { start: null, end: null }}
-                      onDateRangeChange={(range) => {
-                        setSlicerDateRanges((prev) => new Map(prev).set(slicer.id, range));
-                      }}
+                      onDateRangeChange={(range) => handleSlicerDateRangeChange(slicer, range)}
+                    />
+                  );
+                }
+                if (slicer.type === "relative-date") {
+                  return (
+                    <RelativeDateSlicer
+                      key={slicer.id}
+                      {...slicerProps}
+                      relativeDate={slicer.relativeDate || null}
+                      onRelativeDateChange={(setting) => handleUpdateSlicer(slicer.id, { relativeDate: setting || undefined })}
                     />
                   );
                 }
@@ -1407,15 +1336,15 @@ function DashboardContent() {
               {/* Panel Canvas */}
               <PanelCanvas
                 panels={panels}
-                visuals={visuals}
-                slotVisuals={slotVisuals}
+                visuals={displayVisuals}
+                slotVisuals={displaySlotVisuals}
                 selectedPanelId={selectedPanelId}
                 selectedVisualId={selectedVisualId}
                 isLayoutDragging={isLayoutDragging || isSlicerDragging}
                 isFieldDragging={false}
                 isComponentDragging={isComponentDragging}
                 crossFilterVisualId={crossFilter?.sourceVisualId || null}
-                highlightedValue={crossFilter?.value || null}
+                highlightedValue={getCrossFilterHighlight(crossFilter)}
                 onSelectPanel={setSelectedPanelId}
                 onSelectVisual={setSelectedVisualId}
                 onUpdatePanel={handleUpdatePanel}
@@ -1425,6 +1354,7 @@ function DashboardContent() {
                 onDuplicateVisual={handleDuplicateVisual}
                 onRemoveVisualFromSlot={handleRemoveVisualFromSlot}
                 onDataClick={handleVisualDataClick}
+                onDrillVisual={handleDrillVisual}
               />
             </div>
 
@@ -1462,7 +1392,7 @@ function DashboardContent() {
                     {/* Chart Configuration Panel - Shown when a visual is selected */}
                     {selectedVisual ? (
                       <ChartConfigDropdowns
-                        config={visualConfigs.get(selectedVisual.id) || { measure: "", groupBy: "", dateGranularity: "none" }}
+                        config={selectedVisual.config || { measure: "", groupBy: "", dateGranularity: "none" }}
                         onChange={(config) => handleChartConfigChange(selectedVisual.id, config)}
                         visualType={selectedVisual.type}
                       />
@@ -1495,7 +1425,16 @@ function DashboardContent() {
                 
                 <TabsContent value="format" className="flex-1 overflow-hidden m-0">
                   {selectedVisual ? (
-                    <PropertyPanel properties={selectedVisual.properties} onChange={handlePropertiesChange} />
+                    <PropertyPanel
+                      key={selectedVisual.id}
+                      properties={selectedVisual.properties}
+                      onChange={handlePropertiesChange}
+                      availableFields={getFormattableFields(
+                        selectedVisual.type,
+                        selectedDisplayVisual?.data || selectedVisual.data,
+                        selectedDisplayVisual?.valueFieldNames || selectedVisual.valueFieldNames
+                      )}
+                    />
                   ) : (
                     <div className="text-sm text-muted-foreground text-center py-8 px-4">
                       Select a visual to format
@@ -1541,9 +1480,11 @@ function DashboardContent() {
       <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Save Dashboard</DialogTitle>
+            <DialogTitle>{dashboardId ? "Update Dashboard" : "Save Dashboard"}</DialogTitle>
             <DialogDescription>
-              Give your dashboard a name and optional description
+              {dashboardId
+                ? "Save your changes to this dashboard"
+                : "Give your dashboard a name and optional description"}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
@@ -1645,9 +1586,17 @@ function DashboardContent() {
                     key={slicer.id}
                     {...slicerProps}
                     dateRange={slicerDateRanges.get(slicer.id) || { start: null, end: null }}
-                    onDateRangeChange={(range) => {
-                      setSlicerDateRanges((prev) => new Map(prev).set(slicer.id, range));
-                    }}
+                    onDateRangeChange={(range) => handleSlicerDateRangeChange(slicer, range)}
+                  />
+                );
+              }
+              if (slicer.type === "relative-date") {
+                return (
+                  <RelativeDateSlicer
+                    key={slicer.id}
+                    {...slicerProps}
+                    relativeDate={slicer.relativeDate || null}
+                    onRelativeDateChange={(setting) => handleUpdateSlicer(slicer.id, { relativeDate: setting || undefined })}
                   />
                 );
               }
@@ -1673,15 +1622,15 @@ function DashboardContent() {
             {/* Panel Canvas in Preview */}
             <PanelCanvas
               panels={panels}
-              visuals={visuals}
-              slotVisuals={slotVisuals}
+              visuals={displayVisuals}
+              slotVisuals={displaySlotVisuals}
               selectedPanelId={null}
               selectedVisualId={null}
               isLayoutDragging={false}
               isFieldDragging={false}
               isComponentDragging={false}
               crossFilterVisualId={crossFilter?.sourceVisualId || null}
-              highlightedValue={crossFilter?.value || null}
+              highlightedValue={getCrossFilterHighlight(crossFilter)}
               onSelectPanel={() => {}}
               onSelectVisual={() => {}}
               onUpdatePanel={() => {}}
@@ -1691,6 +1640,7 @@ function DashboardContent() {
               onDuplicateVisual={() => {}}
               onRemoveVisualFromSlot={() => {}}
               onDataClick={handleVisualDataClick}
+              onDrillVisual={handleDrillVisual}
             />
           </div>
         </DialogContent>
@@ -1,7 +1,7 @@
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
-import { ArrowLeft, LayoutDashboard, Loader2, Filter, Database, RefreshCw, AlertCircle, LogOut } from "lucide-react";
+import { ArrowLeft, LayoutDashboard, Loader2, Filter, Database, RefreshCw, AlertCircle, LogOut, Pencil } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
 import { SheetTabs } from "@/components/SheetTabs";
@@ -9,13 +9,18 @@ import { VisualPreview } from "@/components/VisualPreview";
 import { FilterProvider, useFilters } from "@/contexts/FilterContext";
 import { CrossFilterProvider, useCrossFilter } from "@/contexts/CrossFilterContext";
 import { useAuth } from "@/contexts/AuthContext";
-import { useMetaAdsData, getUniqueValues } from "@/hooks/useMetaAdsData";
-import { DropdownSlicer, ListSlicer, DateRangeSlicer, NumericRangeSlicer } from "@/components/slicers";
+import { useFieldValues, useMetaAdsData } from "@/hooks/useMetaAdsData";
+import { useVisualQueries } from "@/hooks/useVisualQueries";
+import { DropdownSlicer, ListSlicer, DateRangeSlicer, RelativeDateSlicer, NumericRangeSlicer } from "@/components/slicers";
 import { getGridStyle } from "@/utils/layoutStyles";
-import type { SlicerData } from "@/types/dashboard";
+import type { DataTruncation, RelativeDateSetting, SlicerData, VisualQueryStatus } from "@/types/dashboard";
 import type { DataPoint } from "@/components/DataEditor";
 import type { VisualProperties } from "@/components/PropertyPanel";
 import type { VisualType } from "@/components/VisualTypeSelector";
+import type { ChartConfig } from "@/components/ChartConfigDropdowns";
+import { getRelativeDateFilter } from "@/utils/relativeDates";
+import { getCrossFilterHighlight } from "@/utils/targets";
+
 interface SlotData {
   id: string;
   position: { row: number; col: number };
@@ -43,6 +48,11 @@ interface VisualData {
     legend?: { id: string; name: string; type: string };
     tooltips?: Array<{ id: string; name: string; type: string }>;
   };
+  valueFieldNames?: string[];
+  config?: ChartConfig;
+  truncation?: DataTruncation;
+  rowLimit?: number;
+  queryStatus?: VisualQueryStatus;
 }
 
 interface SheetData {
@@ -59,6 +69,7 @@ interface Dashboard {
   name: string;
   description: string | null;
   sheets_data: SheetData[];
+  user_id: string | null;
 }
 
 function ViewDashboardContent() {
@@ -67,7 +78,7 @@ function ViewDashboardContent() {
   const { user, signOut } = useAuth();
   const { filters, addFilter, removeFilter } = useFilters();
   const { crossFilter, setCrossFilter } = useCrossFilter();
-  const { data: metaAdsData = [], isLoading: isLoadingMetaAds, error: metaAdsError, refetch: refetchMetaAds, isFetching: isFetchingMetaAds } = useMetaAdsData();
+  const { data: metaAdsCount = 0, isLoading: isLoadingMetaAds, error: metaAdsError, refetch: refetchMetaAds, isFetching: isFetchingMetaAds } = useMetaAdsData();
 
   const handleSignOut = async () => {
     await signOut();
@@ -76,6 +87,7 @@ function ViewDashboardContent() {
 
   const [slicerDateRanges, setSlicerDateRanges] = useState<Map<string, { start: Date | null; end: Date | null }>>(new Map());
   const [slicerNumericRanges, setSlicerNumericRanges] = useState<Map<string, { min: number; max: number }>>(new Map());
+  const [slicerRelativeDates, setSlicerRelativeDates] = useState<Map<string, RelativeDateSetting | null>>(new Map());
 
   const { data: dashboard, isLoading, error } = useQuery({
     queryKey: ["dashboard", id],
@@ -99,6 +111,17 @@ function ViewDashboardContent() {
   });
 
   const sheets = useMemo(() => dashboard?.sheets_data || [], [dashboard]);
+
+  // Relative date slicers are re-resolved against today's date on every load
+  useEffect(() => {
+    sheets.forEach((sheet) =>
+      sheet.slicers.forEach((slicer) => {
+        if (slicer.type === "relative-date" && slicer.relativeDate) {
+          addFilter(getRelativeDateFilter(slicer.field, slicer.relativeDate));
+        }
+      })
+    );
+  }, [sheets, addFilter]);
   const [activeSheetId, setActiveSheetId] = useState<string>("");
 
   // Set initial active sheet when dashboard loads
@@ -108,25 +131,26 @@ function ViewDashboardContent() {
     return sheets.find((s) => s.id === sheetId) || sheets[0];
   }, [sheets, activeSheetId]);
 
+  // Rebuild each visual's data from its saved chart config under the active slicer filters
+  const sheetVisuals = useMemo(
+    () => [...(activeSheet?.visuals || []), ...Object.values(activeSheet?.slotVisuals || {})],
+    [activeSheet]
+  );
+  const refreshedVisuals = useVisualQueries(sheetVisuals, filters, crossFilter);
+  const visuals = useMemo(
+    () => (activeSheet?.visuals || []).map((v) => refreshedVisuals.get(v.id) || v),
+    [activeSheet, refreshedVisuals]
+  );
+  const slotVisuals = useMemo(
+    () => new Map(
+      Object.entries(activeSheet?.slotVisuals || {}).map(([slotId, v]) => [slotId, refreshedVisuals.get(v.id) || v])
+    ),
+    [activeSheet, refreshedVisuals]
+  );
+
   // Get slicer values from database
-  const getSlicerValues = useCallback((field: string): (string | number)[] => {
-    if (metaAdsData.length === 0) return [];
-    const fieldKeyMap: Record<string, keyof typeof metaAdsData[0]> = {
-      campaignName: "campaign_name",
-      adSetName: "ad_set_name",
-      date: "date",
-      impressions: "impressions",
-      clicks: "clicks",
-      spend: "spend",
-      conversions: "conversions",
-      ctr: "ctr",
-      cpc: "cpc",
-      cpm: "cpm",
-      roas: "roas",
-    };
-    const dbField = fieldKeyMap[field] || field as keyof typeof metaAdsData[0];
-    return getUniqueValues(metaAdsData, dbField);
-  }, [metaAdsData]);
+  const slicerFields = useMemo(() => (activeSheet?.slicers || []).map((slicer) => slicer.field), [activeSheet]);
+  const getSlicerValues = useFieldValues(slicerFields);
 
   // Handle slicer updates (only filters, no structural changes)
   const handleUpdateSlicer = useCallback((id: string, updates: Partial<SlicerData>) => {
@@ -146,6 +170,31 @@ function ViewDashboardContent() {
     }
   }, [activeSheet, addFilter, removeFilter]);
 
+  /** Stores a date slicer's range and registers it as a date filter */
+  const handleSlicerDateRangeChange = useCallback((slicer: SlicerData, range: { start: Date | null; end: Date | null }) => {
+    setSlicerDateRanges((prev) => new Map(prev).set(slicer.id, range));
+    if (range.start || range.end) {
+      addFilter({
+        field: slicer.field,
+        values: [],
+        operator: "between",
+        dateRange: range,
+      });
+    } else {
+      removeFilter(slicer.field);
+    }
+  }, [addFilter, removeFilter]);
+
+  /** Stores a relative date slicer's period locally and registers the range it resolves to */
+  const handleSlicerRelativeDateChange = useCallback((slicer: SlicerData, setting: RelativeDateSetting | null) => {
+    setSlicerRelativeDates((prev) => new Map(prev).set(slicer.id, setting));
+    if (setting) {
+      addFilter(getRelativeDateFilter(slicer.field, setting));
+    } else {
+      removeFilter(slicer.field);
+    }
+  }, [addFilter, removeFilter]);
+
   // Handle cross-filter click from visual
   const handleVisualDataClick = useCallback((visualId: string, dimension: string, value: string) => {
     setCrossFilter({
@@ -180,8 +229,6 @@ function ViewDashboardContent() {
     );
   }
 
-  const slotVisuals = activeSheet?.slotVisuals ? new Map(Object.entries(activeSheet.slotVisuals)) : new Map<string, VisualData>();
-
   return (
     <div className="h-screen flex flex-col bg-background">
       {/* Header */}
@@ -198,6 +245,12 @@ function ViewDashboardContent() {
           <span className="px-2 py-0.5 bg-secondary text-secondary-foreground text-xs rounded font-medium">
             View Only
           </span>
+          {dashboard.user_id === user?.id && (
+            <Button variant="outline" size="sm" onClick={() => navigate(`/edit/${dashboard.id}`)}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
         </div>
         <div className="flex items-center gap-3">
           {filters.length > 0 && (
@@ -224,7 +277,7 @@ function ViewDashboardContent() {
           ) : (
             <span className="px-2 py-0.5 bg-primary/10 text-primary text-xs rounded font-medium flex items-center gap-1">
               <Database className="h-3 w-3" />
-              {metaAdsData.length} records
+              {metaAdsCount.toLocaleString()} records
             </span>
           )}
           <Button
@@ -285,9 +338,21 @@ function ViewDashboardContent() {
                   key={slicer.id}
                   {...slicerProps}
                   dateRange={slicerDateRanges.get(slicer.id) || { start: null, end: null }}
-                  onDateRangeChange={(range) => {
-                    setSlicerDateRanges((prev) => new Map(prev).set(slicer.id, range));
-                  }}
+                  onDateRangeChange={(range) => handleSlicerDateRangeChange(slicer, range)}
+                />
+              );
+            }
+            if (slicer.type === "relative-date") {
+              return (
+                <RelativeDateSlicer
+                  key={slicer.id}
+                  {...slicerProps}
+                  relativeDate={
+                    slicerRelativeDates.has(slicer.id)
+                      ? slicerRelativeDates.get(slicer.id) || null
+                      : slicer.relativeDate || null
+                  }
+                  onRelativeDateChange={(setting) => handleSlicerRelativeDateChange(slicer, setting)}
                 />
               );
             }
@@ -317,7 +382,7 @@ function ViewDashboardContent() {
           })}
 
           {/* Render Standalone Visuals */}
-          {activeSheet?.visuals.map((visual) => (
+          {visuals.map((visual) => (
             <div
               key={visual.id}
               className="absolute bg-card rounded-lg border shadow-sm overflow-hidden"
@@ -332,9 +397,13 @@ function ViewDashboardContent() {
                 type={visual.type}
                 data={visual.data}
                 properties={visual.properties}
-                highlightedValue={crossFilter?.value || null}
+                highlightedValue={getCrossFilterHighlight(crossFilter, visual.id)}
                 onDataClick={(dimension, value) => handleVisualDataClick(visual.id, dimension, value)}
-                valueFieldNames={visual.fieldMapping?.values?.map(v => v.name)}
+                valueFieldNames={visual.valueFieldNames || visual.fieldMapping?.values?.map(v => v.name)}
+                config={visual.config}
+                truncation={visual.truncation}
+                rowLimit={visual.rowLimit}
+                status={visual.queryStatus}
               />
             </div>
           ))}
@@ -372,9 +441,13 @@ function ViewDashboardContent() {
                           type={visual.type}
                           data={visual.data}
                           properties={visual.properties}
-                          highlightedValue={crossFilter?.value || null}
+                          highlightedValue={getCrossFilterHighlight(crossFilter, visual.id)}
                           onDataClick={(dimension, value) => handleVisualDataClick(visual.id, dimension, value)}
-                          valueFieldNames={visual.fieldMapping?.values?.map(v => v.name)}
+                          valueFieldNames={visual.valueFieldNames || visual.fieldMapping?.values?.map(v => v.name)}
+                          config={visual.config}
+                          truncation={visual.truncation}
+                          rowLimit={visual.rowLimit}
+                          status={visual.queryStatus}
                         />
                       </div>
                     </div>
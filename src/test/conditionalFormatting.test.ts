@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { getConditionalFormat, getFieldRules } from "@/utils/conditionalFormatting";
+import type { ConditionalRule } from "@/types/dashboard";
+
+const domain = { min: 0, max: 100 };
+
+describe("conditionalFormatting", () => {
+  it("matches rules by value key or display name", () => {
+    const rules: ConditionalRule[] = [
+      { type: "threshold", field: "Spend", conditions: [] },
+      { type: "threshold", field: "value2", conditions: [] },
+    ];
+    expect(getFieldRules(rules, ["value", "Spend"])).toEqual([rules[0]]);
+    expect(getFieldRules(rules, ["value2", "Clicks"])).toEqual([rules[1]]);
+  });
+
+  it("evaluates gradient, threshold, data bar and icon rules", () => {
+    const format = (rule: ConditionalRule, value: number) => getConditionalFormat([rule], value, domain);
+
+    const gradient: ConditionalRule = {
+      type: "gradient",
+      field: "value",
+      conditions: [
+        { operator: "gte", value: 0, color: "#000000" },
+        { operator: "gte", value: 0, color: "#ffffff" },
+      ],
+    };
+    expect(format(gradient, 0).color).toBe("#000000");
+    expect(format(gradient, 50).color).toBe("#808080");
+
+    const threshold: ConditionalRule = {
+      type: "threshold",
+      field: "value",
+      conditions: [
+        { operator: "gte", value: 75, color: "#22c55e" },
+        { operator: "between", value: 25, value2: 74, color: "#f59e0b" },
+      ],
+    };
+    expect(format(threshold, 80).color).toBe("#22c55e");
+    expect(format(threshold, 30).color).toBe("#f59e0b");
+    expect(format(threshold, 10).color).toBeUndefined();
+
+    expect(format({ type: "databar", field: "value", conditions: [{ operator: "gte", value: 0, color: "#0000ff" }] }, 25).dataBar)
+      .toEqual({ percent: 25, color: "#0000ff" });
+
+    expect(format({ type: "icon", field: "value", conditions: [{ operator: "lt", value: 50, icon: "arrow-down" }] }, 10).icon)
+      .toEqual({ name: "arrow-down", color: undefined });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { getBoxPlotStats, getHistogramBins } from "@/utils/distribution";
+
+describe("distribution", () => {
+  it("bins values by count or by a width aligned to its multiples, the last bin closed", () => {
+    expect(getHistogramBins([0, 1, 2, 3, 4], { binCount: 2 })).toEqual([
+      { start: 0, end: 2, count: 2 },
+      { start: 2, end: 4, count: 3 },
+    ]);
+    expect(getHistogramBins([1.1, 1.3, 2.6], { binCount: 2, binWidth: 0.5 }).map((bin) => [bin.start, bin.count])).toEqual([
+      [1, 2],
+      [1.5, 0],
+      [2, 0],
+      [2.5, 1],
+    ]);
+    expect(getHistogramBins([5, 5])).toEqual([{ start: 5, end: 5, count: 2 }]);
+    expect(getHistogramBins([])).toEqual([]);
+  });
+
+  it("finds quartiles and keeps values past 1.5 × IQR out of the whiskers", () => {
+    expect(getBoxPlotStats([1, 2, 3, 4, 5, 6, 7, 8, 100])).toEqual({
+      lowerWhisker: 1,
+      q1: 3,
+      median: 5,
+      q3: 7,
+      upperWhisker: 8,
+      outliers: [100],
+    });
+    expect(getBoxPlotStats([])).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import type { ChartConfig } from "@/components/ChartConfigDropdowns";
+import { applyDrillState, drillDown, drillUp, getDrillFilters, getDrillHierarchy, getDrillState } from "@/utils/drill";
+
+describe("drill", () => {
+  it("drills a date axis into one period and back up", () => {
+    const config: ChartConfig = { measure: "Spend", groupBy: "", dateGranularity: "year" };
+    const hierarchy = getDrillHierarchy("line", config)!;
+
+    const drilled = drillDown(config, hierarchy, "2024-01-01");
+    expect(drilled.dateGranularity).toBe("quarter");
+    expect(getDrillFilters(drilled)[0].dateRange).toEqual({ start: new Date(2024, 0, 1), end: new Date(2024, 11, 31) });
+
+    expect(drillUp(drilled, hierarchy)).toMatchObject({ dateGranularity: "year", drillPath: [] });
+  });
+
+  it("expands every campaign into its ad sets without filtering", () => {
+    const config: ChartConfig = { measure: "Spend", groupBy: "Campaign Name", dateGranularity: "none" };
+    const expanded = drillDown(config, getDrillHierarchy("bar", config)!, null);
+
+    expect(expanded.groupBy).toBe("Ad Set Name");
+    expect(getDrillFilters(expanded)).toEqual([]);
+    expect(getDrillHierarchy("bar", { ...config, dateGranularity: "month" })).toBeNull();
+  });
+
+  it("keeps a drill apart from the saved config and reapplies it", () => {
+    const saved: ChartConfig = { measure: "Spend", groupBy: "Campaign Name", dateGranularity: "none" };
+    const state = getDrillState(drillDown(saved, getDrillHierarchy("bar", saved)!, "Holiday Sale"));
+
+    expect(applyDrillState(saved, state)).toEqual({
+      measure: "Spend",
+      groupBy: "Ad Set Name",
+      dateGranularity: "none",
+      drillPath: [{ level: "Campaign Name", value: "Holiday Sale" }],
+    });
+    expect(applyDrillState(saved)).toBe(saved);
+  });
+});
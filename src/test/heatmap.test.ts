@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { getHeatmapColors, getHeatmapGrid } from "@/utils/heatmap";
+import type { ChartConfig } from "@/components/ChartConfigDropdowns";
+
+describe("heatmap", () => {
+  const config: ChartConfig = { measure: "Spend", groupBy: "", dateGranularity: "none" };
+
+  it("lays days out as weekday rows by Monday-start week columns, leaving missing days empty", () => {
+    // Wednesday 3 Jan and Monday 15 Jan 2024
+    const grid = getHeatmapGrid(
+      [
+        { id: "1", category: "2024-01-03", value: 10 },
+        { id: "2", category: "2024-01-15", value: 20 },
+      ],
+      config
+    );
+    expect(grid.rows[0]).toBe("Mon");
+    expect(grid.columns).toEqual(["2024-01-01", "2024-01-08", "2024-01-15"]);
+    expect(grid.cells[2][0]?.value).toBe(10);
+    expect(grid.cells[0][2]?.value).toBe(20);
+    expect(grid.cells[0][1]).toBeNull();
+  });
+
+  it("sorts two-dimension rows and columns naturally", () => {
+    const grid = getHeatmapGrid(
+      [
+        { id: "1", category: "25-34", column: "Mobile", value: 1 },
+        { id: "2", category: "18-24", column: "Desktop", value: 2 },
+      ],
+      { ...config, heatmapLayout: "dimensions" }
+    );
+    expect([grid.rows, grid.columns]).toEqual([["18-24", "25-34"], ["Desktop", "Mobile"]]);
+    expect(grid.cells[0][0]?.value).toBe(2);
+    expect(grid.cells[0][1]).toBeNull();
+    expect(getHeatmapColors(undefined, "#3b82f6")).toEqual(["#f1f5f9", "#3b82f6"]);
+  });
+});
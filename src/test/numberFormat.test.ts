@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { formatNumber, getNumberFormatter } from "@/utils/numberFormat";
+
+describe("numberFormat", () => {
+  it("formats numbers with format strings", () => {
+    expect(formatNumber(1234.567, "$#,0.00")).toBe("$1,234.57");
+    expect(formatNumber(12.3456, "0.00%")).toBe("12.35%");
+    expect(formatNumber(1234567, "$0.0a")).toBe("$1.2M");
+    expect(formatNumber(-0.5, "#,0.##")).toBe("-0.5");
+  });
+
+  it("defaults to the measure's data type unless the visual overrides it", () => {
+    expect(getNumberFormatter("Spend")(1500)).toBe("$1,500.00");
+    expect(getNumberFormatter("Spend", undefined, "count")(1500)).toBe("1,500");
+    expect(getNumberFormatter("Spend", "0.0a")(1500)).toBe("1.5K");
+    expect(getNumberFormatter("Clicks")(1500, { compact: true })).toBe("1.5K");
+  });
+});
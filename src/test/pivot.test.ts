@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { buildPivot } from "@/utils/pivot";
+import type { DataPoint } from "@/components/DataEditor";
+
+const point = (fields: Record<string, string | number>): DataPoint => ({
+  id: crypto.randomUUID(),
+  category: "",
+  value: 0,
+  ...fields,
+});
+
+describe("pivot", () => {
+  it("orders rows parent-first and puts column totals after their group", () => {
+    const layout = { rows: ["Campaign Name", "Ad Set Name"], columns: ["Platform"], measures: ["Spend"] };
+    const pivot = buildPivot(
+      [
+        point({ "Campaign Name": "Sale", "Ad Set Name": "B", Platform: "IG", Spend: 20 }),
+        point({ "Campaign Name": "Sale", "Ad Set Name": "A", Platform: "FB", Spend: 10 }),
+        point({ "Campaign Name": "Sale", "Ad Set Name": "A", Spend: 10 }),
+        point({ "Campaign Name": "Sale", Platform: "FB", Spend: 10 }),
+        point({ "Campaign Name": "Sale", Spend: 30 }),
+        point({ Spend: 30 }),
+      ],
+      layout
+    );
+
+    expect(pivot.rows.map((r) => r.path)).toEqual([["Sale"], ["Sale", "A"], ["Sale", "B"]]);
+    expect(pivot.rows.map((r) => r.hasChildren)).toEqual([true, false, false]);
+    expect(pivot.columns).toEqual([
+      { path: ["FB"], isTotal: false },
+      { path: ["IG"], isTotal: false },
+      { path: [], isTotal: true },
+    ]);
+    expect(pivot.getValue(["Sale"], ["FB"], "Spend")).toBe(10);
+    expect(pivot.getValue(["Sale"], [], "Spend")).toBe(30);
+    expect(pivot.getValue([], [], "Spend")).toBe(30);
+    expect(pivot.getValue(["Sale", "B"], ["FB"], "Spend")).toBeUndefined();
+  });
+});
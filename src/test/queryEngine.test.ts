@@ -0,0 +1,445 @@
+import { describe, it, expect } from "vitest";
+import { aggregateLocally, applyFilters, planFieldValuesQuery, planVisualQuery, runVisualQuery } from "@/utils/queryEngine";
+import type { MetaAdsCampaign } from "@/hooks/useMetaAdsData";
+
+const row = (overrides: Partial<MetaAdsCampaign>): MetaAdsCampaign => ({
+  id: crypto.randomUUID(),
+  campaign_id: "camp_0001",
+  campaign_name: "Brand Awareness",
+  ad_set_name: "Lookalike 1%",
+  impressions: 1000,
+  clicks: 10,
+  spend: 100,
+  conversions: 1,
+  ctr: 1,
+  cpc: 10,
+  cpm: 100,
+  roas: 2,
+  date: "2024-01-01",
+  ...overrides,
+});
+
+const rows = [
+  row({ campaign_name: "Brand Awareness", spend: 100 }),
+  row({ campaign_name: "Brand Awareness", spend: 50 }),
+  row({ campaign_name: "Holiday Sale", spend: 300 }),
+];
+
+describe("queryEngine", () => {
+  it("aggregates a measure by a dimension", () => {
+    const result = runVisualQuery("bar", { measure: "Spend", groupBy: "Campaign Name", dateGranularity: "none" }, rows);
+    expect(result?.data.map((d) => [d.category, d.value])).toEqual([
+      ["Holiday Sale", 300],
+      ["Brand Awareness", 150],
+    ]);
+    expect(result?.title).toBe("Spend by Campaign Name");
+  });
+
+  it("returns null for an incomplete config", () => {
+    expect(runVisualQuery("bar", { measure: "Spend", groupBy: "", dateGranularity: "none" }, rows)).toBeNull();
+  });
+
+  it("returns no data for dimensions the data source does not provide", () => {
+    const result = runVisualQuery("bar", { measure: "Spend", groupBy: "Platform", dateGranularity: "none" }, rows);
+    expect(result?.data).toEqual([]);
+  });
+
+  it("aggregates derived metrics as a ratio of sums", () => {
+    const result = runVisualQuery(
+      "bar",
+      { measure: "CTR", groupBy: "Campaign Name", dateGranularity: "none" },
+      [
+        row({ clicks: 1, impressions: 100 }),   // 1% on its own
+        row({ clicks: 90, impressions: 900 }),  // 10% on its own
+      ]
+    );
+    // 91 / 1000 * 100, not the 5.5% average of the two row-level rates
+    expect(result?.data[0].value).toBe(9.1);
+  });
+
+  it("honours the aggregation chosen for a measure", () => {
+    const result = runVisualQuery(
+      "bar",
+      { measure: "Spend", groupBy: "Campaign Name", dateGranularity: "none", aggregation: "avg" },
+      rows
+    );
+    expect(result?.data.map((d) => [d.category, d.value])).toEqual([
+      ["Holiday Sale", 300],
+      ["Brand Awareness", 75],
+    ]);
+    expect(result?.title).toBe("Average of Spend by Campaign Name");
+  });
+
+  it("takes the min and max of more rows than fit on the call stack", () => {
+    const many = Array.from({ length: 200_000 }, (_, i) => ({ ...rows[0], spend: i }));
+    const config = { measure: "Spend" as const, groupBy: "Campaign Name" as const, dateGranularity: "none" as const };
+    expect(runVisualQuery("bar", { ...config, aggregation: "max" }, many)?.data[0].value).toBe(199_999);
+    expect(runVisualQuery("bar", { ...config, aggregation: "min" }, many)?.data[0].value).toBe(0);
+  });
+
+  it("reduces a card with its calculation, including the last value", () => {
+    const dated = [
+      row({ date: "2024-01-01", spend: 100 }),
+      row({ date: "2024-01-03", spend: 30 }),
+      row({ date: "2024-01-03", spend: 20 }),
+      row({ date: "2024-01-02", spend: 500 }),
+    ];
+    const card = (calculation: "sum" | "max" | "last") =>
+      runVisualQuery("card", { measure: "Spend", groupBy: "", dateGranularity: "none", calculation }, dated)?.data[0].value;
+
+    expect(card("sum")).toBe(650);
+    expect(card("max")).toBe(500);
+    expect(card("last")).toBe(50);
+  });
+
+  it("totals the last value over each group's own latest date, like the server", () => {
+    const dated = [
+      row({ campaign_name: "Brand Awareness", date: "2024-01-01", spend: 100 }),
+      row({ campaign_name: "Brand Awareness", date: "2024-01-03", spend: 30 }),
+      row({ campaign_name: "Holiday Sale", date: "2024-01-02", spend: 500 }),
+    ];
+    const result = aggregateLocally(dated, {
+      groupBy: ["campaign_name"],
+      granularity: "none",
+      measures: [{ numerator: "spend", denominator: null, multiplier: 1, aggregation: "last" }],
+      filters: [],
+      groupingSets: [["campaign_name"], []],
+    });
+
+    expect(result.map((r) => [r.dimensions[0], r.values[0]])).toEqual([
+      ["Brand Awareness", 30],
+      ["Holiday Sale", 500],
+      [null, 530],
+    ]);
+  });
+
+  it("adds a card's target and daily sparkline, and reduces each measure of a multi-row card", () => {
+    const dated = [
+      row({ date: "2024-01-01", spend: 100 }),
+      row({ date: "2024-01-03", spend: 50 }),
+    ];
+    const card = runVisualQuery("card", { measure: "Spend", groupBy: "", dateGranularity: "day", targetValue: 200 }, dated);
+    expect(card?.data.map((d) => [d.category, d.value, d.target, d.isSparkline])).toEqual([
+      ["Spend", 150, 200, undefined],
+      ["2024-01-01", 100, undefined, 1],
+      ["2024-01-02", 0, undefined, 1],
+      ["2024-01-03", 50, undefined, 1],
+    ]);
+
+    const multiRow = runVisualQuery(
+      "card",
+      { measure: "", groupBy: "", dateGranularity: "none", cardVariant: "multiRow", cardMeasures: ["Spend", "Clicks"] },
+      dated
+    );
+    expect(multiRow?.data.map((d) => [d.category, d.value])).toEqual([["Spend", 150], ["Clicks", 20]]);
+  });
+
+  it("plans charts as an aggregate request in source column terms", () => {
+    const plan = planVisualQuery(
+      "bar",
+      { measure: "CTR", groupBy: "Campaign Name", dateGranularity: "month" },
+      [
+        { field: "Campaign Name", values: ["Brand Awareness"], operator: "equals" },
+        { field: "Ad Set Name", values: [], operator: "equals" },
+      ]
+    );
+    expect(plan?.request).toEqual({
+      groupBy: ["campaign_name"],
+      granularity: "month",
+      measures: [{ numerator: "clicks", denominator: "impressions", multiplier: 100, aggregation: "sum" }],
+      filters: [{ column: "campaign_name", operator: "equals", values: ["Brand Awareness"] }],
+    });
+    expect(
+      plan?.shape([{ dimensions: ["Brand Awareness"], period: "2024-01-01", values: [1.234] }]).data.map((d) => [d.category, d.value])
+    ).toEqual([["Brand Awareness - Jan 2024", 1.23]]);
+  });
+
+  it("aggregates matrix subtotals and grand totals from the rows", () => {
+    const result = runVisualQuery(
+      "matrix",
+      { measure: "CTR", groupBy: "", dateGranularity: "none", matrixRows: ["Campaign Name", "Ad Set Name"] },
+      [
+        row({ campaign_name: "Sale", ad_set_name: "A", clicks: 1, impressions: 100 }),
+        row({ campaign_name: "Sale", ad_set_name: "B", clicks: 90, impressions: 900 }),
+      ]
+    );
+    const ctr = (campaign?: string, adSet?: string) =>
+      result?.data.find((d) => d["Campaign Name"] === campaign && d["Ad Set Name"] === adSet)?.CTR;
+
+    expect(ctr("Sale", "A")).toBe(1);
+    expect(ctr("Sale", "B")).toBe(10);
+    expect(ctr("Sale", undefined)).toBe(9.1);
+    expect(ctr(undefined, undefined)).toBe(9.1);
+  });
+
+  it("plots scatter points from two measures and sizes them by a third", () => {
+    const result = runVisualQuery(
+      "scatter",
+      { measure: "Spend", measure2: "Clicks", sizeMeasure: "Leads", groupBy: "Campaign Name", dateGranularity: "none" },
+      rows
+    );
+    expect(result?.data.find((d) => d.category === "Brand Awareness")).toMatchObject({ value: 150, value2: 20, value3: 2 });
+    expect(result?.valueFieldNames).toEqual(["Spend", "Clicks", "Leads"]);
+  });
+
+  it("splits a chart into one series per legend value", () => {
+    const result = runVisualQuery(
+      "bar",
+      { measure: "Spend", groupBy: "Campaign Name", legend: "Ad Set Name", dateGranularity: "none" },
+      [
+        row({ campaign_name: "Sale", ad_set_name: "Retargeting", spend: 100 }),
+        row({ campaign_name: "Sale", ad_set_name: "Broad", spend: 20 }),
+        row({ campaign_name: "Launch", ad_set_name: "Retargeting", spend: 50 }),
+      ]
+    );
+    expect(result?.valueFieldNames).toEqual(["Broad", "Retargeting"]);
+    expect(result?.data.map(({ category, value, value2 }) => ({ category, value, value2 }))).toEqual([
+      { category: "Sale", value: 20, value2: 100 },
+      { category: "Launch", value: 0, value2: 50 },
+    ]);
+  });
+
+  it("plots line charts split by date on a chronological axis with empty periods filled", () => {
+    const result = runVisualQuery(
+      "line",
+      { measure: "Spend", groupBy: "Campaign Name", dateGranularity: "month", sortBy: "value-desc" },
+      [
+        row({ campaign_name: "Sale", spend: 10, date: "2024-03-15" }),
+        row({ campaign_name: "Launch", spend: 30, date: "2024-01-20" }),
+        row({ campaign_name: "Sale", spend: 5, date: "2024-01-02" }),
+      ]
+    );
+    expect(result?.valueFieldNames).toEqual(["Launch", "Sale"]);
+    expect(result?.data.map(({ category, value, value2 }) => [category, value, value2])).toEqual([
+      ["2024-01-01", 30, 5],
+      ["2024-02-01", 0, 0],
+      ["2024-03-01", 0, 10],
+    ]);
+  });
+
+  it("keeps the top N categories and rebuilds the rest as Others", () => {
+    const result = runVisualQuery(
+      "pie",
+      { measure: "CPC", groupBy: "Campaign Name", dateGranularity: "none", topNCount: 1, showOthers: true },
+      [
+        row({ campaign_name: "Sale", spend: 100, clicks: 10 }),
+        row({ campaign_name: "Launch", spend: 30, clicks: 10 }),
+        row({ campaign_name: "Brand", spend: 10, clicks: 30 }),
+      ]
+    );
+    // Others CPC is (30 + 10) / (10 + 30), not the sum of 3 and 0.33
+    expect(result?.data.map((d) => [d.category, d.value])).toEqual([
+      ["Sale", 10],
+      ["Others", 1],
+    ]);
+    expect(result?.truncation).toEqual({ mode: "top", shown: 1, total: 3, others: true });
+    expect(result?.data.map((d) => [d.dimensionValue, d.isOthers])).toEqual([
+      ["Sale", undefined],
+      [undefined, 1],
+    ]);
+  });
+
+  it("ranks and counts Top N categories by group value and period", () => {
+    const result = runVisualQuery(
+      "bar",
+      { measure: "Spend", groupBy: "Campaign Name", dateGranularity: "week", topNCount: 2 },
+      ["2024-01-01", "2024-01-08", "2024-01-15", "2024-01-22"].map((date, i) =>
+        row({ campaign_name: "Lead Generation", spend: (i + 1) * 100, date })
+      )
+    );
+    expect(result?.data.map((d) => d.value)).toEqual([400, 300]);
+    expect(result?.truncation).toEqual({ mode: "top", shown: 2, total: 4, others: false });
+  });
+
+  it("keeps the full group-by value on points, and groups and series whose names read alike apart", () => {
+    const name = "Spring Collection Launch - Retargeting Audiences";
+    const single = runVisualQuery("bar", { measure: "Spend", groupBy: "Campaign Name", dateGranularity: "none" }, [
+      row({ campaign_name: name }),
+    ]);
+    expect(single?.data[0]).toMatchObject({ category: name, dimensionValue: name });
+
+    // Two weeks of one campaign, split by ad sets that share their first 30 characters
+    const adSet = "Lookalike Audience - United States";
+    const result = runVisualQuery(
+      "bar",
+      { measure: "CPC", groupBy: "Campaign Name", legend: "Ad Set Name", dateGranularity: "week" },
+      [
+        row({ campaign_name: "Lead Generation", ad_set_name: `${adSet} 1%`, spend: 100, clicks: 10, date: "2024-01-01" }),
+        row({ campaign_name: "Lead Generation", ad_set_name: `${adSet} 2%`, spend: 200, clicks: 10, date: "2024-01-08" }),
+      ]
+    );
+    expect(result?.valueFieldNames).toEqual([`${adSet} 1%`, `${adSet} 2%`]);
+    expect(result?.data.map((d) => [d.value, d.value2]).sort()).toEqual([[0, 20], [10, 0]]);
+  });
+
+  it("compares a card and a time axis with the previous period under the date filter", () => {
+    const dated = [
+      row({ spend: 40, date: "2024-01-20" }),
+      row({ spend: 100, date: "2024-02-10" }),
+      row({ spend: 30, date: "2024-02-20" }),
+      row({ spend: 10, date: "2024-03-05" }),
+    ];
+    // Feb 1 - Mar 31 is compared with the 60 days before it, Dec 3 - Jan 31
+    const filters = [
+      { field: "date", values: [], operator: "between" as const, dateRange: { start: new Date(2024, 1, 1), end: new Date(2024, 2, 31) } },
+    ];
+
+    const card = runVisualQuery("card", { measure: "Spend", groupBy: "", dateGranularity: "none", comparison: "previousPeriod" }, dated, filters);
+    expect(card?.data[0]).toMatchObject({ value: 140, comparison: 40 });
+
+    // Periods line up by position: Feb with Dec, Mar with Jan
+    const line = runVisualQuery("line", { measure: "Spend", groupBy: "", dateGranularity: "month", comparison: "previousPeriod" }, dated, filters);
+    expect(line?.data.map((d) => [d.category, d.value, d.comparison, d.comparisonCategory])).toEqual([
+      ["2024-02-01", 130, 0, "2023-12-01"],
+      ["2024-03-01", 10, 40, "2024-01-01"],
+    ]);
+  });
+
+  it("shows every raw row in a table, or one row per dimension combination when aggregated", () => {
+    const config = { measure: "" as const, groupBy: "" as const, dateGranularity: "none" as const, selectedColumns: ["Campaign Name", "Spend"] };
+    expect(runVisualQuery("table", config, rows)?.data.filter((d) => !d.isTotal)).toHaveLength(3);
+    expect(planVisualQuery("table", config)).toBeNull();
+
+    const result = runVisualQuery("table", { ...config, tableAggregate: true }, rows);
+    expect(result?.data.map((d) => [d["Campaign Name"], d.Spend, d.isTotal])).toEqual([
+      ["Holiday Sale", 300, undefined],
+      ["Brand Awareness", 150, undefined],
+      [undefined, 450, 1],
+    ]);
+    expect(planVisualQuery("table", { ...config, tableAggregate: true })?.request?.groupBy).toEqual(["campaign_name"]);
+  });
+
+  it("totals a table's measures with their own aggregation, derived ones as a ratio of sums", () => {
+    const tableRows = [
+      row({ campaign_name: "Brand Awareness", spend: 100, clicks: 10 }),
+      row({ campaign_name: "Holiday Sale", spend: 300, clicks: 100 }),
+    ];
+    const config = { measure: "" as const, groupBy: "" as const, dateGranularity: "none" as const, selectedColumns: ["Campaign Name", "Spend", "CPC"] };
+
+    // (100 + 300) / (10 + 100), not the sum of each row's CPC (10 + 3)
+    const raw = runVisualQuery("table", config, tableRows)?.data.find((d) => d.isTotal);
+    expect([raw?.Spend, raw?.CPC]).toEqual([400, 3.64]);
+
+    const averaged = runVisualQuery("table", { ...config, tableAggregate: true, aggregation: "avg" }, tableRows)?.data.find((d) => d.isTotal);
+    expect([averaged?.Spend, averaged?.CPC]).toEqual([200, 6.5]);
+  });
+
+  it("aggregates a bullet's measure against a target measure or a constant target", () => {
+    const config = { measure: "Spend" as const, groupBy: "Campaign Name" as const, dateGranularity: "none" as const };
+    const bullet = runVisualQuery("bullet", { ...config, targetMeasure: "Clicks" }, rows);
+    expect(bullet?.data.map((d) => [d.category, d.value, d.target])).toEqual([
+      ["Holiday Sale", 300, 10],
+      ["Brand Awareness", 150, 20],
+    ]);
+
+    const gauge = runVisualQuery("gauge", { ...config, targetValue: 500 }, rows);
+    expect(gauge?.data.map((d) => [d.category, d.value, d.target])).toEqual([["Spend", 450, 500]]);
+  });
+
+  it("aggregates a heatmap per day in date order, or per pair of dimensions", () => {
+    const days = [
+      row({ date: "2024-01-03", spend: 40 }),
+      row({ date: "2024-01-01", spend: 100 }),
+      row({ date: "2024-01-03", spend: 60, ad_set_name: "Retargeting" }),
+    ];
+    const config = { measure: "Spend" as const, groupBy: "" as const, dateGranularity: "none" as const };
+    const calendar = runVisualQuery("heatmap", config, days);
+    expect(calendar?.data.map((d) => [d.category, d.value])).toEqual([
+      ["2024-01-01", 100],
+      ["2024-01-03", 100],
+    ]);
+
+    const grid = { ...config, heatmapLayout: "dimensions" as const, groupBy: "Campaign Name" as const, heatmapColumns: "Ad Set Name" as const };
+    expect(runVisualQuery("heatmap", { ...grid, heatmapColumns: "" }, days)).toBeNull();
+    expect(runVisualQuery("heatmap", grid, days)?.data.map((d) => [d.category, d.column, d.value])).toEqual(
+      expect.arrayContaining([
+        ["Brand Awareness", "Lookalike 1%", 140],
+        ["Brand Awareness", "Retargeting", 60],
+      ])
+    );
+  });
+
+  it("summarises row-level values into histogram bins and box plots with outliers", () => {
+    const spread = [10, 11, 12, 13, 14, 15, 90].map((cpc, i) =>
+      row({ campaign_name: "Brand Awareness", ad_set_name: `Set ${i}`, clicks: 10, spend: cpc * 10 })
+    );
+    const noClicks = row({ campaign_name: "Holiday Sale", clicks: 0, spend: 500 });
+    const config = { measure: "CPC" as const, groupBy: "Campaign Name" as const, dateGranularity: "none" as const };
+
+    const histogram = runVisualQuery("histogram", { ...config, binWidth: 50 }, [...spread, noClicks]);
+    expect(histogram?.data.map((d) => [d.binStart, d.binEnd, d.value])).toEqual([
+      [0, 50, 6],
+      [50, 100, 1],
+    ]);
+    expect(planVisualQuery("histogram", config)).toBeNull();
+
+    // Rows without clicks have no CPC, so Holiday Sale gets no box
+    const boxPlot = runVisualQuery("boxplot", config, [...spread, noClicks]);
+    expect(boxPlot?.data.map((d) => [d.category, d.value, d.q1, d.q3, d.upperWhisker, d.isOutlier, d.label])).toEqual([
+      ["Brand Awareness", 13, 11.5, 14.5, 15, undefined, undefined],
+      ["Brand Awareness", 90, undefined, undefined, undefined, 1, "Set 6 (2024-01-01)"],
+    ]);
+  });
+
+  it("builds funnel stages from measures in their configured order", () => {
+    const result = runVisualQuery(
+      "funnel",
+      { measure: "Impression", groupBy: "", dateGranularity: "none", funnelStages: "measures", funnelMeasures: ["Impression", "Clicks", "Leads"] },
+      rows
+    );
+    expect(result?.data.map((d) => [d.category, d.value])).toEqual([
+      ["Impression", 3000],
+      ["Clicks", 30],
+      ["Leads", 3],
+    ]);
+  });
+
+  it("plans slicer values as distinct dimension values, days with data, or a measure's range", () => {
+    const campaigns = planFieldValuesQuery("Campaign Name");
+    expect(campaigns?.request).toEqual({ groupBy: ["campaign_name"], granularity: "none", measures: [], filters: [] });
+    expect(campaigns?.values([{ dimensions: ["Holiday Sale"], period: null, values: [] }])).toEqual(["Holiday Sale"]);
+
+    expect(planFieldValuesQuery("date")?.request.granularity).toBe("day");
+
+    const ctr = planFieldValuesQuery("CTR");
+    expect(ctr?.request.measures.map((m) => m.aggregation)).toEqual(["min", "max"]);
+    expect(ctr?.values([{ dimensions: [], period: null, values: [0.514, 4.2] }])).toEqual([0.51, 4.2]);
+
+    expect(planFieldValuesQuery("Age")).toBeNull();
+  });
+
+  it("applies slicer filters by their UI field name before aggregating", () => {
+    const result = runVisualQuery(
+      "bar",
+      { measure: "Spend", groupBy: "Campaign Name", dateGranularity: "none" },
+      rows,
+      [{ field: "Campaign Name", values: ["Brand Awareness"], operator: "equals" }]
+    );
+    expect(result?.data.map((d) => [d.category, d.value])).toEqual([["Brand Awareness", 150]]);
+  });
+
+  it("filters numeric ranges", () => {
+    const filtered = applyFilters(rows, [
+      { field: "Spend", values: [], operator: "between", numericRange: { min: 75, max: 400 } },
+    ]);
+    expect(filtered.map((r) => r.spend)).toEqual([100, 300]);
+  });
+
+  it("filters date ranges by whole calendar days, inclusive of both ends", () => {
+    const dated = [
+      row({ date: "2024-01-01" }),
+      row({ date: "2024-01-15" }),
+      row({ date: "2024-01-31" }),
+      row({ date: "2024-02-01" }),
+    ];
+    const filtered = applyFilters(dated, [
+      {
+        field: "date",
+        values: [],
+        operator: "between",
+        dateRange: { start: new Date(2024, 0, 15, 13, 30), end: new Date(2024, 0, 31, 9, 0) },
+      },
+    ]);
+    expect(filtered.map((r) => r.date)).toEqual(["2024-01-15", "2024-01-31"]);
+  });
+});
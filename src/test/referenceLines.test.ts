@@ -0,0 +1,19 @@
+import { describe, it, expect } from "vitest";
+import { getReferenceLineName, getReferenceLineValue } from "@/utils/referenceLines";
+
+describe("referenceLines", () => {
+  const values = [4, 1, 3, 2];
+
+  it("computes lines from the plotted values", () => {
+    expect(getReferenceLineValue({ type: "average", field: "ROAS" }, values)).toEqual({ y: 2.5 });
+    expect(getReferenceLineValue({ type: "median", field: "ROAS" }, values)).toEqual({ y: 2.5 });
+    expect(getReferenceLineValue({ type: "percentile", field: "ROAS", percentile: 100 }, values)).toEqual({ y: 4 });
+    expect(getReferenceLineValue({ type: "average", field: "ROAS" }, [])).toBeNull();
+  });
+
+  it("orders band ends and names lines by their type unless labelled", () => {
+    expect(getReferenceLineValue({ type: "band", field: "CPL", value: 20, value2: 10 }, [])).toEqual({ y: 10, y2: 20 });
+    expect(getReferenceLineName({ type: "percentile", field: "CPL", percentile: 75 })).toBe("75th percentile");
+    expect(getReferenceLineName({ type: "constant", field: "CPL", label: "Target CPA" })).toBe("Target CPA");
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from "vitest";
+import { getRelativeDateRange } from "@/utils/relativeDates";
+
+// Wednesday, May 15 2024, mid-afternoon
+const today = new Date(2024, 4, 15, 15, 30);
+
+describe("getRelativeDateRange", () => {
+  it("ends rolling windows today and includes today", () => {
+    expect(getRelativeDateRange({ period: "last-n-days", count: 7 }, today)).toEqual({
+      start: new Date(2024, 4, 9),
+      end: new Date(2024, 4, 15),
+    });
+    expect(getRelativeDateRange({ period: "last-n-weeks", count: 2 }, today).start).toEqual(new Date(2024, 4, 2));
+    expect(getRelativeDateRange({ period: "last-n-months", count: 3 }, today).start).toEqual(new Date(2024, 1, 16));
+  });
+
+  it("resolves calendar quarters and year to date", () => {
+    expect(getRelativeDateRange({ period: "this-quarter" }, today)).toEqual({
+      start: new Date(2024, 3, 1),
+      end: new Date(2024, 5, 30),
+    });
+    expect(getRelativeDateRange({ period: "previous-quarter" }, today)).toEqual({
+      start: new Date(2024, 0, 1),
+      end: new Date(2024, 2, 31),
+    });
+    expect(getRelativeDateRange({ period: "year-to-date" }, today)).toEqual({
+      start: new Date(2024, 0, 1),
+      end: new Date(2024, 4, 15),
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { getCrossFilterFilters, getCrossFilterHighlight, getTargetBands, getTargetPercent, getTargetScale, getTargetStatus, isFilteredByCrossFilter } from "@/utils/targets";
+import type { ChartConfig } from "@/components/ChartConfigDropdowns";
+
+describe("targets", () => {
+  const config: ChartConfig = { measure: "Spend", groupBy: "", dateGranularity: "none" };
+  const point = { id: "1", category: "Spend", value: 7600, target: 8000 };
+
+  it("rounds the automatic max up past the value and target unless a max is set", () => {
+    expect(getTargetScale([point], config)).toEqual({ min: 0, max: 10000 });
+    expect(getTargetScale([point], { ...config, rangeMin: 1000, rangeMax: 9000 })).toEqual({ min: 1000, max: 9000 });
+    expect(getTargetPercent(point)).toBe(95);
+  });
+
+  it("places band edges as percentages of the target, clamped to the scale", () => {
+    const scale = { min: 0, max: 10000 };
+    expect(getTargetBands({ ...config, targetBands: [100, 80, 200] }, point, scale)).toEqual([
+      { from: 0, to: 6400 },
+      { from: 6400, to: 8000 },
+      { from: 8000, to: 10000 },
+    ]);
+    expect(getTargetBands(config, point, scale)).toEqual([]);
+  });
+
+  it("rates a card against its target, inverting the ratio where lower is better", () => {
+    expect(getTargetStatus(point, config)).toBe("atRisk");
+    expect(getTargetStatus({ ...point, value: 6000 }, config)).toBe("offTrack");
+    expect(getTargetStatus({ ...point, value: 6000 }, { ...config, atRiskPercent: 70 })).toBe("atRisk");
+    expect(getTargetStatus(point, { ...config, lowerIsBetter: true })).toBe("onTrack");
+    expect(getTargetStatus({ ...point, target: undefined }, config)).toBeNull();
+  });
+
+  it("turns a cross-filter selection into the source visual's dimension or period filter", () => {
+    const bar = { type: "bar" as const, config: { ...config, groupBy: "Campaign Name" as const } };
+    expect(getCrossFilterFilters({ sourceVisualId: "a", dimension: "category", value: "Holiday Sale" }, bar)).toEqual([
+      { field: "Campaign Name", values: ["Holiday Sale"], operator: "equals" },
+    ]);
+
+    const line = { type: "line" as const, config: { ...config, dateGranularity: "month" as const } };
+    const [filter] = getCrossFilterFilters({ sourceVisualId: "a", dimension: "category", value: "2024-02-01" }, line);
+    expect(filter.dateRange?.end?.getDate()).toBe(29);
+
+    // A calendar heatmap's day, whatever the source's config
+    const [day] = getCrossFilterFilters({ sourceVisualId: "a", dimension: "date", value: "2024-02-10" }, bar);
+    expect([day.field, day.dateRange?.start.getDate(), day.dateRange?.end.getDate()]).toEqual(["date", 10, 10]);
+    expect(getCrossFilterFilters(null, bar)).toEqual([]);
+  });
+
+  it("filters every visual by a heatmap day instead of dimming what doesn't match", () => {
+    const day = { sourceVisualId: "heatmap", dimension: "date", value: "2024-02-10" };
+    expect([isFilteredByCrossFilter(day, "bar"), getCrossFilterHighlight(day, "bar-1")]).toEqual([true, null]);
+    expect(getCrossFilterHighlight(day, "heatmap")).toBe("2024-02-10");
+
+    const campaign = { sourceVisualId: "bar-1", dimension: "category", value: "Holiday Sale" };
+    expect([isFilteredByCrossFilter(campaign, "bar"), isFilteredByCrossFilter(campaign, "gauge")]).toEqual([false, true]);
+    expect(getCrossFilterHighlight(campaign)).toBe("Holiday Sale");
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { applyTimeSeriesAnalytics, getMovingAverage } from "@/utils/timeSeriesAnalytics";
+import type { DataPoint } from "@/components/DataEditor";
+
+const series = (values: number[]): DataPoint[] =>
+  values.map((value, i) => ({ id: String(i), category: `2024-0${i + 1}-01`, value }));
+
+describe("timeSeriesAnalytics", () => {
+  it("averages the trailing window once it is full", () => {
+    expect(getMovingAverage([1, 2, 3, 4], 2)).toEqual([null, 1.5, 2.5, 3.5]);
+  });
+
+  it("fits a trend and forecasts the next periods as flagged points", () => {
+    const result = applyTimeSeriesAnalytics(series([10, 20, 30, 40]), { trendLine: true, forecastPeriods: 2 }, "month");
+
+    expect(result.map((d) => d.trend)).toEqual([10, 20, 30, 40, 50, 60]);
+    expect(result[3]).toMatchObject({ value: 40, forecast: 40 });
+    expect(result.slice(4).map((d) => [d.category, d.isForecast, d.forecast])).toEqual([
+      ["2024-05-01", 1, 50],
+      ["2024-06-01", 1, 60],
+    ]);
+    // A perfectly linear series leaves no error to widen the band
+    expect(result[5]).toMatchObject({ forecastLower: 60, forecastUpper: 60 });
+  });
+});
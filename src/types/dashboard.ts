@@ -16,6 +16,20 @@ export interface FilterValue {
   };
 }
 
+export type RelativeDatePeriod =
+  | "last-n-days"
+  | "last-n-weeks"
+  | "last-n-months"
+  | "this-quarter"
+  | "previous-quarter"
+  | "year-to-date";
+
+/** Rolling date window, resolved against today's date whenever it is applied */
+export interface RelativeDateSetting {
+  period: RelativeDatePeriod;
+  count?: number; // N for the "last-n-*" periods
+}
+
 export interface SlicerData {
   id: string;
   type: SlicerType;
@@ -27,10 +41,28 @@ export interface SlicerData {
   size: { width: number; height: number };
   multiSelect?: boolean;
   showSearch?: boolean;
+  relativeDate?: RelativeDateSetting; // For relative-date slicers
 }
 
 export type TimeGranularity = "none" | "day" | "week" | "month" | "quarter" | "year";
 
+/** How a visual's categories were cut to its Top/Bottom N setting */
+export interface DataTruncation {
+  mode: "top" | "bottom";
+  shown: number;    // Categories kept, not counting "Others"
+  total: number;    // Categories before the cut
+  others: boolean;  // Whether the rest were grouped into an "Others" row
+}
+
+/** A visual whose server query hasn't returned data: still loading, or failed */
+export type VisualQueryStatus = "loading" | "error";
+
+/** One step down a visual's drill hierarchy (see utils/drill.ts) */
+export interface DrillStep {
+  level: string;         // Level drilled from, e.g. "year" or "Campaign Name"
+  value: string | null;  // Data point drilled into; null when every value was expanded
+}
+
 export interface DataField {
   id: string;
   name: string;
@@ -63,6 +95,20 @@ export interface RuleCondition {
   icon?: string;
 }
 
+/**
+ * A line or shaded band across a chart's value axis (see utils/referenceLines.ts)
+ * Computed lines read the values of one field, matched like conditional formatting rules
+ */
+export interface ReferenceLineRule {
+  type: "constant" | "average" | "median" | "percentile" | "band";
+  field: string;
+  value?: number;       // Constant line, or band start
+  value2?: number;      // Band end
+  percentile?: number;  // 0-100, for percentile lines
+  label?: string;       // Shown on the line; defaults to the type and value
+  color?: string;
+}
+
 export interface VisualPropertiesExtended {
   conditionalFormatting?: ConditionalRule[];
 }
@@ -0,0 +1,136 @@
+/**
+ * comparison.ts - Period-over-period comparison
+ *
+ * A visual with a comparison mode is queried twice: under the active filters,
+ * and under the same filters with their dates moved to the comparison period:
+ *   - previousPeriod: the same number of days just before the active range
+ *   - previousYear:   the same dates one year earlier
+ *   - custom:         a fixed range from the config, replacing the date filters
+ *
+ * The active range is the intersection of the date filters (date slicers and
+ * drilled periods). Previous period needs a range with both ends, and without
+ * any date filter only a custom range can be compared.
+ */
+
+import { addDays, addYears, differenceInCalendarDays, format, isValid, parseISO } from "date-fns";
+import type { ChartConfig, ComparisonMode } from "@/components/ChartConfigDropdowns";
+import type { VisualType } from "@/components/VisualTypeSelector";
+import type { FilterValue } from "@/types/dashboard";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DateRange = NonNullable<FilterValue["dateRange"]>;
+
+export interface ValueChange {
+  delta: number;
+  percent: number | null;  // null when the comparison value is 0
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const isComparing = (mode?: ComparisonMode): mode is Exclude<ComparisonMode, "none"> => !!mode && mode !== "none";
+
+const parseDay = (value?: string): Date | null => {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+};
+
+const later = (a: Date | null, b: Date | null) => (!a ? b : !b ? a : a > b ? a : b);
+const earlier = (a: Date | null, b: Date | null) => (!a ? b : !b ? a : a < b ? a : b);
+
+/** Moves a date from the active range to the comparison period, or null when the mode can't */
+function getDateShift(mode: "previousPeriod" | "previousYear", active: DateRange): ((date: Date) => Date) | null {
+  if (mode === "previousYear") return (date) => addYears(date, -1);
+  if (!active.start || !active.end) return null;
+  const days = differenceInCalendarDays(active.end, active.start) + 1;
+  return (date) => addDays(date, -days);
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Whether a visual can show a comparison: cards, and bar/line/area charts with a
+ * single series whose points line up between periods (categories without a date
+ * split, or periods of a time axis)
+ */
+export function supportsComparison(visualType: VisualType | string | undefined, config: ChartConfig): boolean {
+  if (visualType === "card") return true;
+  if (visualType !== "bar" && visualType !== "line" && visualType !== "area") return false;
+  if (config.legend) return false;
+  const isTimeSeries = visualType !== "bar" && !!config.dateGranularity && config.dateGranularity !== "none";
+  return isTimeSeries ? !config.groupBy : config.dateGranularity === "none";
+}
+
+/** Intersection of the date filters' ranges, or null without any date filter */
+export function getActiveDateRange(filters: FilterValue[]): DateRange | null {
+  const ranges = filters.filter((filter) => filter.dateRange).map((filter) => filter.dateRange!);
+  if (ranges.length === 0) return null;
+  return ranges.reduce<DateRange>(
+    (acc, range) => ({ start: later(acc.start, range.start), end: earlier(acc.end, range.end) }),
+    { start: null, end: null }
+  );
+}
+
+/**
+ * The filters of a visual's comparison query
+ * @returns null when the visual doesn't compare, or the comparison period can't be
+ *          derived (e.g. previous period without a bounded date filter)
+ */
+export function getComparisonFilters(config: ChartConfig, filters: FilterValue[]): FilterValue[] | null {
+  const mode = config.comparison;
+  if (!isComparing(mode)) return null;
+  const otherFilters = filters.filter((filter) => !filter.dateRange);
+
+  if (mode === "custom") {
+    const start = parseDay(config.comparisonRange?.start);
+    const end = parseDay(config.comparisonRange?.end);
+    if (!start || !end) return null;
+    return [...otherFilters, { field: "date", values: [], operator: "between", dateRange: { start, end } }];
+  }
+
+  const active = getActiveDateRange(filters);
+  const shift = active ? getDateShift(mode, active) : null;
+  if (!shift) return null;
+
+  return filters.map((filter) =>
+    filter.dateRange
+      ? {
+          ...filter,
+          dateRange: {
+            start: filter.dateRange.start && shift(filter.dateRange.start),
+            end: filter.dateRange.end && shift(filter.dateRange.end),
+          },
+        }
+      : filter
+  );
+}
+
+/** Short name of the comparison period, e.g. for a card footer or a legend entry */
+export function getComparisonLabel(config?: ChartConfig): string {
+  switch (config?.comparison) {
+    case "previousPeriod":
+      return "Previous period";
+    case "previousYear":
+      return "Same period last year";
+    case "custom": {
+      const start = parseDay(config.comparisonRange?.start);
+      const end = parseDay(config.comparisonRange?.end);
+      return start && end ? `${format(start, "MMM d, yyyy")} - ${format(end, "MMM d, yyyy")}` : "Custom range";
+    }
+    default:
+      return "";
+  }
+}
+
+/** Change of a value against its comparison value */
+export function getValueChange(current: number, previous: number): ValueChange {
+  const delta = current - previous;
+  return { delta, percent: previous === 0 ? null : (delta / Math.abs(previous)) * 100 };
+}
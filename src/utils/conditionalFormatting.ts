@@ -0,0 +1,175 @@
+/**
+ * conditionalFormatting.ts - Conditional formatting evaluation
+ *
+ * Rules are built in PropertyPanel (ConditionalFormatting) and applied by
+ * VisualPreview. A rule targets one field, matched against a value key
+ * ("value", "value2", a table column) or its display name ("Spend"):
+ *   - gradient:  colour interpolated across the field's min..max through the
+ *                condition colours, in order
+ *   - threshold: colour of the first condition the value satisfies
+ *   - databar:   bar sized by the value's position in min..max
+ *   - icon:      icon (and colour) of the first condition the value satisfies
+ */
+
+import type { ConditionalRule, RuleCondition } from "@/types/dashboard";
+import type { DataPoint } from "@/components/DataEditor";
+import { getExtent } from "@/utils/extent";
+
+export interface ValueDomain {
+  min: number;
+  max: number;
+}
+
+export interface ConditionalFormat {
+  color?: string;                                // gradient / threshold colour
+  dataBar?: { percent: number; color: string };  // percent of the cell width, 0-100
+  icon?: { name: string; color?: string };
+}
+
+const DEFAULT_COLOR = "#22c55e";
+
+// Icons offered for icon-set rules, stored by name on RuleCondition.icon
+export const conditionalIconOptions = [
+  { value: "arrow-up", label: "Arrow up" },
+  { value: "arrow-right", label: "Arrow right" },
+  { value: "arrow-down", label: "Arrow down" },
+  { value: "check", label: "Check" },
+  { value: "alert", label: "Warning" },
+  { value: "x", label: "Cross" },
+  { value: "circle", label: "Circle" },
+  { value: "star", label: "Star" },
+];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function matchesCondition(value: number, condition: RuleCondition): boolean {
+  switch (condition.operator) {
+    case "gt":
+      return value > condition.value;
+    case "lt":
+      return value < condition.value;
+    case "gte":
+      return value >= condition.value;
+    case "lte":
+      return value <= condition.value;
+    case "eq":
+      return value === condition.value;
+    case "between":
+      return value >= condition.value && value <= (condition.value2 ?? condition.value);
+    default:
+      return false;
+  }
+}
+
+/** Min and max of the numeric values, for gradients and data bars */
+export function getValueDomain(values: unknown[]): ValueDomain {
+  const numbers = values.filter((v): v is number => typeof v === "number" && !isNaN(v));
+  if (numbers.length === 0) return { min: 0, max: 0 };
+  return getExtent(numbers);
+}
+
+// Position of a value in its domain, 0-1 (0.5 when every value is the same)
+function domainPosition(value: number, domain: ValueDomain): number {
+  if (domain.max === domain.min) return 0.5;
+  return Math.min(1, Math.max(0, (value - domain.min) / (domain.max - domain.min)));
+}
+
+function hexToRgb(hex: string): [number, number, number] | null {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const n = parseInt(match[1], 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+function interpolateColor(from: string, to: string, t: number): string {
+  const a = hexToRgb(from);
+  const b = hexToRgb(to);
+  if (!a || !b) return t < 0.5 ? from : to;
+  const channel = (i: number) => Math.round(a[i] + (b[i] - a[i]) * t).toString(16).padStart(2, "0");
+  return `#${channel(0)}${channel(1)}${channel(2)}`;
+}
+
+function gradientColor(colors: readonly string[], position: number): string {
+  if (colors.length === 1) return colors[0];
+  const scaled = position * (colors.length - 1);
+  const index = Math.min(Math.floor(scaled), colors.length - 2);
+  return interpolateColor(colors[index], colors[index + 1], scaled - index);
+}
+
+/** Adds an alpha channel to a #rrggbb colour, e.g. for tinted cell backgrounds */
+export function withAlpha(color: string, alpha: number): string {
+  if (!hexToRgb(color)) return color;
+  return `${color}${Math.round(alpha * 255).toString(16).padStart(2, "0")}`;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/** Colour of a value along a scale through the colours, in order, across its domain, e.g. heatmap cells */
+export const getScaleColor = (colors: readonly string[], value: number, domain: ValueDomain) =>
+  gradientColor(colors, domainPosition(value, domain));
+
+/** Rules that target a field, by value key or display name */
+export function getFieldRules(rules: ConditionalRule[] | undefined, fieldNames: (string | undefined)[]): ConditionalRule[] {
+  if (!rules || rules.length === 0) return [];
+  const names = fieldNames.filter(Boolean).map((name) => name!.toLowerCase());
+  return rules.filter((rule) => names.includes(rule.field.toLowerCase()));
+}
+
+/**
+ * Evaluates a field's rules for one value
+ * Later rules of the same kind override earlier ones
+ */
+export function getConditionalFormat(rules: ConditionalRule[], value: unknown, domain: ValueDomain): ConditionalFormat {
+  const format: ConditionalFormat = {};
+  if (typeof value !== "number" || isNaN(value)) return format;
+
+  rules.forEach((rule) => {
+    const matched = rule.conditions.find((condition) => matchesCondition(value, condition));
+
+    switch (rule.type) {
+      case "gradient": {
+        const colors = rule.conditions.map((c) => c.color || DEFAULT_COLOR);
+        if (colors.length > 0) format.color = gradientColor(colors, domainPosition(value, domain));
+        break;
+      }
+      case "threshold":
+        if (matched) format.color = matched.color || DEFAULT_COLOR;
+        break;
+      case "databar": {
+        // Bars grow from zero when the domain doesn't cross it
+        const barDomain = { min: Math.min(0, domain.min), max: Math.max(0, domain.max) };
+        format.dataBar = {
+          percent: domainPosition(value, barDomain) * 100,
+          color: (matched || rule.conditions[0])?.color || DEFAULT_COLOR,
+        };
+        break;
+      }
+      case "icon":
+        if (matched) format.icon = { name: matched.icon || "circle", color: matched.color };
+        break;
+    }
+  });
+
+  return format;
+}
+
+/**
+ * Fields a visual's rules can target: numeric columns for tables,
+ * otherwise each value series by its display name
+ */
+export function getFormattableFields(visualType: string, data: DataPoint[], valueFieldNames: string[] = []): string[] {
+  const first = data[0];
+  if (!first) return [];
+
+  if (visualType === "table") {
+    return Object.keys(first).filter((key) => key !== "value" && typeof first[key] === "number");
+  }
+  return Object.keys(first)
+    .filter((key) => key === "value" || /^value\d+$/.test(key))
+    .sort()
+    .map((key, idx) => valueFieldNames[idx] || key);
+}
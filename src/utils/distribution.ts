@@ -0,0 +1,108 @@
+/**
+ * distribution.ts - Histograms and box plots
+ *
+ * Distribution visuals plot a measure's value on each row of the data, e.g. the
+ * CPC of every ad set and day, rather than one aggregated value per category.
+ * The query engine reads the row-level values under the active filters (derived
+ * metrics use each row's own inputs, and rows whose denominator is 0 are left
+ * out) and summarises them here:
+ *   - histogram: the number of rows in each of a set of equal-width bins
+ *   - box plot:  quartiles and whiskers per group-by value, with the values past
+ *                1.5 × IQR from the box as outliers
+ */
+
+import type { VisualType } from "@/components/VisualTypeSelector";
+import { getExtent } from "@/utils/extent";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HistogramBin {
+  start: number;
+  end: number;  // Exclusive, except for the last bin
+  count: number;
+}
+
+export interface BoxPlotStats {
+  lowerWhisker: number;  // Smallest value within 1.5 × IQR below q1
+  q1: number;
+  median: number;
+  q3: number;
+  upperWhisker: number;  // Largest value within 1.5 × IQR above q3
+  outliers: number[];    // Values outside the whiskers, ascending
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const DEFAULT_BIN_COUNT = 20;
+
+// Most bins a bin width may produce; narrower widths fall back to the bin count
+const MAX_BINS = 200;
+
+// Distance past the quartiles, in IQRs, beyond which a value is an outlier
+const OUTLIER_IQR = 1.5;
+
+/** Quantile of ascending values, interpolated between the nearest ranks */
+function quantile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export const isDistributionVisual = (visualType?: VisualType | string) =>
+  visualType === "histogram" || visualType === "boxplot";
+
+/**
+ * Counts values into equal-width bins from the smallest value to the largest.
+ * A bin width starts the bins at a multiple of the width, e.g. 0.25 → 1.00, 1.25, ...
+ * @returns [] without values
+ */
+export function getHistogramBins(values: number[], options: { binCount?: number; binWidth?: number } = {}): HistogramBin[] {
+  if (values.length === 0) return [];
+  const { min, max } = getExtent(values);
+
+  let start = min;
+  let width = (max - min) / Math.max(1, Math.round(options.binCount || DEFAULT_BIN_COUNT));
+  if (options.binWidth && options.binWidth > 0 && (max - min) / options.binWidth < MAX_BINS) {
+    width = options.binWidth;
+    start = Math.floor(min / width) * width;
+  }
+  // Every value is the same: one bin around it
+  if (width === 0) return [{ start: min, end: min, count: values.length }];
+
+  const binCount = Math.max(1, Math.ceil((max - start) / width - 1e-9));
+  const bins = Array.from({ length: binCount }, (_, i) => ({ start: start + i * width, end: start + (i + 1) * width, count: 0 }));
+  values.forEach((value) => {
+    bins[Math.min(binCount - 1, Math.floor((value - start) / width))].count++;
+  });
+  return bins;
+}
+
+/** Quartiles, whiskers and outliers of a set of values; null without values */
+export function getBoxPlotStats(values: number[]): BoxPlotStats | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const lowerFence = q1 - OUTLIER_IQR * (q3 - q1);
+  const upperFence = q3 + OUTLIER_IQR * (q3 - q1);
+  const inside = sorted.filter((value) => value >= lowerFence && value <= upperFence);
+
+  return {
+    lowerWhisker: inside[0],
+    q1,
+    median: quantile(sorted, 0.5),
+    q3,
+    upperWhisker: inside[inside.length - 1],
+    outliers: sorted.filter((value) => value < lowerFence || value > upperFence),
+  };
+}
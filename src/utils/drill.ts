@@ -0,0 +1,168 @@
+/**
+ * drill.ts - Drill-down hierarchies
+ *
+ * A chart drills along one hierarchy, picked from its config:
+ *   - Date:     Year → Quarter → Month → Week → Day, on the dateGranularity
+ *               of line and area charts split by date (time axis)
+ *   - Campaign: Campaign Name → Ad Set Name, on the groupBy of category charts
+ *
+ * The current level is that config field itself; config.drillPath records the
+ * steps taken down, each with the data point drilled into (null when every
+ * value was expanded). Drilled points scope the visual's query through
+ * getDrillFilters, e.g. drilling into 2024 keeps the quarters of 2024.
+ * Drilling lasts for the session: the builder keeps each visual's DrillState
+ * apart from its saved config, so a saved dashboard opens at its own level.
+ */
+
+import type { ChartConfig, DateGranularity, GroupByDimension } from "@/components/ChartConfigDropdowns";
+import type { VisualType } from "@/components/VisualTypeSelector";
+import type { DrillStep, FilterValue, TimeGranularity } from "@/types/dashboard";
+import { isDimensionAvailable } from "@/utils/semanticLayer";
+import { formatPeriodTick, getPeriodRange } from "@/utils/timeAxis";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DrillHierarchy {
+  name: string;
+  field: "dateGranularity" | "groupBy";  // Config field holding the current level
+  levels: string[];                      // Top level first
+}
+
+/** The config fields a drill changes */
+export type DrillState = Pick<ChartConfig, "groupBy" | "dateGranularity" | "drillPath">;
+
+// ============================================================================
+// HIERARCHIES
+// ============================================================================
+
+const dateLevels: TimeGranularity[] = ["year", "quarter", "month", "week", "day"];
+
+const dateLevelLabels: Record<string, string> = {
+  year: "Year",
+  quarter: "Quarter",
+  month: "Month",
+  week: "Week",
+  day: "Day",
+};
+
+const dateHierarchy: DrillHierarchy = { name: "Date", field: "dateGranularity", levels: dateLevels };
+
+const campaignLevels: GroupByDimension[] = ["Campaign Name", "Ad Set Name"];
+
+// Charts whose data points are group-by values
+const categoryDrillTypes: VisualType[] = ["bar", "line", "area", "pie", "combo", "waterfall", "treemap", "funnel", "scatter"];
+
+const isDateLevel = (level: string) => (dateLevels as string[]).includes(level);
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/** The hierarchy a visual drills along, or null when it has none */
+export function getDrillHierarchy(visualType: VisualType, config?: ChartConfig): DrillHierarchy | null {
+  if (!config) return null;
+
+  if ((visualType === "line" || visualType === "area") && isDateLevel(config.dateGranularity)) {
+    return dateHierarchy;
+  }
+
+  const levels = campaignLevels.filter((level) => isDimensionAvailable(level));
+  if (
+    categoryDrillTypes.includes(visualType) &&
+    config.dateGranularity === "none" &&
+    config.funnelStages !== "measures" &&
+    levels.length > 1 &&
+    levels.includes(config.groupBy as GroupByDimension)
+  ) {
+    return { name: "Campaign", field: "groupBy", levels };
+  }
+
+  return null;
+}
+
+/** Position of the visual's current level in its hierarchy */
+export function getDrillLevel(hierarchy: DrillHierarchy, config: ChartConfig): number {
+  return hierarchy.levels.indexOf(config[hierarchy.field] as string);
+}
+
+export function canDrillDown(hierarchy: DrillHierarchy, config: ChartConfig): boolean {
+  const level = getDrillLevel(hierarchy, config);
+  return level >= 0 && level < hierarchy.levels.length - 1;
+}
+
+export function canDrillUp(hierarchy: DrillHierarchy, config: ChartConfig): boolean {
+  return (config.drillPath?.length ?? 0) > 0 || getDrillLevel(hierarchy, config) > 0;
+}
+
+/**
+ * Moves one level down
+ * @param value - Data point to drill into, or null to expand every value
+ */
+export function drillDown(config: ChartConfig, hierarchy: DrillHierarchy, value: string | null): ChartConfig {
+  if (!canDrillDown(hierarchy, config)) return config;
+  const level = getDrillLevel(hierarchy, config);
+  return {
+    ...config,
+    [hierarchy.field]: hierarchy.levels[level + 1],
+    drillPath: [...(config.drillPath || []), { level: hierarchy.levels[level], value }],
+  };
+}
+
+/** Moves one level up, undoing the last drill step (or going above the starting level) */
+export function drillUp(config: ChartConfig, hierarchy: DrillHierarchy): ChartConfig {
+  const path = config.drillPath || [];
+  if (path.length > 0) return drillTo(config, hierarchy, path.length - 1);
+
+  const level = getDrillLevel(hierarchy, config);
+  if (level <= 0) return config;
+  return { ...config, [hierarchy.field]: hierarchy.levels[level - 1], drillPath: [] };
+}
+
+/** Returns to the level of a breadcrumb step, keeping only the steps before it */
+export function drillTo(config: ChartConfig, hierarchy: DrillHierarchy, stepIndex: number): ChartConfig {
+  const path = config.drillPath || [];
+  const step = path[stepIndex];
+  if (!step) return config;
+  return {
+    ...config,
+    [hierarchy.field]: step.level as GroupByDimension & DateGranularity,
+    drillPath: path.slice(0, stepIndex),
+  };
+}
+
+/** The drill state of a drilled config, to keep for the session */
+export const getDrillState = ({ groupBy, dateGranularity, drillPath }: ChartConfig): DrillState => ({
+  groupBy,
+  dateGranularity,
+  drillPath,
+});
+
+/** A saved config at the level the session drilled it to */
+export const applyDrillState = (config: ChartConfig, state?: DrillState): ChartConfig =>
+  state ? { ...config, ...state } : config;
+
+/** Query filters for the data points a visual has drilled into */
+export function getDrillFilters(config?: ChartConfig): FilterValue[] {
+  return (config?.drillPath || [])
+    .filter((step): step is DrillStep & { value: string } => step.value !== null)
+    .map((step) => {
+      if (isDateLevel(step.level)) {
+        const range = getPeriodRange(step.value, step.level as TimeGranularity);
+        return { field: "date", values: [], dateRange: range ?? { start: null, end: null } };
+      }
+      return { field: step.level, values: [step.value], operator: "equals" as const };
+    });
+}
+
+/** Display name of a hierarchy level, e.g. "Quarter" or "Ad Set Name" */
+export function getDrillLevelLabel(level: string): string {
+  return dateLevelLabels[level] || level;
+}
+
+/** Breadcrumb text for a drill step's value, e.g. "Q1 2024" or "Holiday Sale" */
+export function formatDrillValue(step: DrillStep): string {
+  if (step.value === null) return "All";
+  return isDateLevel(step.level) ? formatPeriodTick(step.value, step.level as TimeGranularity) : step.value;
+}
@@ -0,0 +1,20 @@
+/**
+ * extent.ts - Smallest and largest of a set of values
+ *
+ * Row-level data can hold tens of thousands of values, more arguments than
+ * Math.min(...values) and Math.max(...values) can take without overflowing the
+ * call stack, so the extent is reduced over the values instead.
+ */
+
+export interface Extent {
+  min: number;
+  max: number;
+}
+
+/** Smallest and largest value; Infinity and -Infinity without values */
+export function getExtent(values: number[]): Extent {
+  return values.reduce(
+    (extent, value) => ({ min: Math.min(extent.min, value), max: Math.max(extent.max, value) }),
+    { min: Infinity, max: -Infinity }
+  );
+}
@@ -0,0 +1,102 @@
+/**
+ * heatmap.ts - Calendar and dimension heatmaps
+ *
+ * A heatmap colours a measure over a grid of two dimensions:
+ *   - calendar:   day of the week (rows, Monday first) by week (columns), from
+ *                 the measure per day of the date column; days without rows are blank
+ *   - dimensions: the group-by's values (rows) by a second dimension (columns)
+ * Cells are coloured along the visual's colour scale from the smallest to the
+ * largest value. Clicking a calendar day cross-filters the other visuals to that
+ * date; clicking a dimension cell cross-filters on its row's value.
+ */
+
+import { addDays, format, isValid, parseISO, startOfWeek } from "date-fns";
+import type { ChartConfig } from "@/components/ChartConfigDropdowns";
+import type { DataPoint } from "@/components/DataEditor";
+import { getPeriodSequence } from "@/utils/timeAxis";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HeatmapGrid {
+  rows: string[];                 // Weekday names, or the row dimension's values
+  columns: string[];              // Week starts (yyyy-MM-dd), or the column dimension's values
+  cells: (DataPoint | null)[][];  // cells[row][column]; null where no rows matched
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Colour scales, from the smallest value to the largest
+export const heatmapColorScales = [
+  { value: "primary", label: "Primary color" },
+  { value: "blues", label: "Blues", colors: ["#eff6ff", "#60a5fa", "#1e3a8a"] },
+  { value: "greens", label: "Greens", colors: ["#f0fdf4", "#4ade80", "#14532d"] },
+  { value: "heat", label: "Heat", colors: ["#fef9c3", "#f97316", "#991b1b"] },
+  { value: "purples", label: "Purples", colors: ["#faf5ff", "#c084fc", "#581c87"] },
+  { value: "redGreen", label: "Red to green", colors: ["#dc2626", "#f5f5f5", "#16a34a"] },
+] as const;
+
+export type HeatmapColorScale = typeof heatmapColorScales[number]["value"];
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Light end of the primary colour's scale
+const PRIMARY_SCALE_START = "#f1f5f9";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Weeks start on Monday, like the query engine's week periods
+const toWeekStart = (day: string) => format(startOfWeek(parseISO(day), { weekStartsOn: 1 }), "yyyy-MM-dd");
+
+const compareLabels = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+/** Every week from the first day with data to the last, one row per weekday */
+function getCalendarGrid(points: DataPoint[]): HeatmapGrid {
+  const days = points.map((point) => point.category).filter((day) => isValid(parseISO(day))).sort();
+  const columns = days.length > 0 ? getPeriodSequence(toWeekStart(days[0]), toWeekStart(days[days.length - 1]), "week") : [];
+  const byDay = new Map(points.map((point) => [point.category, point]));
+
+  return {
+    rows: WEEKDAYS,
+    columns,
+    cells: WEEKDAYS.map((_, weekday) =>
+      columns.map((week) => byDay.get(format(addDays(parseISO(week), weekday), "yyyy-MM-dd")) ?? null)
+    ),
+  };
+}
+
+/** Row and column values in natural order, e.g. age bands 18-24, 25-34, ... */
+function getDimensionGrid(points: DataPoint[]): HeatmapGrid {
+  const rows = [...new Set(points.map((point) => point.category))].sort(compareLabels);
+  const columns = [...new Set(points.map((point) => String(point.column)))].sort(compareLabels);
+  const byCell = new Map(points.map((point) => [`${point.category}\u0000${point.column}`, point]));
+
+  return {
+    rows,
+    columns,
+    cells: rows.map((row) => columns.map((column) => byCell.get(`${row}\u0000${column}`) ?? null)),
+  };
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/** Heatmaps are calendars unless set to a grid of two dimensions */
+export const isCalendarHeatmap = (config?: ChartConfig) => config?.heatmapLayout !== "dimensions";
+
+/** The heatmap's rows, columns and the point in each cell */
+export function getHeatmapGrid(points: DataPoint[], config?: ChartConfig): HeatmapGrid {
+  return isCalendarHeatmap(config) ? getCalendarGrid(points) : getDimensionGrid(points);
+}
+
+/** Colours of a scale, smallest value first; the primary scale runs up to the visual's primary colour */
+export function getHeatmapColors(scale: HeatmapColorScale | undefined, primaryColor: string): readonly string[] {
+  const option = heatmapColorScales.find((s) => s.value === scale);
+  return option && "colors" in option ? option.colors : [PRIMARY_SCALE_START, primaryColor];
+}
@@ -0,0 +1,125 @@
+/**
+ * numberFormat.ts - Number format strings
+ *
+ * Measures are shown through a format string, resolved in order from the
+ * visual's override (VisualProperties.numberFormat), then the measure's
+ * catalog data type (semanticLayer.ts), then "auto".
+ *
+ * A format string is an optional prefix, a number pattern and an optional suffix:
+ *   "#,0"      1,235         "," groups thousands
+ *   "#,0.00"   1,234.57      each "0" after "." is a fixed decimal, each "#" an optional one
+ *   "$#,0.00"  $1,234.57     prefix and suffix are copied as-is
+ *   "0.00%"    12.35%        percent metrics are already ×100, so "%" does not rescale
+ *   "$0.0a"    $1.2M         "a" abbreviates to K / M / B / T
+ *   "auto"     1,234.57      up to 2 decimals (also used for empty or unparseable strings)
+ */
+
+import { getMetric, type MetricDataType } from "@/utils/semanticLayer";
+
+export const AUTO_FORMAT = "auto";
+
+// Offered in PropertyPanel; "" keeps each measure's default
+export const numberFormatPresets = [
+  { value: "", label: "Measure default" },
+  { value: "#,0", label: "Whole number (1,235)" },
+  { value: "#,0.00", label: "Decimal (1,234.57)" },
+  { value: "$#,0.00", label: "Currency ($1,234.57)" },
+  { value: "$0.0a", label: "Currency, compact ($1.2K)" },
+  { value: "0.00%", label: "Percent (12.35%)" },
+  { value: "0.0a", label: "Compact (1.2K)" },
+];
+
+const dataTypeFormats: Record<MetricDataType, string> = {
+  integer: "#,0",
+  decimal: "#,0.00",
+  currency: "$#,0.00",
+  percent: "0.00%",
+};
+
+const compactUnits = [
+  { value: 1e12, suffix: "T" },
+  { value: 1e9, suffix: "B" },
+  { value: 1e6, suffix: "M" },
+  { value: 1e3, suffix: "K" },
+];
+
+interface ParsedFormat {
+  prefix: string;
+  suffix: string;
+  grouping: boolean;
+  minDecimals: number;
+  maxDecimals: number;
+  compact: boolean;
+}
+
+const AUTO: ParsedFormat = { prefix: "", suffix: "", grouping: true, minDecimals: 0, maxDecimals: 2, compact: false };
+
+const parsedCache = new Map<string, ParsedFormat>();
+
+function parseFormat(format: string): ParsedFormat {
+  if (!format || format === AUTO_FORMAT) return AUTO;
+  if (parsedCache.has(format)) return parsedCache.get(format)!;
+
+  const match = /^(.*?)([#0][#0,]*)(?:\.([0#]+))?(a?)(.*)$/.exec(format);
+  const parsed: ParsedFormat = match
+    ? {
+        prefix: match[1],
+        suffix: match[5],
+        grouping: match[2].includes(","),
+        minDecimals: (match[3] || "").replace(/#/g, "").length,
+        maxDecimals: (match[3] || "").length,
+        compact: match[4] === "a",
+      }
+    : AUTO;
+  parsedCache.set(format, parsed);
+  return parsed;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Default format for a measure from its catalog data type, "auto" for other fields
+ * @param aggregation - Counts are whole numbers whatever the measure's type
+ */
+export function getMeasureFormat(name?: string, aggregation?: string): string {
+  if (aggregation === "count" || aggregation === "distinctCount") return dataTypeFormats.integer;
+  const dataType = name ? getMetric(name)?.dataType : undefined;
+  return dataType ? dataTypeFormats[dataType] : AUTO_FORMAT;
+}
+
+/**
+ * Formats a number with a format string
+ * @param options.compact - Abbreviate regardless of the format, e.g. for axis ticks
+ */
+export function formatNumber(value: unknown, format: string = AUTO_FORMAT, options: { compact?: boolean } = {}): string {
+  if (typeof value !== "number" || isNaN(value)) return value === undefined || value === null ? "" : String(value);
+
+  const parsed = parseFormat(format);
+  let scaled = Math.abs(value);
+  let unit = "";
+  if (parsed.compact || options.compact) {
+    const match = compactUnits.find((u) => scaled >= u.value);
+    if (match) {
+      scaled /= match.value;
+      unit = match.suffix;
+    }
+  }
+
+  // Compacted values keep one decimal unless the format asks for more
+  const maxDecimals = unit && !parsed.compact ? Math.max(parsed.maxDecimals, 1) : parsed.maxDecimals;
+  const digits = scaled.toLocaleString("en-US", {
+    useGrouping: parsed.grouping,
+    minimumFractionDigits: unit && !parsed.compact ? 0 : parsed.minDecimals,
+    maximumFractionDigits: maxDecimals,
+  });
+  const sign = value < 0 && Number(digits.replace(/,/g, "")) !== 0 ? "-" : "";
+  return `${sign}${parsed.prefix}${digits}${unit}${parsed.suffix}`;
+}
+
+/** Formatter for one measure, honouring the visual's override */
+export function getNumberFormatter(measure: string | undefined, override?: string, aggregation?: string) {
+  const format = override || getMeasureFormat(measure, aggregation);
+  return (value: unknown, options?: { compact?: boolean }) => formatNumber(value, format, options);
+}
@@ -0,0 +1,152 @@
+/**
+ * pivot.ts - Pivot matrix layout
+ *
+ * A matrix visual's data arrives flat from the query engine: one DataPoint
+ * per cell, subtotal and grand total, keyed by dimension and measure names.
+ * Dimensions a row was totalled over are simply absent, e.g.
+ *   { "Campaign Name": "Sale", "Ad Set Name": "Retargeting", Spend: 120 }  // cell
+ *   { "Campaign Name": "Sale", Spend: 300 }                                // Sale subtotal
+ *   { Spend: 900 }                                                         // grand total
+ *
+ * buildPivot turns that into ordered row and column headers for rendering.
+ */
+
+import type { ChartConfig } from "@/components/ChartConfigDropdowns";
+import type { DataPoint } from "@/components/DataEditor";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MatrixLayout {
+  rows: string[];      // Row dimensions, outermost first
+  columns: string[];   // Column dimensions, outermost first
+  measures: string[];  // One value per measure in every cell
+}
+
+/** A row header; path holds the dimension values from the outermost level */
+export interface PivotRow {
+  path: string[];
+  hasChildren: boolean;
+}
+
+/** A column header; totals sit after their group's columns, the grand total last */
+export interface PivotColumn {
+  path: string[];
+  isTotal: boolean;
+}
+
+export interface Pivot {
+  rows: PivotRow[];        // Depth-first, parents before their children
+  columns: PivotColumn[];
+  getValue: (rowPath: string[], columnPath: string[], measure: string) => number | undefined;
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const pathKey = (rowPath: string[], columnPath: string[]) => JSON.stringify([rowPath, columnPath]);
+
+// Values of the given dimensions, up to the first one the point was totalled over
+function getPath(point: DataPoint, dimensions: string[]): string[] {
+  const path: string[] = [];
+  for (const dimension of dimensions) {
+    if (point[dimension] === undefined) break;
+    path.push(String(point[dimension]));
+  }
+  return path;
+}
+
+function buildTree(paths: string[][]): TreeNode {
+  const root: TreeNode = { children: new Map() };
+  paths.forEach((path) => {
+    let node = root;
+    path.forEach((value) => {
+      if (!node.children.has(value)) {
+        node.children.set(value, { children: new Map() });
+      }
+      node = node.children.get(value)!;
+    });
+  });
+  return root;
+}
+
+const sortedEntries = (node: TreeNode) =>
+  Array.from(node.children.entries()).sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }));
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Reads a matrix's rows, columns and measures from its chart config
+ * @returns The layout, or null until a measure and at least one dimension are chosen
+ */
+export function getMatrixLayout(config?: ChartConfig): MatrixLayout | null {
+  if (!config) return null;
+
+  const rows: string[] = config.matrixRows || [];
+  const columns: string[] = (config.matrixColumns || []).filter((dim) => !rows.includes(dim));
+  const measures: string[] = config.matrixMeasures?.length
+    ? config.matrixMeasures
+    : config.measure ? [config.measure] : [];
+
+  if (measures.length === 0 || rows.length + columns.length === 0) return null;
+  return { rows, columns, measures };
+}
+
+/** Arranges a matrix's flat cell data into row and column headers */
+export function buildPivot(data: DataPoint[], layout: MatrixLayout): Pivot {
+  const cells = new Map<string, DataPoint>();
+  const rowPaths: string[][] = [];
+  const columnPaths: string[][] = [];
+
+  data.forEach((point) => {
+    const rowPath = getPath(point, layout.rows);
+    const columnPath = getPath(point, layout.columns);
+    cells.set(pathKey(rowPath, columnPath), point);
+    if (rowPath.length > 0) rowPaths.push(rowPath);
+    if (columnPath.length > 0) columnPaths.push(columnPath);
+  });
+
+  // Rows: every level of the hierarchy, parents first
+  const rows: PivotRow[] = [];
+  const walkRows = (node: TreeNode, parent: string[]) => {
+    sortedEntries(node).forEach(([value, child]) => {
+      const path = [...parent, value];
+      rows.push({ path, hasChildren: path.length < layout.rows.length });
+      walkRows(child, path);
+    });
+  };
+  walkRows(buildTree(rowPaths), []);
+
+  // Columns: leaves, each group's total after its children, grand total last
+  const columns: PivotColumn[] = [];
+  const walkColumns = (node: TreeNode, parent: string[]) => {
+    sortedEntries(node).forEach(([value, child]) => {
+      const path = [...parent, value];
+      if (path.length === layout.columns.length) {
+        columns.push({ path, isTotal: false });
+      } else {
+        walkColumns(child, path);
+        columns.push({ path, isTotal: true });
+      }
+    });
+  };
+  walkColumns(buildTree(columnPaths), []);
+  columns.push({ path: [], isTotal: layout.columns.length > 0 });
+
+  return {
+    rows,
+    columns,
+    getValue: (rowPath, columnPath, measure) => {
+      const value = cells.get(pathKey(rowPath, columnPath))?.[measure];
+      return typeof value === "number" ? value : undefined;
+    },
+  };
+}
@@ -0,0 +1,1457 @@
+/**
+ * queryEngine.ts - Chart data pipeline
+ *
+ * Turns a visual's ChartConfig (measure / groupBy / date / sort / columns)
+ * plus the active slicer filters into chart-ready DataPoint[].
+ *
+ * Charts and cards are planned as an AggregateRequest (group-by columns,
+ * date granularity, measures, filters) plus a shape step that turns the
+ * aggregated rows into DataPoints. The request runs on the server through
+ * the aggregate_meta_ads Postgres function (see useVisualQueries), or
+ * locally against raw rows with aggregateLocally, which mirrors it.
+ * Matrices request grouping sets so subtotals and grand totals are
+ * aggregated from the rows too (see pivot.ts for the layout).
+ * Line and area charts split by date get a chronological period axis
+ * (see timeAxis.ts), and points a visual has drilled into scope its query
+ * (see drill.ts). Visuals with a comparison mode plan a second request for
+ * the comparison period and carry its values as DataPoint.comparison
+ * (see comparison.ts). Single-series time axes can add a trend line, moving
+ * average and forecast, computed from the aggregated series (see
+ * timeSeriesAnalytics.ts). Gauges and bullet charts aggregate a measure
+ * alongside its target (see targets.ts). Heatmaps aggregate a measure per day
+ * or per pair of dimensions (see heatmap.ts).
+ * Tables list raw records read directly from the rows, unless set to
+ * aggregate by their selected dimensions. Histograms and box plots likewise
+ * read the measure's value on each row (see distribution.ts). Those rows are
+ * every row matching the filters, paged from the server (see useMetaAdsData).
+ * Slicers list a field's values through an aggregate request too.
+ *
+ * Field names are resolved to columns through the semantic layer
+ * (semanticLayer.ts); fields the data source lacks produce no data.
+ * Each measure is aggregated with its own AggregationType (sum by default;
+ * derived metrics sum as a ratio of sums), and cards reduce their measure
+ * with the card's calculation, plus a sparkline request per period when the
+ * card has a date granularity.
+ *
+ * Used by both the builder (Index.tsx) and the viewer (ViewDashboard.tsx),
+ * which re-run every visual whenever the filters change (see
+ * useVisualQueries), and by
+ * FilterContext for row-level filter evaluation.
+ */
+
+import { startOfDay, startOfWeek, startOfMonth, startOfQuarter, startOfYear, addDays, format, parseISO } from "date-fns";
+import { aggregationTypes, calculationTypes } from "@/components/ChartConfigDropdowns";
+import type { CalculationType, ChartConfig } from "@/components/ChartConfigDropdowns";
+import type { DataPoint } from "@/components/DataEditor";
+import { getPeriodSequence } from "@/utils/timeAxis";
+import { getDrillFilters } from "@/utils/drill";
+import { getActiveDateRange, getComparisonFilters, supportsComparison } from "@/utils/comparison";
+import { applyTimeSeriesAnalytics } from "@/utils/timeSeriesAnalytics";
+import { isTargetVisual } from "@/utils/targets";
+import { isCalendarHeatmap } from "@/utils/heatmap";
+import { getBoxPlotStats, getHistogramBins, isDistributionVisual } from "@/utils/distribution";
+import { getExtent } from "@/utils/extent";
+import type { VisualType } from "@/components/VisualTypeSelector";
+import type { MetaAdsCampaign } from "@/hooks/useMetaAdsData";
+import type { AggregationType, DataTruncation, FilterValue, TimeGranularity, VisualQueryStatus } from "@/types/dashboard";
+import { getDimension, getMetric, isDimensionAvailable, isMetricAvailable, resolveFieldColumn, resolveMetricInputs } from "./semanticLayer";
+import type { MetricInputs, SourceColumn } from "./semanticLayer";
+import { getMatrixLayout } from "./pivot";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VisualQueryResult {
+  data: DataPoint[];
+  title?: string;                // Suggested title, only set when the config is complete
+  valueFieldNames?: string[];    // Legend names for multi-value charts
+  truncation?: DataTruncation;   // Set when categories were cut by the Top/Bottom N setting
+  rowLimit?: number;             // Set when row-level data stopped at this many rows
+}
+
+/** Minimal shape of a visual that can be rebuilt from its config */
+export interface QueryableVisual {
+  type: VisualType;
+  data: DataPoint[];
+  config?: ChartConfig;
+  valueFieldNames?: string[];
+  truncation?: DataTruncation;
+  rowLimit?: number;
+  queryStatus?: VisualQueryStatus;
+}
+
+/** Measure aggregations: the per-measure AggregationType plus the card's "last value" */
+export type MeasureAggregation = AggregationType | "last";
+
+/** One measure of an aggregate request: the metric's source columns and its aggregation */
+export interface AggregateMeasure extends MetricInputs {
+  aggregation: MeasureAggregation;
+}
+
+/**
+ * A slicer filter in column terms, as sent to aggregate_meta_ads
+ * Targets either a column or a derived metric's inputs
+ */
+export interface AggregateFilter {
+  column?: SourceColumn;
+  numerator?: SourceColumn;
+  denominator?: SourceColumn | null;
+  multiplier?: number;
+  operator?: FilterValue["operator"];
+  values?: (string | number)[];
+  min?: number;
+  max?: number;
+  start?: string | null;  // yyyy-MM-dd, inclusive
+  end?: string | null;    // yyyy-MM-dd, inclusive
+}
+
+/** Query shape for server-side (or local) aggregation; JSON-serializable so it can key caches */
+export interface AggregateRequest {
+  groupBy: SourceColumn[];
+  granularity: TimeGranularity;
+  measures: AggregateMeasure[];
+  filters: AggregateFilter[];
+  groupingSets?: SourceColumn[][];  // Subsets of groupBy to total over, e.g. [["campaign_name"], []]
+}
+
+/** One aggregated group; values are in the same order as the request's measures */
+export interface AggregateRow {
+  dimensions: (string | number | null)[];
+  period: string | null;  // yyyy-MM-dd start of the date bucket, null without granularity
+  values: number[];
+  rolledUp?: boolean[];  // Per groupBy column: true when this row totals over it
+}
+
+/** How to list a slicer field's values: an aggregate request and the values read from its rows */
+export interface FieldValuesQuery {
+  request: AggregateRequest;
+  values: (rows: AggregateRow[]) => (string | number)[];
+}
+
+/**
+ * How to get a visual's data: an aggregate request and a shape step
+ * request is null when no data can be produced (e.g. a field the source lacks)
+ * comparison is the same request for the comparison period, with the filters it
+ * was built from so it can also run locally; sparkline is a card's measure per
+ * period. shape merges their rows when given
+ */
+export interface VisualQueryPlan {
+  request: AggregateRequest | null;
+  comparison?: { request: AggregateRequest; filters: FilterValue[] };
+  sparkline?: { request: AggregateRequest };
+  shape: (rows: AggregateRow[], comparisonRows?: AggregateRow[], sparklineRows?: AggregateRow[]) => VisualQueryResult;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Resolves a slicer/filter field name to its database column via the semantic layer
+ * Unknown or unavailable names are returned as-is and match no row column
+ */
+export function resolveFilterField(field: string): string {
+  return resolveFieldColumn(field) || field;
+}
+
+/**
+ * Gets the time period key for a date based on granularity
+ * @param dateStr - ISO date string from the database
+ * @param granularity - Time bucket (day, week, month, quarter, year)
+ */
+export function getTimePeriodKey(dateStr: string, granularity: TimeGranularity): string {
+  if (granularity === "none" || !dateStr) return dateStr;
+
+  const date = parseRowDate(dateStr);
+  if (!date) return dateStr;
+
+  switch (granularity) {
+    case "day":
+      return format(date, "yyyy-MM-dd");
+    case "week":
+      return format(startOfWeek(date, { weekStartsOn: 1 }), "'Week of' MMM d, yyyy");
+    case "month":
+      return format(startOfMonth(date), "MMM yyyy");
+    case "quarter":
+      return format(startOfQuarter(date), "'Q'Q yyyy");
+    case "year":
+      return format(startOfYear(date), "yyyy");
+    default:
+      return dateStr;
+  }
+}
+
+/** Reads a numeric column, treating missing or non-numeric values as 0 */
+const readNumber = (row: Record<string, unknown>, column: string): number => {
+  const value = row[column];
+  return typeof value === "number" ? value : 0;
+};
+
+/** numerator / denominator * multiplier, 0 when the denominator is 0 */
+const ratio = (numerator: number, denominator: number, multiplier: number): number =>
+  denominator === 0 ? 0 : (numerator / denominator) * multiplier;
+
+/**
+ * Reads a field's value for one row: a dimension or base metric column,
+ * or a derived metric computed from its inputs on that row
+ */
+export function getFieldValue(row: Record<string, unknown>, field: string): unknown {
+  const inputs = resolveMetricInputs(field);
+  if (inputs?.denominator) {
+    const value = ratio(readNumber(row, inputs.numerator), readNumber(row, inputs.denominator), inputs.multiplier);
+    return Math.round(value * 100) / 100;
+  }
+  const column = resolveFilterField(field);
+  return column in row ? row[column] : row[field];
+}
+
+// Text columns aggregate_meta_ads can group by
+const GROUPABLE_COLUMNS: SourceColumn[] = ["campaign_id", "campaign_name", "ad_set_name"];
+
+
+// ============================================================================
+// FILTERING
+// ============================================================================
+
+/**
+ * Parses a row's date value (ISO "yyyy-MM-dd" string or Date)
+ * Date-only strings are read as local calendar days, not UTC midnight
+ */
+export function parseRowDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== "string" || !value) return null;
+  const date = parseISO(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Checks a date against a slicer range
+ * Both ends are whole calendar days: start is inclusive from its first moment,
+ * end is inclusive through its last moment (exclusive bound at the next midnight).
+ * A null start or end leaves that side open.
+ */
+function matchesDateRange(value: unknown, range: NonNullable<FilterValue["dateRange"]>): boolean {
+  if (!range.start && !range.end) return true;
+
+  const date = parseRowDate(value);
+  if (!date) return false;
+
+  if (range.start && date < startOfDay(range.start)) return false;
+  if (range.end && date >= addDays(startOfDay(range.end), 1)) return false;
+  return true;
+}
+
+/** Evaluates a single filter against one row */
+export function matchesFilter(row: Record<string, unknown>, filter: FilterValue): boolean {
+  const value = getFieldValue(row, filter.field);
+
+  if (filter.dateRange) return matchesDateRange(value, filter.dateRange);
+
+  if (filter.values.length === 0 && !filter.numericRange) return true;
+
+  switch (filter.operator) {
+    case "equals":
+      if (filter.values.length === 0) return true;
+      return filter.values.includes(value as string | number);
+    case "contains":
+      if (filter.values.length === 0) return true;
+      return filter.values.some((v) =>
+        String(value).toLowerCase().includes(String(v).toLowerCase())
+      );
+    case "gt":
+      return Number(value) > Number(filter.values[0]);
+    case "lt":
+      return Number(value) < Number(filter.values[0]);
+    case "gte":
+      return Number(value) >= Number(filter.values[0]);
+    case "lte":
+      return Number(value) <= Number(filter.values[0]);
+    case "between":
+      if (filter.numericRange) {
+        const num = Number(value);
+        return num >= filter.numericRange.min && num <= filter.numericRange.max;
+      }
+      return true;
+    default:
+      if (filter.values.length === 0) return true;
+      return filter.values.includes(value as string | number);
+  }
+}
+
+/** Keeps the rows that satisfy every active filter */
+export function applyFilters<T extends object>(rows: T[], filters: FilterValue[]): T[] {
+  if (filters.length === 0) return rows;
+  return rows.filter((row) =>
+    filters.every((filter) => matchesFilter(row as Record<string, unknown>, filter))
+  );
+}
+
+const toDateKey = (date: Date | null) => (date ? format(startOfDay(date), "yyyy-MM-dd") : null);
+
+/**
+ * Translates slicer filters into column terms for an aggregate request
+ * Filters that would match every row (no values, empty ranges) are dropped,
+ * as are filters on fields the data source doesn't provide.
+ */
+export function toAggregateFilters(filters: FilterValue[]): AggregateFilter[] {
+  return filters.flatMap((filter): AggregateFilter[] => {
+    const inputs = resolveMetricInputs(filter.field);
+    const column = resolveFieldColumn(filter.field);
+    const target: AggregateFilter | null = inputs?.denominator
+      ? { ...inputs }
+      : column ? { column } : null;
+    if (!target) return [];
+
+    if (filter.dateRange) {
+      const { start, end } = filter.dateRange;
+      return start || end ? [{ ...target, start: toDateKey(start), end: toDateKey(end) }] : [];
+    }
+    if (filter.operator === "between") {
+      return filter.numericRange ? [{ ...target, ...filter.numericRange }] : [];
+    }
+    if (filter.values.length === 0) return [];
+    return [{ ...target, operator: filter.operator || "equals", values: filter.values }];
+  });
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+// Card calculation (ChartConfigDropdowns) -> measure aggregation
+const calculationToAggregation: Record<CalculationType, MeasureAggregation> = {
+  sum: "sum",
+  average: "avg",
+  min: "min",
+  max: "max",
+  count: "count",
+  last: "last",
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** A measure's value on one row; derived metrics use that row's inputs */
+function rowMeasureValue(record: MetaAdsCampaign, inputs: MetricInputs): number {
+  const row = record as unknown as Record<string, unknown>;
+  const numerator = readNumber(row, inputs.numerator);
+  return inputs.denominator
+    ? ratio(numerator, readNumber(row, inputs.denominator), inputs.multiplier)
+    : numerator;
+}
+
+/**
+ * Aggregates a measure over a set of rows
+ * - sum: plain sum for base metrics, sum(numerator) / sum(denominator) for derived ones
+ * - avg / min / max / distinctCount: over the row-level values
+ * - count: number of rows
+ * - last: the sum (or ratio of sums) over the rows on their group's latest date (isLatest)
+ */
+function aggregateMeasure(
+  rows: MetaAdsCampaign[],
+  inputs: MetricInputs,
+  aggregation: MeasureAggregation,
+  isLatest: (record: MetaAdsCampaign) => boolean
+): number {
+  if (rows.length === 0) return 0;
+
+  switch (aggregation) {
+    case "avg":
+      return rows.reduce((acc, r) => acc + rowMeasureValue(r, inputs), 0) / rows.length;
+    case "min":
+      return getExtent(rows.map((r) => rowMeasureValue(r, inputs))).min;
+    case "max":
+      return getExtent(rows.map((r) => rowMeasureValue(r, inputs))).max;
+    case "count":
+      return rows.length;
+    case "distinctCount":
+      return new Set(rows.map((r) => rowMeasureValue(r, inputs))).size;
+    case "last":
+      return aggregateMeasure(rows.filter(isLatest), inputs, "sum", isLatest);
+    case "sum":
+    default: {
+      const totals = rows.reduce(
+        (acc, r) => {
+          const row = r as unknown as Record<string, unknown>;
+          acc.numerator += readNumber(row, inputs.numerator);
+          if (inputs.denominator) acc.denominator += readNumber(row, inputs.denominator);
+          return acc;
+        },
+        { numerator: 0, denominator: 0 }
+      );
+      return inputs.denominator
+        ? ratio(totals.numerator, totals.denominator, inputs.multiplier)
+        : totals.numerator;
+    }
+  }
+}
+
+/** Start of a row's date bucket as yyyy-MM-dd, matching date_trunc on the server */
+function getPeriodStart(dateStr: string, granularity: TimeGranularity): string | null {
+  const date = parseRowDate(dateStr);
+  if (granularity === "none" || !date) return null;
+
+  switch (granularity) {
+    case "week":
+      return format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd");
+    case "month":
+      return format(startOfMonth(date), "yyyy-MM-dd");
+    case "quarter":
+      return format(startOfQuarter(date), "yyyy-MM-dd");
+    case "year":
+      return format(startOfYear(date), "yyyy-MM-dd");
+    case "day":
+    default:
+      return format(date, "yyyy-MM-dd");
+  }
+}
+
+/**
+ * Runs an aggregate request against raw rows in the browser
+ * Mirrors aggregate_meta_ads; rows are expected to be filtered already
+ * (applyFilters), so request.filters is not re-applied here.
+ */
+export function aggregateLocally(rows: MetaAdsCampaign[], request: AggregateRequest): AggregateRow[] {
+  const groups = new Map<string, Omit<AggregateRow, "values"> & { rows: MetaAdsCampaign[] }>();
+  const groupingSets = request.groupingSets || [request.groupBy];
+
+  // "last" takes the latest date of each finest group (every groupBy column and the period),
+  // as aggregate_meta_ads does, so a subtotal adds up its groups' latest values
+  const finestKey = (record: MetaAdsCampaign) =>
+    JSON.stringify([request.groupBy.map((column) => record[column] ?? null), getPeriodStart(record.date, request.granularity)]);
+  const latestDates = new Map<string, string>();
+  if (request.measures.some((measure) => measure.aggregation === "last")) {
+    rows.forEach((record) => {
+      const key = finestKey(record);
+      const latest = latestDates.get(key);
+      if (latest === undefined || record.date > latest) latestDates.set(key, record.date);
+    });
+  }
+  const isLatest = (record: MetaAdsCampaign) => latestDates.get(finestKey(record)) === record.date;
+
+  groupingSets.forEach((groupingSet) => {
+    const rolledUp = request.groupBy.map((column) => !groupingSet.includes(column));
+
+    rows.forEach((record) => {
+      const dimensions = request.groupBy.map((column, i) => (rolledUp[i] ? null : record[column] ?? null));
+      const period = getPeriodStart(record.date, request.granularity);
+      const key = JSON.stringify([dimensions, rolledUp, period]);
+
+      if (!groups.has(key)) {
+        groups.set(key, { dimensions, period, rolledUp, rows: [] });
+      }
+      groups.get(key)!.rows.push(record);
+    });
+  });
+
+  return Array.from(groups.values()).map(({ rows: groupRows, ...group }) => ({
+    ...group,
+    values: request.measures.map((measure) => aggregateMeasure(groupRows, measure, measure.aggregation, isLatest)),
+  }));
+}
+
+/** Prefixes a measure with its aggregation unless it is the default sum, e.g. "Average of CPC" */
+function measureLabel(measure: string, aggregation: MeasureAggregation = "sum"): string {
+  if (aggregation === "sum") return measure;
+  const label = aggregationTypes.find((a) => a.value === aggregation)?.label || aggregation;
+  return `${label} of ${measure}`;
+}
+
+// Most series a legend split shows; the rest fold into "Other" where the measure adds up
+const MAX_LEGEND_SERIES = 8;
+const OTHER_SERIES = "Other";
+
+/**
+ * Pivots (category, legend value) cells into one point per category with a
+ * value key per legend value ("value", "value2", ...). Cells share a point by
+ * their group's key rather than its label, so groups that read alike stay apart.
+ * Series are ordered by name, "Other" last; charts colour each by its name
+ * (see VisualPreview). A cell's identity (see getPointIdentity) is copied onto
+ * its category's point.
+ */
+function pivotLegendSeries(
+  cells: { key: string; category: string; series: string; value: number; identity?: Record<string, string | number> }[],
+  additive: boolean
+): { data: DataPoint[]; seriesNames: string[] } {
+  const seriesTotals = new Map<string, number>();
+  cells.forEach((cell) => seriesTotals.set(cell.series, (seriesTotals.get(cell.series) || 0) + Math.abs(cell.value)));
+
+  const ranked = Array.from(seriesTotals.keys()).sort((a, b) => seriesTotals.get(b)! - seriesTotals.get(a)!);
+  const overflow = ranked.length > MAX_LEGEND_SERIES;
+  const kept = ranked.slice(0, overflow && additive ? MAX_LEGEND_SERIES - 1 : MAX_LEGEND_SERIES);
+  const seriesNames = [...kept].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (overflow && additive) seriesNames.push(OTHER_SERIES);
+
+  const seriesKeys = new Map(seriesNames.map((name, i) => [name, i === 0 ? "value" : `value${i + 1}`]));
+  const points = new Map<string, DataPoint>();
+  cells.forEach((cell) => {
+    const key = seriesKeys.get(cell.series) ?? (additive ? seriesKeys.get(OTHER_SERIES) : undefined);
+    if (!key) return;
+    if (!points.has(cell.key)) {
+      const point: DataPoint = { id: crypto.randomUUID(), category: cell.category, value: 0, ...cell.identity };
+      seriesKeys.forEach((seriesKey) => { point[seriesKey] = 0; });
+      points.set(cell.key, point);
+    }
+    const point = points.get(cell.key)!;
+    point[key] = round2((point[key] as number) + cell.value);
+  });
+
+  return { data: Array.from(points.values()), seriesNames };
+}
+
+const DEFAULT_TOP_N = 15;
+const OTHERS_CATEGORY = "Others";
+
+/** How an "Others" value is rebuilt from the per-group values it replaces */
+interface OthersRollup {
+  measures: AggregateMeasure[];                     // Extra per-group measures the rollup reads
+  combine: (groups: number[][]) => number;          // Each group: [value, ...extra measure values]
+}
+
+const sumOf = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+/**
+ * Rollup for a measure's "Others" value
+ * Ratio metrics re-divide their summed inputs and averages their summed totals and counts,
+ * so Others matches aggregating the remaining rows directly
+ * @returns null when the groups can't be combined (distinct counts, averages of ratios)
+ */
+function getOthersRollup(inputs: MetricInputs, aggregation: MeasureAggregation): OthersRollup | null {
+  switch (aggregation) {
+    case "sum":
+      if (!inputs.denominator) return { measures: [], combine: (groups) => sumOf(groups.map((g) => g[0])) };
+      return {
+        measures: [
+          { numerator: inputs.numerator, denominator: null, multiplier: 1, aggregation: "sum" },
+          { numerator: inputs.denominator, denominator: null, multiplier: 1, aggregation: "sum" },
+        ],
+        combine: (groups) => ratio(sumOf(groups.map((g) => g[1])), sumOf(groups.map((g) => g[2])), inputs.multiplier),
+      };
+    case "count":
+      return { measures: [], combine: (groups) => sumOf(groups.map((g) => g[0])) };
+    case "min":
+      return { measures: [], combine: (groups) => getExtent(groups.map((g) => g[0])).min };
+    case "max":
+      return { measures: [], combine: (groups) => getExtent(groups.map((g) => g[0])).max };
+    case "avg": {
+      if (inputs.denominator) return null;
+      return {
+        measures: [{ ...inputs, aggregation: "sum" }, { ...inputs, aggregation: "count" }],
+        combine: (groups) => {
+          const count = sumOf(groups.map((g) => g[2]));
+          return count === 0 ? 0 : sumOf(groups.map((g) => g[1])) / count;
+        },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Keeps a chart's Top/Bottom N categories, ranked by their first measure
+ * summed across the category's rows (legend series, treemap details).
+ * Categories are told apart by their group key, the full group-by value and
+ * period, so labels that read alike are ranked and counted separately.
+ * With Others on, the cut rows become one "Others" category per remaining
+ * split value, each measure rebuilt by its rollup.
+ * @param measureCount - Measures the chart shows; rollup measures follow them in each row
+ */
+function limitCategories(
+  rows: AggregateRow[],
+  getGroupKey: (row: AggregateRow) => string,
+  config: ChartConfig,
+  rollups: OthersRollup[] | null,
+  measureCount: number
+): { rows: AggregateRow[]; truncation?: DataTruncation } {
+  const mode = config.topNMode || "top";
+  const count = Math.max(1, config.topNCount || DEFAULT_TOP_N);
+
+  const totals = new Map<string, number>();
+  rows.forEach((row) => totals.set(getGroupKey(row), (totals.get(getGroupKey(row)) || 0) + (row.values[0] ?? 0)));
+  if (mode === "all" || totals.size <= count) return { rows };
+
+  const ranked = Array.from(totals.keys()).sort((a, b) =>
+    mode === "top" ? totals.get(b)! - totals.get(a)! : totals.get(a)! - totals.get(b)!
+  );
+  const kept = new Set(ranked.slice(0, count));
+  const keptRows = rows.filter((row) => kept.has(getGroupKey(row)));
+  const others = !!config.showOthers && !!rollups;
+  const truncation: DataTruncation = { mode, shown: kept.size, total: totals.size, others };
+  if (!others) return { rows: keptRows, truncation };
+
+  // One Others row per combination of the remaining dimensions (legend series, treemap details)
+  const restGroups = new Map<string, AggregateRow[]>();
+  rows
+    .filter((row) => !kept.has(getGroupKey(row)))
+    .forEach((row) => {
+      const key = JSON.stringify(row.dimensions.slice(1));
+      restGroups.set(key, [...(restGroups.get(key) || []), row]);
+    });
+
+  const othersRows: AggregateRow[] = Array.from(restGroups.values()).map((group) => {
+    let offset = measureCount;
+    const values = rollups!.map((rollup, i) => {
+      const groupValues = group.map((row) => [
+        row.values[i] ?? 0,
+        ...rollup.measures.map((_, j) => row.values[offset + j] ?? 0),
+      ]);
+      offset += rollup.measures.length;
+      return rollup.combine(groupValues);
+    });
+    return { dimensions: [OTHERS_CATEGORY, ...group[0].dimensions.slice(1)], period: null, values };
+  });
+
+  return { rows: [...keptRows, ...othersRows], truncation };
+}
+
+// ============================================================================
+// QUERY BUILDERS
+// ============================================================================
+
+/**
+ * Table visuals show the selected columns for raw records, followed by a total
+ * point flagged isTotal = 1: each measure summed, or its ratio of sums if derived
+ */
+function runTableQuery(config: ChartConfig, rows: MetaAdsCampaign[]): VisualQueryResult {
+  // Columns the data source doesn't provide are left out rather than filled from another field
+  const selectedColumns = (config.selectedColumns || []).filter(
+    (col) => isMetricAvailable(col) || isDimensionAvailable(col)
+  );
+  if (selectedColumns.length === 0) {
+    return { data: [] };
+  }
+
+  const firstDim = selectedColumns.find((c) => getDimension(c));
+  const firstMeasure = selectedColumns.find((c) => getMetric(c));
+
+  const tableData = rows.map((record) => {
+    const row: Record<string, string | number> = { id: crypto.randomUUID() };
+    selectedColumns.forEach((col) => {
+      const value = getFieldValue(record as unknown as Record<string, unknown>, col);
+      row[col] = typeof value === "string" || typeof value === "number" ? value : '';
+    });
+    // Add category and value for compatibility with DataPoint
+    row.category = firstDim ? String(row[firstDim]) : String(record.campaign_name);
+    row.value = firstMeasure ? Number(row[firstMeasure]) : 0;
+    return row as DataPoint;
+  });
+
+  if (rows.length > 0) {
+    const total: DataPoint = { id: crypto.randomUUID(), category: "Total", value: 0, isTotal: 1 };
+    selectedColumns.forEach((col) => {
+      const inputs = getMetric(col) ? resolveMetricInputs(col) : null;
+      if (inputs) total[col] = round2(aggregateMeasure(rows, inputs, "sum", () => true));
+    });
+    total.value = firstMeasure ? Number(total[firstMeasure] ?? 0) : 0;
+    tableData.push(total);
+  }
+
+  return {
+    data: tableData,
+    title: `Data Table (${selectedColumns.length} columns)`,
+  };
+}
+
+/**
+ * Histograms and box plots summarise the measure's row-level values (see distribution.ts).
+ * Histogram points are bins holding their row count, from binStart to binEnd. Box plot
+ * points are groups holding their median, with q1, q3 and the whiskers, each followed by
+ * one point per outlier flagged isOutlier = 1 and labelled with the row it came from.
+ */
+function runDistributionQuery(visualType: VisualType, config: ChartConfig, rows: MetaAdsCampaign[]): VisualQueryResult | null {
+  if (!config.measure) return null;
+
+  const measure = config.measure;
+  const inputs = resolveMetricInputs(measure);
+  const groupBy = visualType === "boxplot" ? config.groupBy : "";
+  if (!inputs || (groupBy && !isDimensionAvailable(groupBy))) return { data: [] };
+
+  // Ratios are undefined on rows without their denominator, e.g. CPC with no clicks
+  const measured = rows.filter(
+    (record) => !inputs.denominator || readNumber(record as unknown as Record<string, unknown>, inputs.denominator) !== 0
+  );
+
+  if (visualType === "histogram") {
+    const bins = getHistogramBins(
+      measured.map((record) => rowMeasureValue(record, inputs)),
+      { binCount: config.binCount, binWidth: config.binWidth }
+    );
+    return {
+      data: bins.map((bin) => ({
+        id: crypto.randomUUID(),
+        category: `${round2(bin.start)} – ${round2(bin.end)}`,
+        value: bin.count,
+        binStart: round2(bin.start),
+        binEnd: round2(bin.end),
+      })),
+      title: `Distribution of ${measure}`,
+      valueFieldNames: ["Rows"],
+    };
+  }
+
+  const groups = new Map<string, MetaAdsCampaign[]>();
+  measured.forEach((record) => {
+    const key = groupBy ? String(getFieldValue(record as unknown as Record<string, unknown>, groupBy) ?? "Unknown") : measure;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(record);
+  });
+
+  // Boxes with the highest median come first
+  const boxes = [...groups]
+    .map(([category, records]) => {
+      const values = records.map((record) => rowMeasureValue(record, inputs));
+      return { category, records, values, stats: getBoxPlotStats(values)! };
+    })
+    .sort((a, b) => b.stats.median - a.stats.median);
+
+  return {
+    data: boxes.flatMap(({ category, records, values, stats }) => [
+      {
+        id: crypto.randomUUID(),
+        category,
+        value: round2(stats.median),
+        q1: round2(stats.q1),
+        q3: round2(stats.q3),
+        lowerWhisker: round2(stats.lowerWhisker),
+        upperWhisker: round2(stats.upperWhisker),
+        count: records.length,
+      },
+      ...records.flatMap((record, i) =>
+        values[i] < stats.lowerWhisker || values[i] > stats.upperWhisker
+          ? [{
+              id: crypto.randomUUID(),
+              category,
+              value: round2(values[i]),
+              isOutlier: 1,
+              label: `${record.ad_set_name || record.campaign_name} (${record.date})`,
+            }]
+          : []
+      ),
+    ]),
+    title: groupBy ? `Distribution of ${measure} by ${groupBy}` : `Distribution of ${measure}`,
+    valueFieldNames: [measure],
+  };
+}
+
+/**
+ * Aggregated tables show one row per combination of the selected dimensions, with each
+ * selected measure aggregated, followed by the grand total as a point flagged isTotal = 1
+ */
+function planTableQuery(config: ChartConfig, filters: FilterValue[]): VisualQueryPlan | null {
+  const selectedColumns = (config.selectedColumns || []).filter(
+    (col) => isMetricAvailable(col) || isDimensionAvailable(col)
+  );
+  const dimensions = selectedColumns.filter((col) => getDimension(col));
+  const measures = selectedColumns.filter((col) => !getDimension(col));
+  if (dimensions.length === 0 || measures.length === 0) return null;
+
+  const columns = dimensions.map((dim) => getDimension(dim)!.column);
+  const measureInputs = measures.map((measure) => resolveMetricInputs(measure));
+  if (measureInputs.some((inputs) => !inputs)) return { request: null, shape: () => ({ data: [] }) };
+
+  const request: AggregateRequest = {
+    groupBy: columns,
+    granularity: "none",
+    measures: measureInputs.map((inputs) => ({ ...inputs!, aggregation: config.aggregation || "sum" })),
+    filters: toAggregateFilters(filters),
+    groupingSets: [columns, []],
+  };
+
+  const isGrandTotal = (row: AggregateRow) => !!row.rolledUp?.every(Boolean);
+
+  // Rows keep the selected column order; the largest first measure comes first
+  const shape = (rows: AggregateRow[]): VisualQueryResult => ({
+    data: [
+      ...rows
+        .filter((row) => !isGrandTotal(row))
+        .map((row) => {
+          const point: DataPoint = {
+            id: crypto.randomUUID(),
+            category: String(row.dimensions[0] ?? "Unknown"),
+            value: round2(row.values[0] ?? 0),
+          };
+          selectedColumns.forEach((col) => {
+            const dimIndex = dimensions.indexOf(col);
+            point[col] = dimIndex >= 0 ? String(row.dimensions[dimIndex] ?? "Unknown") : round2(row.values[measures.indexOf(col)] ?? 0);
+          });
+          return point;
+        })
+        .sort((a, b) => b.value - a.value),
+      ...rows.filter(isGrandTotal).map((row) => {
+        const point: DataPoint = { id: crypto.randomUUID(), category: "Total", value: round2(row.values[0] ?? 0), isTotal: 1 };
+        measures.forEach((measure, i) => {
+          point[measure] = round2(row.values[i] ?? 0);
+        });
+        return point;
+      }),
+    ],
+    title: `${measures.map((m) => measureLabel(m, config.aggregation)).join(", ")} by ${dimensions.join(", ")}`,
+    valueFieldNames: measures,
+  });
+
+  return { request, shape };
+}
+
+/**
+ * Cards reduce a measure to a single value using the card's calculation, with its
+ * target alongside (see targets.ts). Over a date granularity they add a sparkline
+ * of the measure per period, as points flagged isSparkline = 1 after the headline one.
+ */
+function planCardQuery(config: ChartConfig, filters: FilterValue[]): VisualQueryPlan | null {
+  if (config.cardVariant === "multiRow") return planMultiRowCardQuery(config, filters);
+  if (!config.measure) return null;
+
+  const measureInputs = resolveMetricInputs(config.measure);
+  const targetInputs = config.targetMeasure ? resolveMetricInputs(config.targetMeasure) : null;
+  if (!measureInputs || (config.targetMeasure && !targetInputs)) return { request: null, shape: () => ({ data: [] }) };
+
+  const calculation = config.calculation || "sum";
+  const calculationLabel = calculationTypes.find((c) => c.value === calculation)?.label;
+  const aggregation = calculationToAggregation[calculation];
+  const measure = config.measure;
+  const granularity = config.dateGranularity && config.dateGranularity !== "none" ? config.dateGranularity : null;
+  const aggregateFilters = toAggregateFilters(filters);
+
+  // Chronological, with a zero point for every period that had no rows
+  const shapeSparkline = (rows: AggregateRow[]): DataPoint[] => {
+    const byPeriod = new Map(rows.filter((row) => row.period).map((row) => [row.period!, row.values[0] ?? 0]));
+    const periods = Array.from(byPeriod.keys()).sort();
+    if (!granularity || periods.length === 0) return [];
+    return getPeriodSequence(periods[0], periods[periods.length - 1], granularity).map((period) => ({
+      id: crypto.randomUUID(),
+      category: period,
+      value: round2(byPeriod.get(period) ?? 0),
+      isSparkline: 1,
+    }));
+  };
+
+  return {
+    request: {
+      groupBy: [],
+      granularity: "none",
+      measures: [measureInputs, ...(targetInputs ? [targetInputs] : [])].map((inputs) => ({ ...inputs, aggregation })),
+      filters: aggregateFilters,
+    },
+    sparkline: granularity
+      ? { request: { groupBy: [], granularity, measures: [{ ...measureInputs, aggregation }], filters: aggregateFilters } }
+      : undefined,
+    shape: (rows, _comparisonRows, sparklineRows) => {
+      const headline: DataPoint = { id: crypto.randomUUID(), category: measure, value: round2(rows[0]?.values[0] ?? 0) };
+      const target = targetInputs ? rows[0]?.values[1] ?? 0 : config.targetValue;
+      if (target !== undefined) headline.target = round2(target);
+      return {
+        data: [headline, ...(sparklineRows ? shapeSparkline(sparklineRows) : [])],
+        title: calculation === "sum" ? measure : `${measure} (${calculationLabel})`,
+        valueFieldNames: [measure],
+      };
+    },
+  };
+}
+
+/** Multi-row cards reduce each of their measures with the card's calculation, one point per measure */
+function planMultiRowCardQuery(config: ChartConfig, filters: FilterValue[]): VisualQueryPlan | null {
+  const measures = config.cardMeasures || [];
+  if (measures.length === 0) return null;
+
+  const measureInputs = measures.map((measure) => resolveMetricInputs(measure));
+  if (measureInputs.some((inputs) => !inputs)) return { request: null, shape: () => ({ data: [] }) };
+
+  const aggregation = calculationToAggregation[config.calculation || "sum"];
+  return {
+    request: {
+      groupBy: [],
+      granularity: "none",
+      measures: measureInputs.map((inputs) => ({ ...inputs!, aggregation })),
+      filters: toAggregateFilters(filters),
+    },
+    shape: (rows) => ({
+      data: measures.map((measure, i) => ({ id: crypto.randomUUID(), category: measure, value: round2(rows[0]?.values[i] ?? 0) })),
+      title: measures.join(", "),
+      valueFieldNames: ["Value"],
+    }),
+  };
+}
+
+/**
+ * Gauges and bullet charts aggregate a measure and its target measure alike; a constant
+ * target is copied onto each point instead. Bullets can show one bar per dimension value.
+ */
+function planTargetQuery(visualType: VisualType, config: ChartConfig, filters: FilterValue[]): VisualQueryPlan | null {
+  if (!config.measure) return null;
+
+  const groupByDim = visualType === "bullet" ? config.groupBy : "";
+  const groupByColumn = groupByDim ? getDimension(groupByDim)?.column : null;
+  const measureInputs = resolveMetricInputs(config.measure);
+  const targetInputs = config.targetMeasure ? resolveMetricInputs(config.targetMeasure) : null;
+  if (!measureInputs || (config.targetMeasure && !targetInputs) || (groupByDim && !groupByColumn)) {
+    return { request: null, shape: () => ({ data: [] }) };
+  }
+
+  const aggregation = config.aggregation || "sum";
+  const measure = config.measure;
+  const request: AggregateRequest = {
+    groupBy: groupByColumn ? [groupByColumn] : [],
+    granularity: "none",
+    measures: [measureInputs, ...(targetInputs ? [targetInputs] : [])].map((inputs) => ({ ...inputs, aggregation })),
+    filters: toAggregateFilters(filters),
+  };
+
+  const title = [
+    measureLabel(measure, aggregation),
+    config.targetMeasure ? ` vs ${measureLabel(config.targetMeasure, aggregation)}` : "",
+    groupByDim ? ` by ${groupByDim}` : "",
+  ].join("");
+
+  const shape = (rows: AggregateRow[]): VisualQueryResult => {
+    // A gauge always shows its measure, at 0 when no rows match
+    const groups = groupByColumn ? rows : [rows[0] ?? { dimensions: [], period: null, values: [] }];
+    return {
+      data: groups
+        .map((row) => {
+          const point: DataPoint = {
+            id: crypto.randomUUID(),
+            category: groupByColumn ? String(row.dimensions[0] ?? "Unknown") : measure,
+            value: round2(row.values[0] ?? 0),
+          };
+          const target = targetInputs ? row.values[1] ?? 0 : config.targetValue;
+          if (target !== undefined) point.target = round2(target);
+          return point;
+        })
+        .sort((a, b) => b.value - a.value),
+      title,
+      valueFieldNames: [measure],
+    };
+  };
+
+  return { request, shape };
+}
+
+/**
+ * Heatmaps aggregate a measure per day of the date, in date order, or per pair of
+ * the group-by (DataPoint.category) and column dimension (DataPoint.column)
+ */
+function planHeatmapQuery(config: ChartConfig, filters: FilterValue[]): VisualQueryPlan | null {
+  const calendar = isCalendarHeatmap(config);
+  if (!config.measure || (!calendar && (!config.groupBy || !config.heatmapColumns))) return null;
+
+  const dimensions = calendar ? [] : [config.groupBy, config.heatmapColumns];
+  const columns = dimensions.map((dim) => getDimension(dim)?.column ?? null);
+  const measureInputs = resolveMetricInputs(config.measure);
+  if (!measureInputs || columns.some((column) => !column)) {
+    return { request: null, shape: () => ({ data: [] }) };
+  }
+
+  const aggregation = config.aggregation || "sum";
+  const request: AggregateRequest = {
+    groupBy: columns as SourceColumn[],
+    granularity: calendar ? "day" : "none",
+    measures: [{ ...measureInputs, aggregation }],
+    filters: toAggregateFilters(filters),
+  };
+
+  const shape = (rows: AggregateRow[]): VisualQueryResult => ({
+    data: calendar
+      ? rows
+          .filter((row) => row.period)
+          .map((row) => ({ id: crypto.randomUUID(), category: row.period!, value: round2(row.values[0] ?? 0) }))
+          .sort((a, b) => a.category.localeCompare(b.category))
+      : rows.map((row) => ({
+          id: crypto.randomUUID(),
+          category: String(row.dimensions[0] ?? "Unknown"),
+          column: String(row.dimensions[1] ?? "Unknown"),
+          value: round2(row.values[0] ?? 0),
+        })),
+    title: `${measureLabel(config.measure, aggregation)} by ${calendar ? "Day" : dimensions.join(" × ")}`,
+    valueFieldNames: [config.measure],
+  });
+
+  return { request, shape };
+}
+
+/**
+ * Charts aggregate a measure by a dimension, plus extra measures where the type uses them:
+ * multiline's second line (value2), scatter's y axis (value2) and bubble size (value3).
+ * Treemaps can nest a details dimension under the group (DataPoint.detail).
+ * Bar, line and area charts can split the measure into one series per legend value.
+ */
+function planChartQuery(visualType: VisualType, config: ChartConfig, filters: FilterValue[]): VisualQueryPlan | null {
+  // Require measure and groupBy; scatter plots need both axes
+  if (!config.measure || !config.groupBy) return null;
+  if (visualType === "scatter" && !config.measure2) return null;
+
+  const extraMeasures: { name: string; aggregation?: AggregationType }[] = [];
+  if ((visualType === "multiline" || visualType === "scatter") && config.measure2) {
+    extraMeasures.push({ name: config.measure2, aggregation: config.aggregation2 });
+  }
+  if (visualType === "scatter" && config.sizeMeasure) {
+    extraMeasures.push({ name: config.sizeMeasure });
+  }
+  const detailDimension = visualType === "treemap" && config.treemapDetail ? getDimension(config.treemapDetail) : undefined;
+  const supportsLegend = visualType === "bar" || visualType === "line" || visualType === "area";
+  const legendDimension = supportsLegend && config.legend && config.legend !== config.groupBy
+    ? getDimension(config.legend)
+    : undefined;
+  const splitDimension = detailDimension || legendDimension;
+
+  // Resolve source columns; fields the data source lacks show no data instead of a stand-in
+  const measureInputs = resolveMetricInputs(config.measure);
+  const extraInputs = extraMeasures.map((measure) => resolveMetricInputs(measure.name));
+  const groupByKey = getDimension(config.groupBy)?.column;
+  if (!measureInputs || !groupByKey || extraInputs.some((inputs) => !inputs) || (splitDimension && !splitDimension.column)) {
+    return { request: null, shape: () => ({ data: [] }) };
+  }
+
+  const timeGranularity = config.dateGranularity as TimeGranularity;
+
+  const measures: AggregateMeasure[] = [
+    { ...measureInputs, aggregation: config.aggregation || "sum" },
+    ...extraMeasures.map((measure, i) => ({ ...extraInputs[i]!, aggregation: measure.aggregation || "sum" })),
+  ];
+
+  // "Others" needs each measure's rollup inputs requested alongside it
+  const rollups = config.showOthers && config.topNMode !== "all"
+    ? measures.map((measure) => getOthersRollup(measure, measure.aggregation))
+    : [];
+  const othersRollups = rollups.length > 0 && rollups.every(Boolean) ? (rollups as OthersRollup[]) : null;
+
+  const request: AggregateRequest = {
+    groupBy: splitDimension ? [groupByKey, splitDimension.column!] : [groupByKey],
+    granularity: timeGranularity,
+    measures: [...measures, ...(othersRollups || []).flatMap((rollup) => rollup.measures)],
+    filters: toAggregateFilters(filters),
+  };
+
+  // Build title
+  const timeLabel = config.dateGranularity !== "none" ? ` by ${config.dateGranularity}` : "";
+  const measureTitle = measureLabel(config.measure, config.aggregation);
+  const measure2Title = measureLabel(config.measure2 || "", config.aggregation2);
+  let title = `${measureTitle} by ${config.groupBy}${timeLabel}`;
+  if (visualType === "multiline" && config.measure2) {
+    title = `${measureTitle} vs ${measure2Title} by ${config.groupBy}${timeLabel}`;
+  } else if (visualType === "scatter") {
+    title = `${measure2Title} vs ${measureTitle} by ${config.groupBy}${timeLabel}`;
+  } else if (splitDimension) {
+    title = `${measureTitle} by ${config.groupBy} and ${splitDimension.name}${timeLabel}`;
+  }
+
+  // Pass value field names for legend (and scatter axis labels)
+  const valueFieldNames = [config.measure, ...extraMeasures.map((measure) => measure.name)];
+
+  // Legend splits fold small series into "Other" only when the measure adds up across them
+  const additive = !measureInputs.denominator && ["sum", "count"].includes(config.aggregation || "sum");
+
+  // Labels are the full value; charts shorten them where they're drawn (see VisualPreview)
+  const getCategory = (row: AggregateRow) => {
+    const category = String(row.dimensions[0] || "Unknown");
+    if (timeGranularity !== "none" && row.period) {
+      return `${category} - ${getTimePeriodKey(row.period, timeGranularity)}`;
+    }
+    return category;
+  };
+  const getGroupKey = (row: AggregateRow) => JSON.stringify([row.dimensions[0], row.period]);
+
+  const shape = (allRows: AggregateRow[]): VisualQueryResult => {
+    const { rows, truncation } = limitCategories(allRows, getGroupKey, config, othersRollups, measures.length);
+
+    // Labels may add the period, so points carry the full group-by value they were
+    // clicked on by (dimensionValue); Others rows stand for no single value (isOthers)
+    const queriedRows = new Set(allRows);
+    const getPointIdentity = (row: AggregateRow): Record<string, string | number> => {
+      if (!queriedRows.has(row)) return { isOthers: 1 };
+      return row.dimensions[0] !== null ? { dimensionValue: String(row.dimensions[0]) } : {};
+    };
+    let newData: DataPoint[];
+    let seriesNames = valueFieldNames;
+
+    if (legendDimension) {
+      // One point per group, one value key per legend value
+      const pivoted = pivotLegendSeries(
+        rows.map((row) => ({
+          key: getGroupKey(row),
+          category: getCategory(row),
+          series: String(row.dimensions[1] || "Unknown"),
+          value: row.values[0] ?? 0,
+          identity: getPointIdentity(row),
+        })),
+        additive
+      );
+      newData = pivoted.data;
+      seriesNames = pivoted.seriesNames;
+    } else {
+      // Create chart data points, one per group (and date period if set)
+      newData = rows.map((row) => {
+        const dataPoint: DataPoint = {
+          id: crypto.randomUUID(),
+          category: getCategory(row),
+          value: round2(row.values[0] ?? 0),
+          ...getPointIdentity(row),
+        };
+
+        // Add value2 (multiline, scatter y) and value3 (scatter size)
+        extraMeasures.forEach((_, i) => {
+          dataPoint[`value${i + 2}`] = round2(row.values[i + 1] ?? 0);
+        });
+
+        if (detailDimension) {
+          dataPoint.detail = String(row.dimensions[1] || "Unknown");
+        }
+
+        return dataPoint;
+      });
+    }
+
+    // Split charts sort by the group's total across series
+    const sortValue = (point: DataPoint) =>
+      legendDimension
+        ? seriesNames.reduce((sum, _, i) => sum + (point[i === 0 ? "value" : `value${i + 1}`] as number), 0)
+        : point.value;
+
+    // Apply sorting based on config.sortBy
+    const sortBy = config.sortBy || "value-desc";
+    switch (sortBy) {
+      case "value-desc":
+        newData.sort((a, b) => sortValue(b) - sortValue(a));
+        break;
+      case "value-asc":
+        newData.sort((a, b) => sortValue(a) - sortValue(b));
+        break;
+      case "name-asc":
+        newData.sort((a, b) => a.category.localeCompare(b.category));
+        break;
+      case "name-desc":
+        newData.sort((a, b) => b.category.localeCompare(a.category));
+        break;
+      case "none":
+      default:
+        // No sorting
+        break;
+    }
+
+    // Others stays last whatever the sort
+    if (truncation?.others) {
+      newData = [
+        ...newData.filter((point) => point.category !== OTHERS_CATEGORY),
+        ...newData.filter((point) => point.category === OTHERS_CATEGORY),
+      ];
+    }
+
+    return { data: newData, title, valueFieldNames: seriesNames, truncation };
+  };
+
+  return { request, shape };
+}
+
+/**
+ * Line and area charts split by date plot the measure over time: one point per
+ * period in chronological order, empty periods filled with 0, and one series
+ * per group-by value (or a single series without a group-by)
+ * @param fillToDateRange - Fill across the whole date filter range rather than the
+ *                          periods with data, so compared periods line up point for point
+ */
+function planTimeSeriesQuery(config: ChartConfig, filters: FilterValue[], fillToDateRange = false): VisualQueryPlan | null {
+  if (!config.measure) return null;
+
+  const granularity = config.dateGranularity as TimeGranularity;
+  const measureInputs = resolveMetricInputs(config.measure);
+  const groupByKey = config.groupBy ? getDimension(config.groupBy)?.column : undefined;
+  if (!measureInputs || (config.groupBy && !groupByKey)) {
+    return { request: null, shape: () => ({ data: [] }) };
+  }
+
+  const measure = config.measure;
+  const additive = !measureInputs.denominator && ["sum", "count"].includes(config.aggregation || "sum");
+  const measureTitle = measureLabel(measure, config.aggregation);
+  const title = config.groupBy
+    ? `${measureTitle} by ${config.groupBy} by ${granularity}`
+    : `${measureTitle} by ${granularity}`;
+
+  return {
+    request: {
+      groupBy: groupByKey ? [groupByKey] : [],
+      granularity,
+      measures: [{ ...measureInputs, aggregation: config.aggregation || "sum" }],
+      filters: toAggregateFilters(filters),
+    },
+    shape: (rows) => {
+      const { data, seriesNames } = pivotLegendSeries(
+        rows
+          .filter((row) => row.period)
+          .map((row) => ({
+            key: row.period!,
+            category: row.period!,
+            series: groupByKey ? String(row.dimensions[0] || "Unknown") : measure,
+            value: row.values[0] ?? 0,
+          })),
+        additive
+      );
+
+      // Chronological, with a zero point for every period that had no rows
+      const byPeriod = new Map(data.map((point) => [point.category, point]));
+      const periods = Array.from(byPeriod.keys()).sort();
+      const range = fillToDateRange ? getActiveDateRange(filters) : null;
+      const toPeriod = (date: Date | null | undefined) => (date ? getPeriodStart(format(date, "yyyy-MM-dd"), granularity) : null);
+      const first = toPeriod(range?.start) ?? periods[0];
+      const last = toPeriod(range?.end) ?? periods[periods.length - 1];
+      const sequence = first && last ? getPeriodSequence(first, last, granularity) : [];
+      const filled = (sequence.length > 0 ? sequence : periods).map((period) => {
+        const existing = byPeriod.get(period);
+        if (existing) return existing;
+        const empty: DataPoint = { id: crypto.randomUUID(), category: period, value: 0 };
+        seriesNames.forEach((_, i) => { if (i > 0) empty[`value${i + 1}`] = 0; });
+        return empty;
+      });
+
+      // Trend, moving average and forecast apply to a single series
+      return {
+        data: groupByKey ? filled : applyTimeSeriesAnalytics(filled, config, granularity),
+        title,
+        valueFieldNames: seriesNames,
+      };
+    },
+  };
+}
+
+/** Funnels staged by measures total each one, in the configured order (e.g. Impression → Clicks → Leads) */
+function planFunnelStagesQuery(config: ChartConfig, filters: FilterValue[]): VisualQueryPlan | null {
+  const stages = config.funnelMeasures || [];
+  if (stages.length === 0) return null;
+
+  const stageInputs = stages.map((stage) => resolveMetricInputs(stage));
+  if (stageInputs.some((inputs) => !inputs)) return { request: null, shape: () => ({ data: [] }) };
+
+  return {
+    request: {
+      groupBy: [],
+      granularity: "none",
+      measures: stageInputs.map((inputs) => ({ ...inputs!, aggregation: "sum" })),
+      filters: toAggregateFilters(filters),
+    },
+    shape: (rows) => ({
+      data: stages.map((stage, i) => ({ id: crypto.randomUUID(), category: stage, value: round2(rows[0]?.values[i] ?? 0) })),
+      title: stages.join(" → "),
+      valueFieldNames: ["Value"],
+    }),
+  };
+}
+
+/** Matrices aggregate every measure at each level of the row and column hierarchies */
+function planMatrixQuery(config: ChartConfig, filters: FilterValue[]): VisualQueryPlan | null {
+  const layout = getMatrixLayout(config);
+  if (!layout) return null;
+
+  const dimensions = [...layout.rows, ...layout.columns];
+  const columns = dimensions.map((dim) => getDimension(dim)?.column ?? null);
+  const measureInputs = layout.measures.map((measure) => resolveMetricInputs(measure));
+  if (columns.some((column) => !column) || measureInputs.some((inputs) => !inputs)) {
+    return { request: null, shape: () => ({ data: [] }) };
+  }
+
+  const rowColumns = columns.slice(0, layout.rows.length) as SourceColumn[];
+  const columnColumns = columns.slice(layout.rows.length) as SourceColumn[];
+
+  // Every combination of a row level and a column level: cells, subtotals and the grand total
+  const groupingSets: SourceColumn[][] = [];
+  for (let r = rowColumns.length; r >= 0; r--) {
+    for (let c = columnColumns.length; c >= 0; c--) {
+      groupingSets.push([...rowColumns.slice(0, r), ...columnColumns.slice(0, c)]);
+    }
+  }
+
+  const request: AggregateRequest = {
+    groupBy: [...rowColumns, ...columnColumns],
+    granularity: "none",
+    measures: measureInputs.map((inputs) => ({ ...inputs!, aggregation: config.aggregation || "sum" })),
+    filters: toAggregateFilters(filters),
+    groupingSets,
+  };
+
+  const title = `${layout.measures.map((m) => measureLabel(m, config.aggregation)).join(", ")} by ${dimensions.join(" × ")}`;
+
+  // One DataPoint per cell or total, keyed by dimension and measure names (see pivot.ts)
+  const shape = (rows: AggregateRow[]): VisualQueryResult => ({
+    data: rows.map((row) => {
+      const point: DataPoint = { id: crypto.randomUUID(), category: "Total", value: round2(row.values[0] ?? 0) };
+      dimensions.forEach((dim, i) => {
+        if (!row.rolledUp?.[i]) point[dim] = String(row.dimensions[i] ?? "Unknown");
+      });
+      layout.measures.forEach((measure, i) => {
+        point[measure] = round2(row.values[i] ?? 0);
+      });
+      const rowPath = layout.rows.map((dim) => point[dim]).filter((v) => v !== undefined);
+      if (rowPath.length > 0) point.category = String(rowPath[rowPath.length - 1]);
+      return point;
+    }),
+    title,
+    valueFieldNames: layout.measures,
+  });
+
+  return { request, shape };
+}
+
+const isTimeSeriesQuery = (visualType: VisualType, config: ChartConfig) =>
+  (visualType === "line" || visualType === "area") && !!config.dateGranularity && config.dateGranularity !== "none";
+
+function planForFilters(
+  visualType: VisualType,
+  config: ChartConfig,
+  filters: FilterValue[],
+  fillToDateRange: boolean
+): VisualQueryPlan | null {
+  if (visualType === "card") return planCardQuery(config, filters);
+  if (isTargetVisual(visualType)) return planTargetQuery(visualType, config, filters);
+  if (visualType === "matrix") return planMatrixQuery(config, filters);
+  if (visualType === "heatmap") return planHeatmapQuery(config, filters);
+  if (visualType === "funnel" && config.funnelStages === "measures") return planFunnelStagesQuery(config, filters);
+  if (isTimeSeriesQuery(visualType, config)) return planTimeSeriesQuery(config, filters, fillToDateRange);
+  return planChartQuery(visualType, config, filters);
+}
+
+/**
+ * Adds the comparison period's request to a plan; its values are matched to the
+ * shown points by category, or by position along a time axis (the periods differ)
+ */
+function withComparison(
+  plan: VisualQueryPlan,
+  comparisonPlan: VisualQueryPlan,
+  comparisonFilters: FilterValue[],
+  byPosition: boolean
+): VisualQueryPlan {
+  return {
+    request: plan.request,
+    comparison: { request: comparisonPlan.request!, filters: comparisonFilters },
+    sparkline: plan.sparkline,
+    shape: (rows, comparisonRows, sparklineRows) => {
+      const result = plan.shape(rows, undefined, sparklineRows);
+      if (!comparisonRows) return result;
+
+      const previous = comparisonPlan.shape(comparisonRows).data;
+      const byCategory = new Map(previous.map((point) => [point.category, point]));
+      return {
+        ...result,
+        data: result.data.map((point, index) => {
+          const match = byPosition ? previous[index] : byCategory.get(point.category);
+          if (!match) return point;
+          return byPosition
+            ? { ...point, comparison: match.value, comparisonCategory: match.category }
+            : { ...point, comparison: match.value };
+        }),
+      };
+    },
+  };
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Plans how to query a visual's chart configuration under the active filters
+ * @returns The plan, or null for raw-row tables, distribution visuals and incomplete configs
+ */
+export function planVisualQuery(
+  visualType: VisualType,
+  config: ChartConfig,
+  filters: FilterValue[] = []
+): VisualQueryPlan | null {
+  // Points the visual has drilled into narrow its own query
+  const scopedFilters = [...filters, ...getDrillFilters(config)];
+  if (visualType === "table") return config.tableAggregate ? planTableQuery(config, scopedFilters) : null;
+  if (isDistributionVisual(visualType)) return null;
+
+  const comparisonFilters = supportsComparison(visualType, config) ? getComparisonFilters(config, scopedFilters) : null;
+  const plan = planForFilters(visualType, config, scopedFilters, !!comparisonFilters);
+  if (!plan?.request || !comparisonFilters) return plan;
+
+  // Every category is kept for the comparison so each shown point can find its match;
+  // analytics such as a forecast only apply to the shown period
+  const comparisonConfig: ChartConfig = { ...config, topNMode: "all", trendLine: false, movingAverage: undefined, forecastPeriods: undefined };
+  const comparisonPlan = planForFilters(visualType, comparisonConfig, comparisonFilters, true);
+  if (!comparisonPlan?.request) return plan;
+  return withComparison(plan, comparisonPlan, comparisonFilters, isTimeSeriesQuery(visualType, config));
+}
+
+/** Raw-row tables and distribution visuals are built from the matching rows rather than an aggregate request */
+export function needsRowLevelData(visualType: VisualType, config: ChartConfig): boolean {
+  if (visualType === "table") return !config.tableAggregate && (config.selectedColumns || []).length > 0;
+  return isDistributionVisual(visualType) && !!config.measure;
+}
+
+/** Builds a raw-row table or distribution visual from rows already filtered (see needsRowLevelData) */
+export function runRowLevelQuery(visualType: VisualType, config: ChartConfig, rows: MetaAdsCampaign[]): VisualQueryResult | null {
+  return isDistributionVisual(visualType) ? runDistributionQuery(visualType, config, rows) : runTableQuery(config, rows);
+}
+
+/** The title a visual's config suggests, without running its query; undefined while the config is incomplete */
+export function getVisualTitle(visualType: VisualType, config: ChartConfig): string | undefined {
+  if (needsRowLevelData(visualType, config)) return runRowLevelQuery(visualType, config, [])?.title;
+  return planVisualQuery(visualType, config)?.shape([]).title;
+}
+
+/**
+ * Plans a slicer's values for a field: the distinct values of a text column, each
+ * day with data for the date, and a measure's smallest and largest value, which is
+ * all a range slicer needs
+ * @returns null for fields the data source lacks
+ */
+export function planFieldValuesQuery(field: string): FieldValuesQuery | null {
+  const column = resolveFieldColumn(field);
+  const request: AggregateRequest = { groupBy: [], granularity: "none", measures: [], filters: [] };
+
+  if (column === "date") {
+    return {
+      request: { ...request, granularity: "day" },
+      values: (rows) => rows.flatMap((row) => (row.period ? [row.period] : [])),
+    };
+  }
+  if (column && GROUPABLE_COLUMNS.includes(column)) {
+    return {
+      request: { ...request, groupBy: [column] },
+      values: (rows) => rows.flatMap((row) => (row.dimensions[0] !== null ? [row.dimensions[0]] : [])),
+    };
+  }
+
+  const inputs = resolveMetricInputs(field) ?? (column ? { numerator: column, denominator: null, multiplier: 1 } : null);
+  if (!inputs) return null;
+  return {
+    request: { ...request, measures: [{ ...inputs, aggregation: "min" }, { ...inputs, aggregation: "max" }] },
+    values: (rows) => (rows[0] ? rows[0].values.map(round2) : []),
+  };
+}
+
+/**
+ * Runs a visual's chart configuration against the raw rows in the browser
+ * @param filters - Active slicer filters, applied before aggregation
+ * @returns Query result, or null when there is no data or the config is incomplete
+ */
+export function runVisualQuery(
+  visualType: VisualType,
+  config: ChartConfig,
+  rows: MetaAdsCampaign[],
+  filters: FilterValue[] = []
+): VisualQueryResult | null {
+  if (rows.length === 0) return null;
+
+  const filteredRows = applyFilters(rows, [...filters, ...getDrillFilters(config)]);
+  if (needsRowLevelData(visualType, config)) return runRowLevelQuery(visualType, config, filteredRows);
+
+  const plan = planVisualQuery(visualType, config, filters);
+  if (!plan) return null;
+  const comparisonRows = plan.comparison
+    ? aggregateLocally(applyFilters(rows, plan.comparison.filters), plan.comparison.request)
+    : undefined;
+  const sparklineRows = plan.sparkline ? aggregateLocally(filteredRows, plan.sparkline.request) : undefined;
+  return plan.shape(plan.request ? aggregateLocally(filteredRows, plan.request) : [], comparisonRows, sparklineRows);
+}
+
+/** Copies a query result's data and legend names onto a visual */
+export function applyQueryResult<T extends QueryableVisual>(visual: T, result: VisualQueryResult): T {
+  return {
+    ...visual,
+    data: result.data,
+    valueFieldNames: result.valueFieldNames ?? visual.valueFieldNames,
+    truncation: result.truncation,
+    rowLimit: result.rowLimit,
+    queryStatus: undefined,
+  };
+}
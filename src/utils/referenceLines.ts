@@ -0,0 +1,87 @@
+/**
+ * referenceLines.ts - Reference lines and target bands
+ *
+ * Rules are built in PropertyPanel (ReferenceLines) and drawn by VisualPreview
+ * across the value axis of bar, line, area and combo charts:
+ *   - constant:   a fixed value, e.g. a target CPA
+ *   - average, median, percentile: computed from the field's plotted values
+ *   - band:       a shaded range between two values, e.g. a target range
+ * A rule's field is a value key ("value", "value2") or its display name ("ROAS"),
+ * as for conditional formatting rules; the line uses that field's number format.
+ */
+
+import type { ReferenceLineRule } from "@/types/dashboard";
+
+// Options shown in the reference line editor
+export const referenceLineTypes: { value: ReferenceLineRule["type"]; label: string }[] = [
+  { value: "constant", label: "Constant line" },
+  { value: "average", label: "Average" },
+  { value: "median", label: "Median" },
+  { value: "percentile", label: "Percentile" },
+  { value: "band", label: "Target band" },
+];
+
+export const DEFAULT_REFERENCE_COLOR = "#f59e0b";
+
+const DEFAULT_PERCENTILE = 90;
+
+const ordinal = (n: number) => {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${["th", "st", "nd", "rd"][n % 10] || "th"}`;
+};
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/** Percentile of the values (0-100) by linear interpolation between ranks */
+export function getPercentile(values: number[], percentile: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, percentile)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  return sorted[lower] + (sorted[Math.ceil(rank)] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Where a rule sits on the value axis; bands span y..y2
+ * @param values - The field's plotted values, read by computed lines
+ * @returns null when a computed line has no values
+ */
+export function getReferenceLineValue(rule: ReferenceLineRule, values: number[]): { y: number; y2?: number } | null {
+  switch (rule.type) {
+    case "constant":
+      return { y: rule.value ?? 0 };
+    case "band": {
+      const from = rule.value ?? 0;
+      const to = rule.value2 ?? from;
+      return { y: Math.min(from, to), y2: Math.max(from, to) };
+    }
+    case "average":
+      return values.length > 0 ? { y: values.reduce((sum, v) => sum + v, 0) / values.length } : null;
+    case "median": {
+      const median = getPercentile(values, 50);
+      return median === null ? null : { y: median };
+    }
+    case "percentile": {
+      const value = getPercentile(values, rule.percentile ?? DEFAULT_PERCENTILE);
+      return value === null ? null : { y: value };
+    }
+    default:
+      return null;
+  }
+}
+
+/** Name shown on a rule's line: its label, or its type, e.g. "Average" or "90th percentile" */
+export function getReferenceLineName(rule: ReferenceLineRule): string {
+  if (rule.label) return rule.label;
+  switch (rule.type) {
+    case "constant":
+      return "Target";
+    case "percentile":
+      return `${ordinal(rule.percentile ?? DEFAULT_PERCENTILE)} percentile`;
+    default:
+      return referenceLineTypes.find((option) => option.value === rule.type)?.label || rule.type;
+  }
+}
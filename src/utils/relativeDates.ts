@@ -0,0 +1,76 @@
+import {
+  addDays,
+  subWeeks,
+  subMonths,
+  subQuarters,
+  startOfDay,
+  startOfQuarter,
+  endOfQuarter,
+  startOfYear,
+  format,
+} from "date-fns";
+import type { FilterValue, RelativeDatePeriod, RelativeDateSetting } from "@/types/dashboard";
+
+// Options shown in the relative-date slicer
+export const relativeDatePeriods: { value: RelativeDatePeriod; label: string; hasCount: boolean }[] = [
+  { value: "last-n-days", label: "Last N days", hasCount: true },
+  { value: "last-n-weeks", label: "Last N weeks", hasCount: true },
+  { value: "last-n-months", label: "Last N months", hasCount: true },
+  { value: "this-quarter", label: "This quarter", hasCount: false },
+  { value: "previous-quarter", label: "Previous quarter", hasCount: false },
+  { value: "year-to-date", label: "Year to date", hasCount: false },
+];
+
+/**
+ * Resolves a relative date setting to an absolute range of whole days
+ * "Last N" windows end today and include it, e.g. last 7 days = today and the 6 days before
+ * @param today - Reference date, defaults to now so saved dashboards roll forward
+ */
+export function getRelativeDateRange(
+  setting: RelativeDateSetting,
+  today: Date = new Date()
+): { start: Date; end: Date } {
+  const end = startOfDay(today);
+  const count = Math.max(1, Math.floor(setting.count || 1));
+
+  switch (setting.period) {
+    case "last-n-days":
+      return { start: addDays(end, -(count - 1)), end };
+    case "last-n-weeks":
+      return { start: addDays(subWeeks(end, count), 1), end };
+    case "last-n-months":
+      return { start: addDays(subMonths(end, count), 1), end };
+    case "this-quarter":
+      return { start: startOfQuarter(end), end: startOfDay(endOfQuarter(end)) };
+    case "previous-quarter": {
+      const previous = subQuarters(end, 1);
+      return { start: startOfQuarter(previous), end: startOfDay(endOfQuarter(previous)) };
+    }
+    case "year-to-date":
+    default:
+      return { start: startOfYear(end), end };
+  }
+}
+
+/** Human-readable label for a relative date setting, e.g. "Last 30 days" */
+export function getRelativeDateLabel(setting: RelativeDateSetting): string {
+  const option = relativeDatePeriods.find((p) => p.value === setting.period);
+  if (!option) return "";
+  return option.hasCount ? option.label.replace("N", String(setting.count || 1)) : option.label;
+}
+
+/** Formats the resolved range for display under the slicer */
+export function formatRelativeDateRange(setting: RelativeDateSetting, today: Date = new Date()): string {
+  const { start, end } = getRelativeDateRange(setting, today);
+  return `${format(start, "MMM d, yyyy")} - ${format(end, "MMM d, yyyy")}`;
+}
+
+/** Builds the date filter a relative-date slicer registers, resolved against today */
+export function getRelativeDateFilter(field: string, setting: RelativeDateSetting, today: Date = new Date()): FilterValue {
+  return {
+    field,
+    values: [],
+    operator: "between",
+    dateRange: getRelativeDateRange(setting, today),
+  };
+}
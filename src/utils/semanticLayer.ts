@@ -0,0 +1,220 @@
+/**
+ * semanticLayer.ts - Dimension and metric catalog
+ *
+ * Declares every dimension and metric offered in ChartConfigDropdowns
+ * together with the meta_ads_campaigns column it reads, its data type and
+ * whether the data source actually provides it.
+ *
+ * Fields without a source column are listed but unavailable: the UI shows
+ * them disabled and the query engine returns no data for them instead of
+ * substituting another column.
+ *
+ * Derived metrics (CTR, CPL, ...) are ratios of two base metrics. They are
+ * aggregated as a ratio of sums - sum(numerator) / sum(denominator) - never
+ * as an average of row-level ratios, and are available when both inputs are.
+ */
+
+import type { GroupByDimension, MetaMetric } from "@/components/ChartConfigDropdowns";
+import type { MetaAdsCampaign } from "@/hooks/useMetaAdsData";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SourceColumn = keyof MetaAdsCampaign;
+export type DimensionDataType = "string" | "date";
+export type MetricDataType = "integer" | "decimal" | "currency" | "percent";
+
+export interface DimensionDefinition {
+  name: GroupByDimension;
+  column: SourceColumn | null;  // null = not present in the data source
+  dataType: DimensionDataType;
+  available: boolean;
+}
+
+/** numerator / denominator * multiplier, e.g. CTR = Clicks / Impression * 100 */
+export interface MetricFormula {
+  numerator: MetaMetric;
+  denominator: MetaMetric;
+  multiplier?: number;
+}
+
+export interface MetricDefinition {
+  name: MetaMetric;
+  column: SourceColumn | null;  // null = derived, or not present in the data source
+  formula?: MetricFormula;      // Set for derived metrics
+  dataType: MetricDataType;
+  available: boolean;
+}
+
+/** Source columns a measure reads; denominator is null for base metrics */
+export interface MetricInputs {
+  numerator: SourceColumn;
+  denominator: SourceColumn | null;
+  multiplier: number;
+}
+
+/** Shown next to fields the data source does not provide */
+export const UNAVAILABLE_FIELD_HINT = "Not in data source";
+
+// ============================================================================
+// CATALOG
+// ============================================================================
+
+const dimension = (
+  name: GroupByDimension,
+  column: SourceColumn | null,
+  dataType: DimensionDataType = "string"
+): DimensionDefinition => ({ name, column, dataType, available: column !== null });
+
+const metric = (
+  name: MetaMetric,
+  column: SourceColumn | null,
+  dataType: MetricDataType
+): MetricDefinition => ({ name, column, dataType, available: column !== null });
+
+export const dimensionCatalog: Record<GroupByDimension, DimensionDefinition> = {
+  "Ad Category": dimension("Ad Category", null),
+  "Ad Format": dimension("Ad Format", null),
+  "Ad Name": dimension("Ad Name", null),
+  "Ad Set Label": dimension("Ad Set Label", null),
+  "Ad Set Name": dimension("Ad Set Name", "ad_set_name"),
+  "Ad Set Type": dimension("Ad Set Type", null),
+  "Ad Type": dimension("Ad Type", null),
+  "Age": dimension("Age", null),
+  "Campaign Category": dimension("Campaign Category", null),
+  "Campaign Label": dimension("Campaign Label", null),
+  "Campaign Name": dimension("Campaign Name", "campaign_name"),
+  "Campaign Type": dimension("Campaign Type", null),
+  "Device": dimension("Device", null),
+  "Gender": dimension("Gender", null),
+  "Platform": dimension("Platform", null),
+};
+
+// Base metrics read straight from a column
+const baseMetrics: Partial<Record<MetaMetric, MetricDefinition>> = {
+  "100% Video View": metric("100% Video View", null, "integer"),
+  "25% Video View": metric("25% Video View", null, "integer"),
+  "50% Video View": metric("50% Video View", null, "integer"),
+  "75% Video View": metric("75% Video View", null, "integer"),
+  "Brand Suitability Blocked Ads": metric("Brand Suitability Blocked Ads", null, "integer"),
+  "Brand Suitability Failed Ads": metric("Brand Suitability Failed Ads", null, "integer"),
+  "Clicks": metric("Clicks", "clicks", "integer"),
+  "Engagements": metric("Engagements", null, "integer"),
+  "Impression": metric("Impression", "impressions", "integer"),
+  "Impressions (Verification)": metric("Impressions (Verification)", null, "integer"),
+  "Landing Page View": metric("Landing Page View", null, "integer"),
+  "Leads": metric("Leads", "conversions", "integer"),
+  "Measurable Impressions (Verification)": metric("Measurable Impressions (Verification)", null, "integer"),
+  "Spend": metric("Spend", "spend", "currency"),
+  "Thruplays": metric("Thruplays", null, "integer"),
+  "Tracked Ads": metric("Tracked Ads", null, "integer"),
+  "Video Spend": metric("Video Spend", null, "currency"),
+  "Video Starts": metric("Video Starts", null, "integer"),
+  "Video Views": metric("Video Views", null, "integer"),
+  "Viewability Impressions (Verification)": metric("Viewability Impressions (Verification)", null, "integer"),
+};
+
+const derived = (name: MetaMetric, formula: MetricFormula, dataType: MetricDataType): MetricDefinition => ({
+  name,
+  column: null,
+  formula,
+  dataType,
+  available: !!baseMetrics[formula.numerator]?.available && !!baseMetrics[formula.denominator]?.available,
+});
+
+export const metricCatalog: Record<MetaMetric, MetricDefinition> = {
+  ...(baseMetrics as Record<MetaMetric, MetricDefinition>),
+  // Derived metrics - ratio of two base metrics
+  "CPC": derived("CPC", { numerator: "Spend", denominator: "Clicks" }, "currency"),
+  "CPCV": derived("CPCV", { numerator: "Spend", denominator: "100% Video View" }, "currency"),
+  "CPE": derived("CPE", { numerator: "Spend", denominator: "Engagements" }, "currency"),
+  "CPL": derived("CPL", { numerator: "Spend", denominator: "Leads" }, "currency"),
+  "CPM": derived("CPM", { numerator: "Spend", denominator: "Impression", multiplier: 1000 }, "currency"),
+  "CPV": derived("CPV", { numerator: "Spend", denominator: "Video Views" }, "currency"),
+  "CTR": derived("CTR", { numerator: "Clicks", denominator: "Impression", multiplier: 100 }, "percent"),
+  "Engagement Rate": derived("Engagement Rate", { numerator: "Engagements", denominator: "Impression", multiplier: 100 }, "percent"),
+  "Measurable Rate (Verification)": derived(
+    "Measurable Rate (Verification)",
+    { numerator: "Measurable Impressions (Verification)", denominator: "Impressions (Verification)", multiplier: 100 },
+    "percent"
+  ),
+  "Viewability Rate": derived(
+    "Viewability Rate",
+    { numerator: "Viewability Impressions (Verification)", denominator: "Impression", multiplier: 100 },
+    "percent"
+  ),
+  "Viewabillity Rate (Verification)": derived(
+    "Viewabillity Rate (Verification)",
+    { numerator: "Viewability Impressions (Verification)", denominator: "Measurable Impressions (Verification)", multiplier: 100 },
+    "percent"
+  ),
+  "VTR": derived("VTR", { numerator: "100% Video View", denominator: "Impression", multiplier: 100 }, "percent"),
+};
+
+// Field names stored by older dashboards and slicers that are not catalog entries
+const legacyFieldColumns: Record<string, SourceColumn> = {
+  campaignName: "campaign_name",
+  adSetName: "ad_set_name",
+  date: "date",
+  impressions: "impressions",
+  clicks: "clicks",
+  spend: "spend",
+  conversions: "conversions",
+  ctr: "ctr",
+  cpc: "cpc",
+  cpm: "cpm",
+  roas: "roas",
+  "Impressions": "impressions",
+  "Conversions": "conversions",
+  "ROAS": "roas",
+};
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+export function getDimension(name: string): DimensionDefinition | undefined {
+  return dimensionCatalog[name as GroupByDimension];
+}
+
+export function getMetric(name: string): MetricDefinition | undefined {
+  return metricCatalog[name as MetaMetric];
+}
+
+export function isDimensionAvailable(name: string): boolean {
+  return getDimension(name)?.available ?? false;
+}
+
+export function isMetricAvailable(name: string): boolean {
+  return getMetric(name)?.available ?? false;
+}
+
+/**
+ * Resolves a metric to the source columns it aggregates
+ * @returns Inputs for the ratio of sums, or null when the metric is unknown or unavailable
+ */
+export function resolveMetricInputs(name: string): MetricInputs | null {
+  const definition = getMetric(name);
+  if (!definition?.available) return null;
+
+  if (definition.formula) {
+    return {
+      numerator: metricCatalog[definition.formula.numerator].column!,
+      denominator: metricCatalog[definition.formula.denominator].column!,
+      multiplier: definition.formula.multiplier ?? 1,
+    };
+  }
+  return { numerator: definition.column!, denominator: null, multiplier: 1 };
+}
+
+/**
+ * Resolves a dimension, metric or legacy field name to its source column
+ * Derived metrics have no single column; read them with resolveMetricInputs
+ * @returns The column, or null when the field is unknown, derived or not in the data source
+ */
+export function resolveFieldColumn(name: string): SourceColumn | null {
+  const definition = getDimension(name) || getMetric(name);
+  if (definition) return definition.column;
+  return legacyFieldColumns[name] || null;
+}
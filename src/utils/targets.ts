@@ -0,0 +1,179 @@
+/**
+ * targets.ts - Gauges, bullet charts and KPI card targets
+ *
+ * Gauges and bullets show a measure's progress towards a target on a min..max
+ * scale, e.g. spend against budget; KPI cards show the target's status. The
+ * target is a second measure, aggregated like the first, or a constant from the
+ * config; either way it arrives on each DataPoint as `target`.
+ *
+ * Qualitative bands shade the scale behind the value. Their edges are percentages
+ * of the target, e.g. [80, 100] for under 80%, 80-100% and over target, or of the
+ * scale's max when there is no target.
+ *
+ * A cross-filter selection in another visual filters gauges and bullets to the
+ * selected value rather than only highlighting it, so a pacing gauge follows the
+ * campaign clicked in a bar chart. A day selected on a calendar heatmap filters
+ * every visual, as no other visual has that day to highlight.
+ */
+
+import type { ChartConfig } from "@/components/ChartConfigDropdowns";
+import type { DataPoint } from "@/components/DataEditor";
+import type { VisualType } from "@/components/VisualTypeSelector";
+import type { CrossFilter } from "@/contexts/CrossFilterContext";
+import type { FilterValue, TimeGranularity } from "@/types/dashboard";
+import { getDimension } from "@/utils/semanticLayer";
+import { getPeriodRange } from "@/utils/timeAxis";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TargetScale {
+  min: number;
+  max: number;
+}
+
+export interface TargetBand {
+  from: number;
+  to: number;
+}
+
+export type TargetStatus = "onTrack" | "atRisk" | "offTrack";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Multiples of a power of ten an automatic max rounds up to
+const NICE_STEPS = [1, 1.2, 1.5, 2, 2.5, 3, 4, 5, 6, 8, 10];
+
+// Headroom past the larger of value and target, so overshooting stays visible
+const AUTO_MAX_HEADROOM = 1.1;
+
+// Share of the target from which a miss counts as at risk rather than off track
+const DEFAULT_AT_RISK_PERCENT = 90;
+
+/** Rounds up to a readable scale end, e.g. 8,340 → 10,000 and 1,100 → 1,200 */
+function niceCeiling(value: number): number {
+  if (value <= 0) return 0;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  return NICE_STEPS.find((step) => step * magnitude >= value)! * magnitude;
+}
+
+const readTarget = (point: DataPoint) => (typeof point.target === "number" ? point.target : undefined);
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export const isTargetVisual = (visualType?: VisualType | string) => visualType === "gauge" || visualType === "bullet";
+
+/** Whether a cross-filter selection filters a visual rather than highlighting in it */
+export const isFilteredByCrossFilter = (crossFilter: CrossFilter, visualType?: VisualType | string) =>
+  crossFilter.dimension === "date" || isTargetVisual(visualType);
+
+/** The selection a visual highlights: none for the day filters that apply to every visual, except in its source */
+export const getCrossFilterHighlight = (crossFilter: CrossFilter | null, visualId?: string) =>
+  crossFilter && (crossFilter.dimension !== "date" || crossFilter.sourceVisualId === visualId) ? crossFilter.value : null;
+
+/** The scale shared by every point: the configured min and max, or 0 up to a rounded max */
+export function getTargetScale(points: DataPoint[], config?: ChartConfig): TargetScale {
+  const min = config?.rangeMin ?? 0;
+  if (config?.rangeMax !== undefined && config.rangeMax > min) return { min, max: config.rangeMax };
+
+  const largest = Math.max(min, ...points.flatMap((point) => [point.value, readTarget(point) ?? min]));
+  const max = niceCeiling(largest * AUTO_MAX_HEADROOM);
+  return { min, max: max > min ? max : min + 1 };
+}
+
+/**
+ * The qualitative bands of one point, lowest first and clamped to the scale
+ * @returns [] when the config has no band edges
+ */
+export function getTargetBands(config: ChartConfig | undefined, point: DataPoint, scale: TargetScale): TargetBand[] {
+  const percents = (config?.targetBands || []).filter((percent) => Number.isFinite(percent));
+  if (percents.length === 0) return [];
+
+  const base = readTarget(point) || scale.max;
+  const edges = percents
+    .map((percent) => Math.min(scale.max, Math.max(scale.min, (percent / 100) * base)))
+    .sort((a, b) => a - b);
+  const stops = [scale.min, ...edges, scale.max];
+  return stops.slice(1).map((to, i) => ({ from: stops[i], to })).filter((band) => band.to > band.from);
+}
+
+/** Where a value sits on the scale, from 0 to 1 */
+export const getScaleFraction = (value: number, scale: TargetScale) =>
+  Math.min(1, Math.max(0, (value - scale.min) / (scale.max - scale.min)));
+
+/** The point's value as a percentage of its target, or null without a (non-zero) target */
+export function getTargetPercent(point: DataPoint): number | null {
+  const target = readTarget(point);
+  return target ? (point.value / target) * 100 : null;
+}
+
+export const targetStatusLabels: Record<TargetStatus, string> = {
+  onTrack: "On track",
+  atRisk: "At risk",
+  offTrack: "Off track",
+};
+
+/**
+ * On track at or past the target, at risk within the config's at-risk percentage
+ * of it, off track beyond. Where lower is better (costs) the value must stay at or
+ * under the target, and the attainment is target / value.
+ * @returns null without a (non-zero) target
+ */
+export function getTargetStatus(point: DataPoint, config?: ChartConfig): TargetStatus | null {
+  const target = readTarget(point);
+  if (!target) return null;
+  const attainment = config?.lowerIsBetter
+    ? (point.value === 0 ? Infinity : target / point.value)
+    : point.value / target;
+  if (attainment >= 1) return "onTrack";
+  return attainment >= (config?.atRiskPercent ?? DEFAULT_AT_RISK_PERCENT) / 100 ? "atRisk" : "offTrack";
+}
+
+/**
+ * Query filters standing for a cross-filter selection, read from the visual it was
+ * made in: a dimension value (group-by, matrix row or table column), a period of a
+ * time axis or a day of a calendar heatmap. Group-by selections are the full value
+ * behind the clicked point, not its label, which may be shortened or carry a period;
+ * "Others" can't be selected (see VisualPreview)
+ * @returns [] when the selection can't be expressed as a filter
+ */
+export function getCrossFilterFilters(
+  crossFilter: CrossFilter | null,
+  source?: { type: VisualType; config?: ChartConfig }
+): FilterValue[] {
+  if (!crossFilter || !source?.config) return [];
+  const { config } = source;
+  const values = Array.isArray(crossFilter.value) ? crossFilter.value : [crossFilter.value];
+
+  // Calendar heatmaps select a day (see heatmap.ts)
+  if (crossFilter.dimension === "date") {
+    const range = values.length === 1 ? getPeriodRange(values[0], "day") : null;
+    return range ? [{ field: "date", values: [], dateRange: range }] : [];
+  }
+
+  // Matrices name the clicked row's dimension themselves
+  if (crossFilter.dimension !== "category") {
+    return getDimension(crossFilter.dimension) ? [{ field: crossFilter.dimension, values, operator: "equals" }] : [];
+  }
+
+  if ((source.type === "line" || source.type === "area") && config.dateGranularity && config.dateGranularity !== "none") {
+    const range = values.length === 1 ? getPeriodRange(values[0], config.dateGranularity as TimeGranularity) : null;
+    return range ? [{ field: "date", values: [], dateRange: range }] : [];
+  }
+
+  // Funnels staged by measures have no dimension behind their points
+  if (source.type === "funnel" && config.funnelStages === "measures") return [];
+  const field = source.type === "table"
+    ? (config.selectedColumns || []).find((column) => getDimension(column))
+    : config.groupBy;
+  return field ? [{ field, values, operator: "equals" }] : [];
+}
+
+/** Band shade from dark (lowest band) to light, as opacity over the muted foreground */
+export const getBandOpacity = (index: number, count: number) =>
+  count <= 1 ? 0.3 : 0.45 - (0.3 * index) / (count - 1);
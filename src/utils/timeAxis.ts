@@ -0,0 +1,95 @@
+/**
+ * timeAxis.ts - Chronological date axis for line and area charts
+ *
+ * Time-series points carry their period start (yyyy-MM-dd, the same value
+ * date_trunc returns on the server) as the category. The query engine fills
+ * every period between the first and last with getPeriodSequence, and
+ * VisualPreview formats the axis ticks and tooltips with formatPeriodTick.
+ */
+
+import { addDays, addMonths, addQuarters, addWeeks, addYears, format, isValid, parseISO } from "date-fns";
+import type { TimeGranularity } from "@/types/dashboard";
+
+// Longest axis a chart fills; beyond this only the periods with data are shown
+const MAX_PERIODS = 1000;
+
+const stepPeriod: Record<Exclude<TimeGranularity, "none">, (date: Date) => Date> = {
+  day: (date) => addDays(date, 1),
+  week: (date) => addWeeks(date, 1),
+  month: (date) => addMonths(date, 1),
+  quarter: (date) => addQuarters(date, 1),
+  year: (date) => addYears(date, 1),
+};
+
+/**
+ * Every period start from first to last inclusive, e.g. the months
+ * 2024-01-01 → 2024-04-01 give 2024-01-01, 2024-02-01, 2024-03-01, 2024-04-01
+ * @returns The sequence, or [] when the bounds are not dates or the range is too long
+ */
+export function getPeriodSequence(first: string, last: string, granularity: TimeGranularity): string[] {
+  if (granularity === "none") return [];
+  const start = parseISO(first);
+  const end = parseISO(last);
+  if (!isValid(start) || !isValid(end)) return [];
+
+  const periods: string[] = [];
+  for (let date = start; date <= end; date = stepPeriod[granularity](date)) {
+    if (periods.length >= MAX_PERIODS) return [];
+    periods.push(format(date, "yyyy-MM-dd"));
+  }
+  return periods;
+}
+
+/** The next count period starts after the given one, e.g. to extend an axis with a forecast */
+export function getNextPeriods(period: string, count: number, granularity: TimeGranularity): string[] {
+  const start = parseISO(period);
+  if (granularity === "none" || !isValid(start)) return [];
+
+  const periods: string[] = [];
+  for (let date = stepPeriod[granularity](start); periods.length < count; date = stepPeriod[granularity](date)) {
+    periods.push(format(date, "yyyy-MM-dd"));
+  }
+  return periods;
+}
+
+/** First and last day of the period starting on the given date */
+export function getPeriodRange(period: string, granularity: TimeGranularity): { start: Date; end: Date } | null {
+  const start = parseISO(period);
+  if (granularity === "none" || !isValid(start)) return null;
+  return { start, end: addDays(stepPeriod[granularity](start), -1) };
+}
+
+/** Axis label for a period start, e.g. "Jan 8" (day, week), "Jan 2024", "Q1 2024", "2024" */
+export function formatPeriodTick(period: string, granularity: TimeGranularity): string {
+  const date = parseISO(period);
+  if (!isValid(date)) return period;
+
+  switch (granularity) {
+    case "day":
+    case "week":
+      return format(date, "MMM d");
+    case "month":
+      return format(date, "MMM yyyy");
+    case "quarter":
+      return format(date, "'Q'Q yyyy");
+    case "year":
+      return format(date, "yyyy");
+    default:
+      return period;
+  }
+}
+
+/** Tooltip label for a period start, e.g. "Week of Jan 8, 2024" */
+export function formatPeriodLabel(period: string, granularity: TimeGranularity): string {
+  const date = parseISO(period);
+  if (!isValid(date)) return period;
+
+  switch (granularity) {
+    case "day":
+      return format(date, "EEE, MMM d, yyyy");
+    case "week":
+      return format(date, "'Week of' MMM d, yyyy");
+    default:
+      return formatPeriodTick(period, granularity);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * timeSeriesAnalytics.ts - Trend lines, moving averages and forecasts
+ *
+ * Computed in the browser from a single-series time axis once it has been
+ * aggregated (see planTimeSeriesQuery), and stored on its DataPoints as
+ * extra keys so the preview can draw them and every consumer sees them:
+ *   - trend:          least-squares linear fit, continued over the forecast
+ *   - movingAverage:  trailing mean of the last N periods, from the Nth period on
+ *   - forecast:       Holt's linear exponential smoothing for the next N periods,
+ *                     with forecastLower / forecastUpper as an approximate 95% band
+ *                     widening with the horizon
+ * Forecast periods are appended as points flagged isForecast = 1, with value 0;
+ * the last actual point carries forecast = value so the projection continues
+ * from it.
+ */
+
+import type { ChartConfig } from "@/components/ChartConfigDropdowns";
+import type { DataPoint } from "@/components/DataEditor";
+import type { TimeGranularity } from "@/types/dashboard";
+import { getNextPeriods } from "@/utils/timeAxis";
+
+export type TimeSeriesAnalytics = Pick<ChartConfig, "trendLine" | "movingAverage" | "forecastPeriods">;
+
+// Smoothing parameters tried when fitting the forecast, lowest one-step error wins
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+const Z_95 = 1.96;
+const MIN_FORECAST_POINTS = 3;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Least-squares line through the values, as intercept + slope × index */
+export function fitLinearTrend(values: number[]): { intercept: number; slope: number } {
+  const n = values.length;
+  if (n === 0) return { intercept: 0, slope: 0 };
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, v) => sum + v, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((v, x) => {
+    covariance += (x - meanX) * (v - meanY);
+    variance += (x - meanX) ** 2;
+  });
+  const slope = variance === 0 ? 0 : covariance / variance;
+  return { intercept: meanY - slope * meanX, slope };
+}
+
+/** Trailing mean over a window; null until the window is full */
+export function getMovingAverage(values: number[], window: number): (number | null)[] {
+  let sum = 0;
+  return values.map((v, i) => {
+    sum += v;
+    if (i >= window) sum -= values[i - window];
+    return i >= window - 1 ? sum / window : null;
+  });
+}
+
+// One pass of Holt's method; returns the final level and trend and the one-step errors
+function runHolt(values: number[], alpha: number, beta: number) {
+  let level = values[0];
+  let trend = values[1] - values[0];
+  let sse = 0;
+  for (let t = 1; t < values.length; t++) {
+    const error = values[t] - (level + trend);
+    sse += error ** 2;
+    const nextLevel = alpha * values[t] + (1 - alpha) * (level + trend);
+    trend = beta * (nextLevel - level) + (1 - beta) * trend;
+    level = nextLevel;
+  }
+  return { level, trend, sse };
+}
+
+/**
+ * Holt's linear exponential smoothing, fitted over a grid of smoothing parameters
+ * @returns One projection per future period, or [] with too few values
+ */
+export function forecastSeries(values: number[], periods: number): { value: number; lower: number; upper: number }[] {
+  if (values.length < MIN_FORECAST_POINTS || periods <= 0) return [];
+
+  let best = runHolt(values, SMOOTHING_GRID[0], SMOOTHING_GRID[0]);
+  SMOOTHING_GRID.forEach((alpha) =>
+    SMOOTHING_GRID.forEach((beta) => {
+      const fit = runHolt(values, alpha, beta);
+      if (fit.sse < best.sse) best = fit;
+    })
+  );
+
+  // Counts, spend and rates can't go below zero
+  const floor = Math.min(...values) >= 0 ? 0 : -Infinity;
+  const sigma = Math.sqrt(best.sse / (values.length - 1));
+  return Array.from({ length: periods }, (_, i) => {
+    const h = i + 1;
+    const value = best.level + h * best.trend;
+    const margin = Z_95 * sigma * Math.sqrt(h);
+    return { value: Math.max(floor, value), lower: Math.max(floor, value - margin), upper: Math.max(floor, value + margin) };
+  });
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+export const hasTimeSeriesAnalytics = (options: TimeSeriesAnalytics) =>
+  !!options.trendLine || (options.movingAverage ?? 0) > 1 || (options.forecastPeriods ?? 0) > 0;
+
+/**
+ * Adds the enabled analytics to a chronological single-series time axis
+ * @param data - One point per period, oldest first, categories are period starts
+ */
+export function applyTimeSeriesAnalytics(
+  data: DataPoint[],
+  options: TimeSeriesAnalytics,
+  granularity: TimeGranularity
+): DataPoint[] {
+  if (data.length === 0 || !hasTimeSeriesAnalytics(options)) return data;
+
+  const values = data.map((point) => point.value);
+  const result: DataPoint[] = data.map((point) => ({ ...point }));
+  const trend = options.trendLine && values.length >= 2 ? fitLinearTrend(values) : null;
+
+  if (trend) {
+    result.forEach((point, i) => { point.trend = round2(trend.intercept + trend.slope * i); });
+  }
+
+  if ((options.movingAverage ?? 0) > 1) {
+    getMovingAverage(values, options.movingAverage!).forEach((average, i) => {
+      if (average !== null) result[i].movingAverage = round2(average);
+    });
+  }
+
+  const forecast = forecastSeries(values, options.forecastPeriods ?? 0);
+  if (forecast.length > 0) {
+    const last = result[result.length - 1];
+    last.forecast = last.value;
+    last.forecastLower = last.value;
+    last.forecastUpper = last.value;
+
+    getNextPeriods(last.category, forecast.length, granularity).forEach((period, i) => {
+      const point: DataPoint = {
+        id: crypto.randomUUID(),
+        category: period,
+        value: 0,
+        isForecast: 1,
+        forecast: round2(forecast[i].value),
+        forecastLower: round2(forecast[i].lower),
+        forecastUpper: round2(forecast[i].upper),
+      };
+      if (trend) point.trend = round2(trend.intercept + trend.slope * (values.length + i));
+      result.push(point);
+    });
+  }
+
+  return result;
+}
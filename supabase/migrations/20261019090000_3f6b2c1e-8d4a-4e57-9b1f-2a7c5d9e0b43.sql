@@ -0,0 +1,206 @@
+-- Server-side aggregation for dashboard visuals
+--
+-- Charts and cards used to be aggregated in the browser from a 500-row sample
+-- of meta_ads_campaigns. aggregate_meta_ads groups and aggregates the full
+-- table instead and returns one JSON object per group.
+--
+-- Arguments:
+--   p_group_by     Dimension columns to group by, e.g. '{campaign_name}'
+--   p_granularity  Date bucket: none | day | week | month | quarter | year
+--   p_measures     Array of measures, each
+--                    {"numerator": "spend", "denominator": "conversions", "multiplier": 1, "aggregation": "sum"}
+--                  denominator/multiplier are only set for derived (ratio) metrics.
+--                  aggregation: sum | avg | min | max | count | distinctCount | last
+--                  A derived metric's "sum" is a ratio of sums; "last" uses the rows on
+--                  the group's latest date.
+--   p_filters      Array of slicer filters, each with either "column" or numerator/denominator/multiplier, plus
+--                    {"operator": "equals" | "contains" | "gt" | "lt" | "gte" | "lte", "values": [...]}
+--                    {"min": 10, "max": 100}                       (numeric range)
+--                    {"start": "2024-01-01", "end": "2024-01-31"}  (inclusive date range)
+--
+-- Returns rows like {"dimensions": ["Holiday Sale"], "period": "2024-01-01", "values": [1234.5]}
+-- with values in the same order as p_measures. period is null when p_granularity is none.
+
+-- Row-level SQL expression for a column or a ratio of two columns
+-- Only whitelisted numeric/dimension columns are accepted
+CREATE OR REPLACE FUNCTION public.meta_ads_value_expression(p_spec JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  allowed_columns CONSTANT TEXT[] := ARRAY[
+    'campaign_id', 'campaign_name', 'ad_set_name', 'date',
+    'impressions', 'clicks', 'spend', 'conversions', 'ctr', 'cpc', 'cpm', 'roas'
+  ];
+  numeric_columns CONSTANT TEXT[] := ARRAY['impressions', 'clicks', 'spend', 'conversions', 'ctr', 'cpc', 'cpm', 'roas'];
+  col TEXT := p_spec->>'column';
+  num TEXT := p_spec->>'numerator';
+  den TEXT := p_spec->>'denominator';
+  mult NUMERIC := COALESCE((p_spec->>'multiplier')::numeric, 1);
+BEGIN
+  IF col IS NOT NULL THEN
+    IF NOT col = ANY(allowed_columns) THEN
+      RAISE EXCEPTION 'Unknown column: %', col;
+    END IF;
+    RETURN format('%I', col);
+  END IF;
+
+  IF num IS NULL OR NOT num = ANY(numeric_columns) THEN
+    RAISE EXCEPTION 'Unknown measure column: %', num;
+  END IF;
+
+  IF den IS NULL THEN
+    RETURN format('%I::numeric', num);
+  END IF;
+
+  IF NOT den = ANY(numeric_columns) THEN
+    RAISE EXCEPTION 'Unknown measure column: %', den;
+  END IF;
+
+  RETURN format('(CASE WHEN %2$I = 0 THEN 0 ELSE %1$I::numeric / %2$I * %3$s END)', num, den, mult);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.aggregate_meta_ads(
+  p_group_by TEXT[] DEFAULT '{}',
+  p_granularity TEXT DEFAULT 'none',
+  p_measures JSONB DEFAULT '[]'::jsonb,
+  p_filters JSONB DEFAULT '[]'::jsonb
+)
+RETURNS SETOF JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  dimension_columns CONSTANT TEXT[] := ARRAY['campaign_id', 'campaign_name', 'ad_set_name'];
+  group_columns TEXT[] := '{}';
+  period_expr TEXT := 'NULL::date';
+  where_clauses TEXT[] := ARRAY['TRUE'];
+  value_exprs TEXT[] := '{}';
+  dim TEXT;
+  measure_spec JSONB;
+  filter_spec JSONB;
+  row_expr TEXT;
+  agg_expr TEXT;
+  num TEXT;
+  den TEXT;
+  mult TEXT;
+  query_sql TEXT;
+BEGIN
+  -- Group-by dimensions
+  FOREACH dim IN ARRAY COALESCE(p_group_by, '{}') LOOP
+    IF NOT dim = ANY(dimension_columns) THEN
+      RAISE EXCEPTION 'Unknown dimension: %', dim;
+    END IF;
+    group_columns := group_columns || format('%I', dim);
+  END LOOP;
+
+  -- Date bucket (weeks start on Monday, matching the client)
+  IF p_granularity IN ('day', 'week', 'month', 'quarter', 'year') THEN
+    period_expr := format('date_trunc(%L, date)::date', p_granularity);
+  ELSIF p_granularity IS NOT NULL AND p_granularity <> 'none' THEN
+    RAISE EXCEPTION 'Unknown granularity: %', p_granularity;
+  END IF;
+
+  -- Filters
+  FOR filter_spec IN SELECT * FROM jsonb_array_elements(COALESCE(p_filters, '[]'::jsonb)) LOOP
+    row_expr := public.meta_ads_value_expression(filter_spec);
+
+    IF filter_spec ? 'start' OR filter_spec ? 'end' THEN
+      IF filter_spec->>'start' IS NOT NULL THEN
+        where_clauses := where_clauses || format('%s >= %L::date', row_expr, filter_spec->>'start');
+      END IF;
+      IF filter_spec->>'end' IS NOT NULL THEN
+        where_clauses := where_clauses || format('%s <= %L::date', row_expr, filter_spec->>'end');
+      END IF;
+    ELSIF filter_spec ? 'min' AND filter_spec ? 'max' THEN
+      where_clauses := where_clauses || format(
+        '%s BETWEEN %L::numeric AND %L::numeric', row_expr, filter_spec->>'min', filter_spec->>'max'
+      );
+    ELSIF jsonb_array_length(COALESCE(filter_spec->'values', '[]'::jsonb)) > 0 THEN
+      CASE COALESCE(filter_spec->>'operator', 'equals')
+        WHEN 'contains' THEN
+          where_clauses := where_clauses || format(
+            'EXISTS (SELECT 1 FROM jsonb_array_elements_text(%L::jsonb) v WHERE %s::text ILIKE ''%%'' || v || ''%%'')',
+            filter_spec->'values', row_expr
+          );
+        WHEN 'gt' THEN
+          where_clauses := where_clauses || format('%s > %L::numeric', row_expr, filter_spec->'values'->>0);
+        WHEN 'lt' THEN
+          where_clauses := where_clauses || format('%s < %L::numeric', row_expr, filter_spec->'values'->>0);
+        WHEN 'gte' THEN
+          where_clauses := where_clauses || format('%s >= %L::numeric', row_expr, filter_spec->'values'->>0);
+        WHEN 'lte' THEN
+          where_clauses := where_clauses || format('%s <= %L::numeric', row_expr, filter_spec->'values'->>0);
+        ELSE
+          where_clauses := where_clauses || format(
+            '%s::text IN (SELECT jsonb_array_elements_text(%L::jsonb))', row_expr, filter_spec->'values'
+          );
+      END CASE;
+    END IF;
+  END LOOP;
+
+  -- Measures
+  FOR measure_spec IN SELECT * FROM jsonb_array_elements(COALESCE(p_measures, '[]'::jsonb)) LOOP
+    row_expr := public.meta_ads_value_expression(measure_spec - 'column');
+    num := format('%I', measure_spec->>'numerator');
+    den := CASE WHEN measure_spec->>'denominator' IS NOT NULL THEN format('%I', measure_spec->>'denominator') END;
+    mult := COALESCE((measure_spec->>'multiplier')::numeric, 1)::text;
+
+    CASE COALESCE(measure_spec->>'aggregation', 'sum')
+      WHEN 'avg' THEN agg_expr := format('AVG(%s)', row_expr);
+      WHEN 'min' THEN agg_expr := format('MIN(%s)', row_expr);
+      WHEN 'max' THEN agg_expr := format('MAX(%s)', row_expr);
+      WHEN 'count' THEN agg_expr := 'COUNT(*)';
+      WHEN 'distinctCount' THEN agg_expr := format('COUNT(DISTINCT %s)', row_expr);
+      WHEN 'last' THEN
+        agg_expr := CASE WHEN den IS NULL
+          THEN format('SUM(%s) FILTER (WHERE date = latest_date)', num)
+          ELSE format(
+            'CASE WHEN COALESCE(SUM(%2$s) FILTER (WHERE date = latest_date), 0) = 0 THEN 0 '
+            'ELSE SUM(%1$s) FILTER (WHERE date = latest_date)::numeric / SUM(%2$s) FILTER (WHERE date = latest_date) * %3$s END',
+            num, den, mult
+          )
+        END;
+      ELSE
+        agg_expr := CASE WHEN den IS NULL
+          THEN format('SUM(%s)', num)
+          ELSE format(
+            'CASE WHEN COALESCE(SUM(%2$s), 0) = 0 THEN 0 ELSE SUM(%1$s)::numeric / SUM(%2$s) * %3$s END',
+            num, den, mult
+          )
+        END;
+    END CASE;
+
+    value_exprs := value_exprs || format('COALESCE(%s, 0)', agg_expr);
+  END LOOP;
+
+  query_sql := format(
+    'WITH filtered AS (
+       SELECT *, %1$s AS period FROM public.meta_ads_campaigns WHERE %2$s
+     ), ranked AS (
+       SELECT *, MAX(date) OVER (PARTITION BY %3$s) AS latest_date FROM filtered
+     )
+     SELECT jsonb_build_object(
+       ''dimensions'', jsonb_build_array(%4$s),
+       ''period'', period,
+       ''values'', jsonb_build_array(%5$s)
+     )
+     FROM ranked
+     GROUP BY %3$s',
+    period_expr,
+    array_to_string(where_clauses, ' AND '),
+    array_to_string(group_columns || ARRAY['period'], ', '),
+    array_to_string(group_columns, ', '),
+    array_to_string(value_exprs, ', ')
+  );
+
+  RETURN QUERY EXECUTE query_sql;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.aggregate_meta_ads(TEXT[], TEXT, JSONB, JSONB) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.meta_ads_value_expression(JSONB) TO anon, authenticated;
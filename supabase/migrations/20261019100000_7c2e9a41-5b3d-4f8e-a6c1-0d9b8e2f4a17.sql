@@ -0,0 +1,183 @@
+-- Grouping sets for aggregate_meta_ads
+--
+-- Adds p_grouping_sets so a pivot matrix can fetch its cells, subtotals and
+-- grand totals in one call, each aggregated from the rows (so ratio and
+-- average measures total correctly rather than summing cell values).
+--
+--   p_grouping_sets  Optional array of column lists, each a subset of p_group_by,
+--                    e.g. [["campaign_name", "ad_set_name"], ["campaign_name"], []]
+--                    Without it rows are grouped by every p_group_by column as before.
+--
+-- Each returned row gains "rolledUp": one boolean per p_group_by column, true
+-- when the row is a total over that column (its dimension value is then null).
+-- "last" aggregations still take the latest date of the finest group.
+
+DROP FUNCTION IF EXISTS public.aggregate_meta_ads(TEXT[], TEXT, JSONB, JSONB);
+
+CREATE OR REPLACE FUNCTION public.aggregate_meta_ads(
+  p_group_by TEXT[] DEFAULT '{}',
+  p_granularity TEXT DEFAULT 'none',
+  p_measures JSONB DEFAULT '[]'::jsonb,
+  p_filters JSONB DEFAULT '[]'::jsonb,
+  p_grouping_sets JSONB DEFAULT NULL
+)
+RETURNS SETOF JSONB
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  dimension_columns CONSTANT TEXT[] := ARRAY['campaign_id', 'campaign_name', 'ad_set_name'];
+  group_columns TEXT[] := '{}';
+  grouping_exprs TEXT[] := '{}';
+  set_clauses TEXT[] := '{}';
+  set_columns TEXT[];
+  set_spec JSONB;
+  group_clause TEXT;
+  period_expr TEXT := 'NULL::date';
+  where_clauses TEXT[] := ARRAY['TRUE'];
+  value_exprs TEXT[] := '{}';
+  dim TEXT;
+  measure_spec JSONB;
+  filter_spec JSONB;
+  row_expr TEXT;
+  agg_expr TEXT;
+  num TEXT;
+  den TEXT;
+  mult TEXT;
+  query_sql TEXT;
+BEGIN
+  -- Group-by dimensions
+  FOREACH dim IN ARRAY COALESCE(p_group_by, '{}') LOOP
+    IF NOT dim = ANY(dimension_columns) THEN
+      RAISE EXCEPTION 'Unknown dimension: %', dim;
+    END IF;
+    group_columns := group_columns || format('%I', dim);
+    grouping_exprs := grouping_exprs || format('GROUPING(%I) = 1', dim);
+  END LOOP;
+
+  -- Grouping sets: each set is a subset of p_group_by, e.g. [["campaign_name"], []]
+  IF p_grouping_sets IS NULL THEN
+    group_clause := array_to_string(group_columns || ARRAY['period'], ', ');
+  ELSE
+    FOR set_spec IN SELECT * FROM jsonb_array_elements(p_grouping_sets) LOOP
+      set_columns := ARRAY['period'];
+      FOR dim IN SELECT * FROM jsonb_array_elements_text(set_spec) LOOP
+        IF NOT dim = ANY(COALESCE(p_group_by, '{}')) THEN
+          RAISE EXCEPTION 'Grouping set column % is not grouped by', dim;
+        END IF;
+        set_columns := format('%I', dim) || set_columns;
+      END LOOP;
+      set_clauses := set_clauses || format('(%s)', array_to_string(set_columns, ', '));
+    END LOOP;
+    group_clause := format('GROUPING SETS (%s)', array_to_string(set_clauses, ', '));
+  END IF;
+
+  -- Date bucket (weeks start on Monday, matching the client)
+  IF p_granularity IN ('day', 'week', 'month', 'quarter', 'year') THEN
+    period_expr := format('date_trunc(%L, date)::date', p_granularity);
+  ELSIF p_granularity IS NOT NULL AND p_granularity <> 'none' THEN
+    RAISE EXCEPTION 'Unknown granularity: %', p_granularity;
+  END IF;
+
+  -- Filters
+  FOR filter_spec IN SELECT * FROM jsonb_array_elements(COALESCE(p_filters, '[]'::jsonb)) LOOP
+    row_expr := public.meta_ads_value_expression(filter_spec);
+
+    IF filter_spec ? 'start' OR filter_spec ? 'end' THEN
+      IF filter_spec->>'start' IS NOT NULL THEN
+        where_clauses := where_clauses || format('%s >= %L::date', row_expr, filter_spec->>'start');
+      END IF;
+      IF filter_spec->>'end' IS NOT NULL THEN
+        where_clauses := where_clauses || format('%s <= %L::date', row_expr, filter_spec->>'end');
+      END IF;
+    ELSIF filter_spec ? 'min' AND filter_spec ? 'max' THEN
+      where_clauses := where_clauses || format(
+        '%s BETWEEN %L::numeric AND %L::numeric', row_expr, filter_spec->>'min', filter_spec->>'max'
+      );
+    ELSIF jsonb_array_length(COALESCE(filter_spec->'values', '[]'::jsonb)) > 0 THEN
+      CASE COALESCE(filter_spec->>'operator', 'equals')
+        WHEN 'contains' THEN
+          where_clauses := where_clauses || format(
+            'EXISTS (SELECT 1 FROM jsonb_array_elements_text(%L::jsonb) v WHERE %s::text ILIKE ''%%'' || v || ''%%'')',
+            filter_spec->'values', row_expr
+          );
+        WHEN 'gt' THEN
+          where_clauses := where_clauses || format('%s > %L::numeric', row_expr, filter_spec->'values'->>0);
+        WHEN 'lt' THEN
+          where_clauses := where_clauses || format('%s < %L::numeric', row_expr, filter_spec->'values'->>0);
+        WHEN 'gte' THEN
+          where_clauses := where_clauses || format('%s >= %L::numeric', row_expr, filter_spec->'values'->>0);
+        WHEN 'lte' THEN
+          where_clauses := where_clauses || format('%s <= %L::numeric', row_expr, filter_spec->'values'->>0);
+        ELSE
+          where_clauses := where_clauses || format(
+            '%s::text IN (SELECT jsonb_array_elements_text(%L::jsonb))', row_expr, filter_spec->'values'
+          );
+      END CASE;
+    END IF;
+  END LOOP;
+
+  -- Measures
+  FOR measure_spec IN SELECT * FROM jsonb_array_elements(COALESCE(p_measures, '[]'::jsonb)) LOOP
+    row_expr := public.meta_ads_value_expression(measure_spec - 'column');
+    num := format('%I', measure_spec->>'numerator');
+    den := CASE WHEN measure_spec->>'denominator' IS NOT NULL THEN format('%I', measure_spec->>'denominator') END;
+    mult := COALESCE((measure_spec->>'multiplier')::numeric, 1)::text;
+
+    CASE COALESCE(measure_spec->>'aggregation', 'sum')
+      WHEN 'avg' THEN agg_expr := format('AVG(%s)', row_expr);
+      WHEN 'min' THEN agg_expr := format('MIN(%s)', row_expr);
+      WHEN 'max' THEN agg_expr := format('MAX(%s)', row_expr);
+      WHEN 'count' THEN agg_expr := 'COUNT(*)';
+      WHEN 'distinctCount' THEN agg_expr := format('COUNT(DISTINCT %s)', row_expr);
+      WHEN 'last' THEN
+        agg_expr := CASE WHEN den IS NULL
+          THEN format('SUM(%s) FILTER (WHERE date = latest_date)', num)
+          ELSE format(
+            'CASE WHEN COALESCE(SUM(%2$s) FILTER (WHERE date = latest_date), 0) = 0 THEN 0 '
+            'ELSE SUM(%1$s) FILTER (WHERE date = latest_date)::numeric / SUM(%2$s) FILTER (WHERE date = latest_date) * %3$s END',
+            num, den, mult
+          )
+        END;
+      ELSE
+        agg_expr := CASE WHEN den IS NULL
+          THEN format('SUM(%s)', num)
+          ELSE format(
+            'CASE WHEN COALESCE(SUM(%2$s), 0) = 0 THEN 0 ELSE SUM(%1$s)::numeric / SUM(%2$s) * %3$s END',
+            num, den, mult
+          )
+        END;
+    END CASE;
+
+    value_exprs := value_exprs || format('COALESCE(%s, 0)', agg_expr);
+  END LOOP;
+
+  query_sql := format(
+    'WITH filtered AS (
+       SELECT *, %1$s AS period FROM public.meta_ads_campaigns WHERE %2$s
+     ), ranked AS (
+       SELECT *, MAX(date) OVER (PARTITION BY %3$s) AS latest_date FROM filtered
+     )
+     SELECT jsonb_build_object(
+       ''dimensions'', jsonb_build_array(%4$s),
+       ''period'', period,
+       ''values'', jsonb_build_array(%5$s),
+       ''rolledUp'', jsonb_build_array(%6$s)
+     )
+     FROM ranked
+     GROUP BY %7$s',
+    period_expr,
+    array_to_string(where_clauses, ' AND '),
+    array_to_string(group_columns || ARRAY['period'], ', '),
+    array_to_string(group_columns, ', '),
+    array_to_string(value_exprs, ', '),
+    array_to_string(grouping_exprs, ', '),
+    group_clause
+  );
+
+  RETURN QUERY EXECUTE query_sql;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.aggregate_meta_ads(TEXT[], TEXT, JSONB, JSONB, JSONB) TO anon, authenticated;
@@ -0,0 +1,44 @@
+-- Keyset paging for meta_ads_rows
+--
+-- Paging meta_ads_rows with PostgREST's order and range re-ran the whole filtered
+-- read for every page. meta_ads_rows now orders and limits the rows itself, after
+-- a (date, id) cursor, so each page reads only its own rows:
+--
+--   meta_ads_rows(p_filters, p_after_date, p_after_id, p_limit)
+--     Up to p_limit rows matching the filters, latest date first (then id
+--     descending), after the row (p_after_date, p_after_id); the first page
+--     leaves the cursor NULL. The next page starts after the last row returned.
+
+DROP FUNCTION IF EXISTS public.meta_ads_rows(JSONB);
+
+CREATE INDEX IF NOT EXISTS idx_meta_ads_campaigns_date_id ON public.meta_ads_campaigns(date DESC, id DESC);
+
+-- Rows matching the filters, a page at a time; row-level security still applies (security invoker)
+CREATE OR REPLACE FUNCTION public.meta_ads_rows(
+  p_filters JSONB DEFAULT '[]'::jsonb,
+  p_after_date DATE DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 1000
+)
+RETURNS SETOF public.meta_ads_campaigns
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  cursor_clause TEXT := 'TRUE';
+BEGIN
+  IF p_after_date IS NOT NULL AND p_after_id IS NOT NULL THEN
+    cursor_clause := format('(date, id) < (%L::date, %L::uuid)', p_after_date, p_after_id);
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT * FROM public.meta_ads_campaigns WHERE %s AND %s ORDER BY date DESC, id DESC LIMIT %s',
+    public.meta_ads_filter_clause(p_filters),
+    cursor_clause,
+    GREATEST(1, LEAST(COALESCE(p_limit, 1000), 1000))
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.meta_ads_rows(JSONB, DATE, UUID, INTEGER) TO anon, authenticated;